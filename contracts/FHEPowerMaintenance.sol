@@ -1,15 +1,40 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint16,
+    euint32,
+    euint64,
+    externalEuint8,
+    externalEuint16,
+    externalEuint32,
+    externalEuint64
+} from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { MaintenanceRegistry } from "./MaintenanceRegistry.sol";
 
-contract FHEPowerMaintenance is SepoliaConfig {
+contract FHEPowerMaintenance is SepoliaConfig, MaintenanceRegistry {
 
+    // Encrypted width of a channel's values
+    enum ChannelType { Euint8, Euint16, Euint32, Euint64 }
+
+    // A sensor channel. Plaintext values are multiplied by `scale` and rounded
+    // before encryption, e.g. scale 10 stores temperatures in 0.1 °C steps.
+    struct Channel {
+        string name;
+        string unit;
+        uint32 scale;
+        ChannelType valueType;
+        bool registered;
+    }
+
+    // Values live per channel in channelValues; see getReadingChannels
     struct EncryptedSensorData {
         uint256 id;
-        euint32 encryptedTemperature;
-        euint32 encryptedVibration;
+        string equipmentId;
         uint256 timestamp;
     }
 
@@ -19,54 +44,400 @@ contract FHEPowerMaintenance is SepoliaConfig {
         bool isProcessed;
     }
 
+    // Per-equipment alarm thresholds of a channel, encrypted with the channel's type
+    struct AlarmThreshold {
+        bytes32 warning;
+        bytes32 critical;
+    }
+
+    enum DecryptionStatus { None, Pending, Completed }
+
+    struct CountReveal {
+        uint256 requestId;
+        DecryptionStatus status;
+        uint32 count;
+        uint256 revealedAt;
+        uint256 requestedAt;
+    }
+
+    // RUL model parameters. Readings use the frontend scaling (temperature in 0.1 °C,
+    // vibration in 0.01 mm/s) and the remaining useful life is expressed in hours.
+    uint32 public constant BASE_RUL = 10000;
+    uint32 public constant TEMPERATURE_THRESHOLD = 650;
+    uint32 public constant VIBRATION_THRESHOLD = 450;
+    uint32 public constant TEMPERATURE_WEIGHT = 20;
+    uint32 public constant VIBRATION_WEIGHT = 10;
+    uint32 public constant MAX_TEMPERATURE_EXCESS = 500;
+    uint32 public constant MAX_VIBRATION_EXCESS = 1000;
+
+    // Built-in channels, registered at deployment and read by the RUL model
+    string public constant TEMPERATURE_CHANNEL = "temperature";
+    string public constant VIBRATION_CHANNEL = "vibration";
+
+    // Encrypted alarm level of a reading; anything below warning is 0 (normal)
+    uint8 public constant ALARM_WARNING = 1;
+    uint8 public constant ALARM_CRITICAL = 2;
+
+    // An input proof covers at most 2048 bits, i.e. 32 temperature/vibration pairs
+    uint256 public constant MAX_BATCH_SIZE = 32;
+
+    // A count decryption the oracle has not answered within this time can be
+    // requested again; the late callback of the abandoned request is rejected
+    uint256 public constant COUNT_DECRYPTION_TIMEOUT = 1 hours;
+
     uint256 public dataCount;
     mapping(uint256 => EncryptedSensorData) public encryptedData;
     mapping(uint256 => MaintenancePrediction) public predictions;
+    mapping(uint256 => euint32) private encryptedRUL;
+
+    mapping(string => uint256[]) private equipmentReadings;
+    mapping(string => uint256) public latestPredictionId;
 
     mapping(string => euint32) private encryptedEquipmentCount;
-    string[] private equipmentList;
+    mapping(string => CountReveal) private countReveals;
+    mapping(bytes32 => string) private equipmentIdByHash;
+    mapping(uint256 => bytes32) private countRequestToEquipment;
 
     mapping(uint256 => uint256) private requestToDataId;
 
-    event DataSubmitted(uint256 indexed id, uint256 timestamp);
+    mapping(string => Channel) private channels;
+    string[] private channelIds;
+    mapping(uint256 => string[]) private readingChannels;
+    mapping(uint256 => mapping(string => bytes32)) private channelValues;
+
+    mapping(string => mapping(string => AlarmThreshold)) private alarmThresholds;
+    mapping(uint256 => euint8) private alarmLevels;
+
+    event ChannelRegistered(string channelId);
+    event AlarmThresholdSet(string equipmentId, string channelId);
+    event DataSubmitted(uint256 indexed id, string equipmentId, uint256 timestamp);
     event PredictionRequested(uint256 indexed id);
     event PredictionProcessed(uint256 indexed id);
+    event EquipmentCountRequested(string equipmentId, uint256 indexed requestId);
+    event EquipmentCountRevealed(string equipmentId, uint256 indexed requestId, uint32 count);
 
     modifier onlyOperator(uint256 dataId) {
-        // Placeholder for access control
+        require(encryptedData[dataId].id != 0, "Data not found");
+        string memory substationId = _substationOf(encryptedData[dataId].equipmentId);
+        require(hasRole(substationId, msg.sender, Role.Operator), "Only substation operator");
         _;
     }
 
+    constructor() {
+        _registerChannel(TEMPERATURE_CHANNEL, "Temperature", unicode"°C", 10, ChannelType.Euint32);
+        _registerChannel(VIBRATION_CHANNEL, "Vibration", "mm/s", 100, ChannelType.Euint32);
+    }
+
+    function registerChannel(
+        string calldata channelId,
+        string calldata name,
+        string calldata unit,
+        uint32 scale,
+        ChannelType valueType
+    ) public onlyAdmin {
+        _registerChannel(channelId, name, unit, scale, valueType);
+    }
+
+    function _registerChannel(
+        string memory channelId,
+        string memory name,
+        string memory unit,
+        uint32 scale,
+        ChannelType valueType
+    ) internal {
+        require(bytes(channelId).length > 0, "Empty channel id");
+        require(!channels[channelId].registered, "Channel already registered");
+        require(scale > 0, "Invalid scale");
+
+        channels[channelId] = Channel({ name: name, unit: unit, scale: scale, valueType: valueType, registered: true });
+        channelIds.push(channelId);
+
+        emit ChannelRegistered(channelId);
+    }
+
+    function getChannelIds() public view returns (string[] memory) {
+        return channelIds;
+    }
+
+    function getChannel(string memory channelId) public view returns (
+        string memory name,
+        string memory unit,
+        uint32 scale,
+        ChannelType valueType
+    ) {
+        Channel storage c = channels[channelId];
+        require(c.registered, "Channel not registered");
+        return (c.name, c.unit, c.scale, c.valueType);
+    }
+
     function submitEncryptedSensorData(
-        euint32 encryptedTemperature,
-        euint32 encryptedVibration
+        string calldata equipmentId,
+        externalEuint32 externalTemperature,
+        externalEuint32 externalVibration,
+        bytes calldata inputProof
+    ) public onlySubstationOperator(_substationOf(equipmentId)) {
+        _storeReading(equipmentId, externalTemperature, externalVibration, inputProof);
+    }
+
+    /// @notice Submits several readings encrypted under a single input proof. Each
+    /// reading gets its own data id and DataSubmitted event; the caller has to
+    /// operate the substation of every asset in the batch.
+    function submitEncryptedSensorDataBatch(
+        string[] calldata equipmentIds,
+        externalEuint32[] calldata externalTemperatures,
+        externalEuint32[] calldata externalVibrations,
+        bytes calldata inputProof
+    ) public {
+        uint256 count = equipmentIds.length;
+        require(count > 0 && count <= MAX_BATCH_SIZE, "Invalid batch size");
+        require(
+            externalTemperatures.length == count && externalVibrations.length == count,
+            "Batch length mismatch"
+        );
+
+        for (uint256 i = 0; i < count; i++) {
+            require(hasRole(_substationOf(equipmentIds[i]), msg.sender, Role.Operator), "Only substation operator");
+            _storeReading(equipmentIds[i], externalTemperatures[i], externalVibrations[i], inputProof);
+        }
+    }
+
+    /// @notice Submits readings for any registered channels under one input proof.
+    /// Every reading carries the same channels; `externalHandles` lists them reading
+    /// by reading, i.e. reading i, channel j is at i * channelIds.length + j.
+    function submitEncryptedChannelData(
+        string[] calldata equipmentIds,
+        string[] calldata readingChannelIds,
+        bytes32[] calldata externalHandles,
+        bytes calldata inputProof
     ) public {
+        uint256 count = equipmentIds.length;
+        uint256 width = readingChannelIds.length;
+        require(count > 0 && count <= MAX_BATCH_SIZE, "Invalid batch size");
+        require(width > 0 && externalHandles.length == count * width, "Batch length mismatch");
+
+        for (uint256 j = 0; j < width; j++) {
+            require(channels[readingChannelIds[j]].registered, "Channel not registered");
+            for (uint256 k = 0; k < j; k++) {
+                require(
+                    keccak256(bytes(readingChannelIds[j])) != keccak256(bytes(readingChannelIds[k])),
+                    "Duplicate channel"
+                );
+            }
+        }
+
+        for (uint256 i = 0; i < count; i++) {
+            require(hasRole(_substationOf(equipmentIds[i]), msg.sender, Role.Operator), "Only substation operator");
+            uint256 dataId = _newReading(equipmentIds[i]);
+            for (uint256 j = 0; j < width; j++) {
+                _storeChannel(dataId, readingChannelIds[j], externalHandles[i * width + j], inputProof);
+            }
+            _evaluateAlarm(dataId, equipmentIds[i]);
+            emit DataSubmitted(dataId, equipmentIds[i], block.timestamp);
+        }
+    }
+
+    function _storeReading(
+        string calldata equipmentId,
+        externalEuint32 externalTemperature,
+        externalEuint32 externalVibration,
+        bytes calldata inputProof
+    ) internal {
+        uint256 dataId = _newReading(equipmentId);
+        _storeChannel(dataId, TEMPERATURE_CHANNEL, externalEuint32.unwrap(externalTemperature), inputProof);
+        _storeChannel(dataId, VIBRATION_CHANNEL, externalEuint32.unwrap(externalVibration), inputProof);
+        _evaluateAlarm(dataId, equipmentId);
+        emit DataSubmitted(dataId, equipmentId, block.timestamp);
+    }
+
+    function _newReading(string calldata equipmentId) internal returns (uint256) {
         dataCount += 1;
         uint256 newId = dataCount;
 
         encryptedData[newId] = EncryptedSensorData({
             id: newId,
-            encryptedTemperature: encryptedTemperature,
-            encryptedVibration: encryptedVibration,
+            equipmentId: equipmentId,
             timestamp: block.timestamp
         });
 
         predictions[newId] = MaintenancePrediction({
-            equipmentId: "",
+            equipmentId: equipmentId,
             predictedRUL: 0,
             isProcessed: false
         });
+        equipmentReadings[equipmentId].push(newId);
+
+        return newId;
+    }
+
+    function _storeChannel(uint256 dataId, string memory channelId, bytes32 externalHandle, bytes calldata inputProof)
+        internal
+    {
+        channelValues[dataId][channelId] = _fromExternal(channels[channelId].valueType, externalHandle, inputProof);
+        readingChannels[dataId].push(channelId);
+    }
+
+    // Verifies one handle against the proof as `valueType` and grants the contract
+    // and the sender access. Reverts unless the proof binds the handle to this
+    // contract and the sender.
+    function _fromExternal(ChannelType valueType, bytes32 externalHandle, bytes calldata inputProof)
+        internal
+        returns (bytes32 handle)
+    {
+        if (valueType == ChannelType.Euint8) {
+            euint8 value = FHE.fromExternal(externalEuint8.wrap(externalHandle), inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            handle = euint8.unwrap(value);
+        } else if (valueType == ChannelType.Euint16) {
+            euint16 value = FHE.fromExternal(externalEuint16.wrap(externalHandle), inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            handle = euint16.unwrap(value);
+        } else if (valueType == ChannelType.Euint32) {
+            euint32 value = FHE.fromExternal(externalEuint32.wrap(externalHandle), inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            handle = euint32.unwrap(value);
+        } else {
+            euint64 value = FHE.fromExternal(externalEuint64.wrap(externalHandle), inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            handle = euint64.unwrap(value);
+        }
+    }
+
+    /// @notice Sets the encrypted warning and critical thresholds of one channel for
+    /// an asset. Both are encrypted with the channel's type under one input proof and
+    /// apply to readings submitted afterwards; critical should not be below warning.
+    function setAlarmThreshold(
+        string calldata equipmentId,
+        string calldata channelId,
+        bytes32 externalWarning,
+        bytes32 externalCritical,
+        bytes calldata inputProof
+    ) public onlySubstationOperator(_substationOf(equipmentId)) {
+        Channel storage c = channels[channelId];
+        require(c.registered, "Channel not registered");
+
+        alarmThresholds[equipmentId][channelId] = AlarmThreshold({
+            warning: _fromExternal(c.valueType, externalWarning, inputProof),
+            critical: _fromExternal(c.valueType, externalCritical, inputProof)
+        });
 
-        emit DataSubmitted(newId, block.timestamp);
+        emit AlarmThresholdSet(equipmentId, channelId);
+    }
+
+    function getAlarmThreshold(string memory equipmentId, string memory channelId) public view returns (
+        bytes32 warning,
+        bytes32 critical
+    ) {
+        AlarmThreshold storage t = alarmThresholds[equipmentId][channelId];
+        return (t.warning, t.critical);
+    }
+
+    // Compares every channel of the reading that has thresholds for the asset; the
+    // level is the highest one any channel reaches. The flags are combined first so
+    // that only a single select is paid per reading, which keeps a full batch with
+    // temperature and vibration thresholds within the per-transaction HCU limit.
+    // Readings without any thresholds get no alarm level.
+    function _evaluateAlarm(uint256 dataId, string calldata equipmentId) internal {
+        string[] storage ids = readingChannels[dataId];
+        ebool anyWarning;
+        ebool anyCritical;
+        bool evaluated;
+        for (uint256 i = 0; i < ids.length; i++) {
+            AlarmThreshold storage threshold = alarmThresholds[equipmentId][ids[i]];
+            if (threshold.warning == bytes32(0)) continue;
+
+            (ebool warning, ebool critical) = _reachesThresholds(
+                channels[ids[i]].valueType,
+                channelValues[dataId][ids[i]],
+                threshold
+            );
+            anyWarning = evaluated ? FHE.or(anyWarning, warning) : warning;
+            anyCritical = evaluated ? FHE.or(anyCritical, critical) : critical;
+            evaluated = true;
+        }
+        if (!evaluated) return;
+
+        euint8 level = FHE.select(anyCritical, FHE.asEuint8(ALARM_CRITICAL), FHE.asEuint8(anyWarning));
+        FHE.allowThis(level);
+        FHE.allow(level, msg.sender);
+        alarmLevels[dataId] = level;
+    }
+
+    function _reachesThresholds(ChannelType valueType, bytes32 value, AlarmThreshold storage t)
+        internal
+        returns (ebool warning, ebool critical)
+    {
+        if (valueType == ChannelType.Euint8) {
+            euint8 v = euint8.wrap(value);
+            return (FHE.ge(v, euint8.wrap(t.warning)), FHE.ge(v, euint8.wrap(t.critical)));
+        } else if (valueType == ChannelType.Euint16) {
+            euint16 v = euint16.wrap(value);
+            return (FHE.ge(v, euint16.wrap(t.warning)), FHE.ge(v, euint16.wrap(t.critical)));
+        } else if (valueType == ChannelType.Euint32) {
+            euint32 v = euint32.wrap(value);
+            return (FHE.ge(v, euint32.wrap(t.warning)), FHE.ge(v, euint32.wrap(t.critical)));
+        }
+        euint64 v64 = euint64.wrap(value);
+        return (FHE.ge(v64, euint64.wrap(t.warning)), FHE.ge(v64, euint64.wrap(t.critical)));
+    }
+
+    /// @notice Encrypted alarm level of a reading (0 normal, 1 warning, 2 critical),
+    /// or an uninitialized handle if the asset had no thresholds at submission
+    function getAlarmLevel(uint256 dataId) public view returns (euint8) {
+        require(encryptedData[dataId].id != 0, "Data not found");
+        return alarmLevels[dataId];
+    }
+
+    function canDecryptAlarmLevel(uint256 dataId, address account) public view returns (bool) {
+        euint8 level = alarmLevels[dataId];
+        return FHE.isInitialized(level) && FHE.isAllowed(level, account);
+    }
+
+    /// @notice Lets an operator of each reading's substation decrypt its alarm level.
+    /// Only the level is shared; the raw channel values stay with the submitter.
+    function allowAlarmLevels(uint256[] calldata dataIds) public {
+        for (uint256 i = 0; i < dataIds.length; i++) {
+            require(encryptedData[dataIds[i]].id != 0, "Data not found");
+            string memory substationId = _substationOf(encryptedData[dataIds[i]].equipmentId);
+            require(hasRole(substationId, msg.sender, Role.Operator), "Only substation operator");
+            euint8 level = alarmLevels[dataIds[i]];
+            require(FHE.isInitialized(level), "No alarm level");
+            FHE.allow(level, msg.sender);
+        }
+    }
+
+    /// @notice Channel ids of a reading with their ciphertext handles, in submission order
+    function getReadingChannels(uint256 dataId) public view returns (string[] memory ids, bytes32[] memory handles) {
+        require(encryptedData[dataId].id != 0, "Data not found");
+        ids = readingChannels[dataId];
+        handles = new bytes32[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            handles[i] = channelValues[dataId][ids[i]];
+        }
+    }
+
+    function getChannelValue(uint256 dataId, string memory channelId) public view returns (bytes32) {
+        bytes32 handle = channelValues[dataId][channelId];
+        require(handle != bytes32(0), "Channel not in reading");
+        return handle;
     }
 
     function requestPrediction(uint256 dataId) public onlyOperator(dataId) {
-        EncryptedSensorData storage data = encryptedData[dataId];
         require(!predictions[dataId].isProcessed, "Already processed");
+        bytes32 temperature = channelValues[dataId][TEMPERATURE_CHANNEL];
+        bytes32 vibration = channelValues[dataId][VIBRATION_CHANNEL];
+        require(temperature != bytes32(0) && vibration != bytes32(0), "Reading lacks RUL channels");
+
+        // Only the computed RUL is ever decrypted, never the raw readings
+        euint32 rul = computeRUL(euint32.wrap(temperature), euint32.wrap(vibration));
+        FHE.allowThis(rul);
+        encryptedRUL[dataId] = rul;
 
-        bytes32[] memory ciphertexts = new bytes32[](2);
-        ciphertexts[0] = FHE.toBytes32(data.encryptedTemperature);
-        ciphertexts[1] = FHE.toBytes32(data.encryptedVibration);
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(rul);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.processPrediction.selector);
         requestToDataId[reqId] = dataId;
@@ -82,27 +453,56 @@ contract FHEPowerMaintenance is SepoliaConfig {
         uint256 dataId = requestToDataId[requestId];
         require(dataId != 0, "Invalid request");
 
+        MaintenancePrediction storage pred = predictions[dataId];
+        require(!pred.isProcessed, "Already processed");
+
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint256[] memory results = abi.decode(cleartexts, (uint256[]));
+        uint32 rul = abi.decode(cleartexts, (uint32));
 
-        MaintenancePrediction storage pred = predictions[dataId];
-        pred.equipmentId = string(abi.encodePacked("EQ-", uint2str(dataId)));
-        pred.predictedRUL = results[0];
+        pred.predictedRUL = rul;
         pred.isProcessed = true;
 
-        if (FHE.isInitialized(encryptedEquipmentCount[pred.equipmentId]) == false) {
-            encryptedEquipmentCount[pred.equipmentId] = FHE.asEuint32(0);
-            equipmentList.push(pred.equipmentId);
+        // Readings can be processed out of order; keep the most recent one per asset
+        if (dataId > latestPredictionId[pred.equipmentId]) {
+            latestPredictionId[pred.equipmentId] = dataId;
         }
-        encryptedEquipmentCount[pred.equipmentId] = FHE.add(
-            encryptedEquipmentCount[pred.equipmentId],
-            FHE.asEuint32(1)
-        );
+
+        euint32 count = FHE.add(encryptedEquipmentCount[pred.equipmentId], FHE.asEuint32(1));
+        FHE.allowThis(count);
+        encryptedEquipmentCount[pred.equipmentId] = count;
 
         emit PredictionProcessed(dataId);
     }
 
+    /// @notice Remaining useful life estimate computed entirely on ciphertexts.
+    /// Each reading above its threshold costs a weighted number of hours, with the
+    /// excess capped so the products cannot overflow 32 bits; RUL floors at zero.
+    function computeRUL(euint32 temperature, euint32 vibration) internal returns (euint32) {
+        euint32 zero = FHE.asEuint32(0);
+
+        euint32 temperatureExcess = FHE.select(
+            FHE.gt(temperature, TEMPERATURE_THRESHOLD),
+            FHE.sub(temperature, TEMPERATURE_THRESHOLD),
+            zero
+        );
+        temperatureExcess = FHE.min(temperatureExcess, MAX_TEMPERATURE_EXCESS);
+
+        euint32 vibrationExcess = FHE.select(
+            FHE.gt(vibration, VIBRATION_THRESHOLD),
+            FHE.sub(vibration, VIBRATION_THRESHOLD),
+            zero
+        );
+        vibrationExcess = FHE.min(vibrationExcess, MAX_VIBRATION_EXCESS);
+
+        euint32 penalty = FHE.add(
+            FHE.mul(temperatureExcess, TEMPERATURE_WEIGHT),
+            FHE.mul(vibrationExcess, VIBRATION_WEIGHT)
+        );
+
+        return FHE.select(FHE.ge(penalty, BASE_RUL), zero, FHE.sub(BASE_RUL, penalty));
+    }
+
     function getPrediction(uint256 dataId) public view returns (
         string memory equipmentId,
         uint256 predictedRUL,
@@ -112,19 +512,53 @@ contract FHEPowerMaintenance is SepoliaConfig {
         return (p.equipmentId, p.predictedRUL, p.isProcessed);
     }
 
+    function _afterEquipmentRegistered(string memory equipmentId) internal override {
+        euint32 count = FHE.asEuint32(0);
+        FHE.allowThis(count);
+        encryptedEquipmentCount[equipmentId] = count;
+        equipmentIdByHash[keccak256(bytes(equipmentId))] = equipmentId;
+    }
+
+    function getEquipment(string memory equipmentId) public view returns (
+        string memory substationId,
+        string memory name,
+        EquipmentKind kind,
+        uint256 readingCount
+    ) {
+        Equipment storage e = equipment[equipmentId];
+        require(e.registered, "Equipment not registered");
+        return (e.substationId, e.name, e.kind, equipmentReadings[equipmentId].length);
+    }
+
+    function getEquipmentReadings(string memory equipmentId) public view returns (uint256[] memory) {
+        return equipmentReadings[equipmentId];
+    }
+
     function getEncryptedEquipmentCount(string memory equipmentId) public view returns (euint32) {
         return encryptedEquipmentCount[equipmentId];
     }
 
-    function requestEquipmentCountDecryption(string memory equipmentId) public {
-        euint32 count = encryptedEquipmentCount[equipmentId];
-        require(FHE.isInitialized(count), "Equipment not found");
+    function requestEquipmentCountDecryption(
+        string memory equipmentId
+    ) public onlySubstationOperator(_substationOf(equipmentId)) {
+        CountReveal storage reveal = countReveals[equipmentId];
+        if (reveal.status == DecryptionStatus.Pending) {
+            require(block.timestamp >= reveal.requestedAt + COUNT_DECRYPTION_TIMEOUT, "Decryption already pending");
+            delete countRequestToEquipment[reveal.requestId];
+        }
 
         bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(count);
+        ciphertexts[0] = FHE.toBytes32(encryptedEquipmentCount[equipmentId]);
 
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptEquipmentCount.selector);
-        requestToDataId[reqId] = bytes32ToUint(keccak256(abi.encodePacked(equipmentId)));
+        countRequestToEquipment[reqId] = keccak256(bytes(equipmentId));
+
+        // Keep the last revealed count visible until the new one lands
+        reveal.requestId = reqId;
+        reveal.status = DecryptionStatus.Pending;
+        reveal.requestedAt = block.timestamp;
+
+        emit EquipmentCountRequested(equipmentId, reqId);
     }
 
     function decryptEquipmentCount(
@@ -132,45 +566,32 @@ contract FHEPowerMaintenance is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 equipmentHash = requestToDataId[requestId];
-        string memory equipmentId = getEquipmentFromHash(equipmentHash);
+        bytes32 equipmentHash = countRequestToEquipment[requestId];
+        require(equipmentHash != bytes32(0), "Invalid request");
+
+        string memory equipmentId = equipmentIdByHash[equipmentHash];
+        CountReveal storage reveal = countReveals[equipmentId];
+        require(reveal.requestId == requestId && reveal.status == DecryptionStatus.Pending, "Request not pending");
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         uint32 count = abi.decode(cleartexts, (uint32));
-        // Decrypted count can be stored or emitted
-    }
-
-    function bytes32ToUint(bytes32 b) private pure returns (uint256) {
-        return uint256(b);
-    }
+        reveal.count = count;
+        reveal.revealedAt = block.timestamp;
+        reveal.status = DecryptionStatus.Completed;
+        delete countRequestToEquipment[requestId];
 
-    function getEquipmentFromHash(uint256 hash) private view returns (string memory) {
-        for (uint i = 0; i < equipmentList.length; i++) {
-            if (bytes32ToUint(keccak256(abi.encodePacked(equipmentList[i]))) == hash) {
-                return equipmentList[i];
-            }
-        }
-        revert("Equipment not found");
+        emit EquipmentCountRevealed(equipmentId, requestId, count);
     }
 
-    function uint2str(uint256 _i) internal pure returns (string memory str) {
-        if (_i == 0) {
-            return "0";
-        }
-        uint256 j = _i;
-        uint256 length;
-        while (j != 0) {
-            length++;
-            j /= 10;
-        }
-        bytes memory bstr = new bytes(length);
-        uint256 k = length;
-        j = _i;
-        while (j != 0) {
-            bstr[--k] = bytes1(uint8(48 + j % 10));
-            j /= 10;
-        }
-        str = string(bstr);
+    function getEquipmentCountReveal(string memory equipmentId) public view returns (
+        DecryptionStatus status,
+        uint256 requestId,
+        uint32 count,
+        uint256 revealedAt,
+        uint256 requestedAt
+    ) {
+        CountReveal storage reveal = countReveals[equipmentId];
+        return (reveal.status, reveal.requestId, reveal.count, reveal.revealedAt, reveal.requestedAt);
     }
-}
\ No newline at end of file
+}
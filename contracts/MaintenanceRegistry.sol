@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Substation and equipment registry with role-based access.
+/// The owner appoints admins; admins register assets and grant per-substation
+/// operator and technician roles.
+abstract contract MaintenanceRegistry {
+
+    enum Role { None, Operator, Technician }
+
+    enum EquipmentKind { Transformer, Breaker, Line }
+
+    struct Substation {
+        string name;
+        string location;
+        bool registered;
+    }
+
+    struct Equipment {
+        string substationId;
+        string name;
+        EquipmentKind kind;
+        bool registered;
+    }
+
+    address public owner;
+    mapping(address => bool) private admins;
+
+    mapping(string => Substation) private substations;
+    string[] private substationList;
+
+    mapping(string => Equipment) internal equipment;
+    string[] internal equipmentList;
+
+    mapping(string => mapping(address => Role)) private substationRoles;
+    mapping(string => address[]) private substationMembers;
+    mapping(string => mapping(address => uint256)) private memberIndex;
+
+    event AdminUpdated(address indexed account, bool isAdmin);
+    event SubstationRegistered(string substationId, string name, string location);
+    event EquipmentRegistered(string equipmentId, string substationId, EquipmentKind kind);
+    event RoleGranted(string substationId, address indexed account, Role role, address indexed sender);
+    event RoleRevoked(string substationId, address indexed account, address indexed sender);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner");
+        _;
+    }
+
+    modifier onlyAdmin() {
+        require(isAdmin(msg.sender), "Only admin");
+        _;
+    }
+
+    modifier onlySubstationOperator(string memory substationId) {
+        require(hasRole(substationId, msg.sender, Role.Operator), "Only substation operator");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function isAdmin(address account) public view returns (bool) {
+        return account == owner || admins[account];
+    }
+
+    function setAdmin(address account, bool enabled) public onlyOwner {
+        require(account != address(0), "Invalid account");
+        admins[account] = enabled;
+        emit AdminUpdated(account, enabled);
+    }
+
+    function registerSubstation(
+        string calldata substationId,
+        string calldata name,
+        string calldata location
+    ) public onlyAdmin {
+        require(bytes(substationId).length > 0, "Invalid substation id");
+        require(!substations[substationId].registered, "Substation already registered");
+
+        substations[substationId] = Substation({ name: name, location: location, registered: true });
+        substationList.push(substationId);
+
+        emit SubstationRegistered(substationId, name, location);
+    }
+
+    function registerEquipment(
+        string calldata equipmentId,
+        string calldata substationId,
+        string calldata name,
+        EquipmentKind kind
+    ) public onlyAdmin {
+        require(bytes(equipmentId).length > 0, "Invalid equipment id");
+        require(substations[substationId].registered, "Substation not registered");
+        require(!equipment[equipmentId].registered, "Equipment already registered");
+
+        equipment[equipmentId] = Equipment({
+            substationId: substationId,
+            name: name,
+            kind: kind,
+            registered: true
+        });
+        equipmentList.push(equipmentId);
+
+        _afterEquipmentRegistered(equipmentId);
+
+        emit EquipmentRegistered(equipmentId, substationId, kind);
+    }
+
+    function grantRole(string calldata substationId, address account, Role role) public onlyAdmin {
+        require(substations[substationId].registered, "Substation not registered");
+        require(account != address(0), "Invalid account");
+        require(role != Role.None, "Invalid role");
+
+        if (substationRoles[substationId][account] == Role.None) {
+            substationMembers[substationId].push(account);
+            memberIndex[substationId][account] = substationMembers[substationId].length;
+        }
+        substationRoles[substationId][account] = role;
+
+        emit RoleGranted(substationId, account, role, msg.sender);
+    }
+
+    function revokeRole(string calldata substationId, address account) public onlyAdmin {
+        require(substationRoles[substationId][account] != Role.None, "Role not granted");
+
+        // Swap-and-pop keeps the member list dense
+        address[] storage members = substationMembers[substationId];
+        uint256 index = memberIndex[substationId][account] - 1;
+        address last = members[members.length - 1];
+        members[index] = last;
+        memberIndex[substationId][last] = index + 1;
+        members.pop();
+
+        delete memberIndex[substationId][account];
+        delete substationRoles[substationId][account];
+
+        emit RoleRevoked(substationId, account, msg.sender);
+    }
+
+    function getRole(string memory substationId, address account) public view returns (Role) {
+        return substationRoles[substationId][account];
+    }
+
+    function hasRole(string memory substationId, address account, Role role) public view returns (bool) {
+        return substationRoles[substationId][account] == role;
+    }
+
+    function getSubstation(string memory substationId) public view returns (
+        string memory name,
+        string memory location
+    ) {
+        Substation storage s = substations[substationId];
+        require(s.registered, "Substation not registered");
+        return (s.name, s.location);
+    }
+
+    function getSubstationIds() public view returns (string[] memory) {
+        return substationList;
+    }
+
+    function getSubstationMembers(string memory substationId) public view returns (
+        address[] memory accounts,
+        Role[] memory roles
+    ) {
+        accounts = substationMembers[substationId];
+        roles = new Role[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            roles[i] = substationRoles[substationId][accounts[i]];
+        }
+    }
+
+    function getEquipmentIds() public view returns (string[] memory) {
+        return equipmentList;
+    }
+
+    function _substationOf(string memory equipmentId) internal view returns (string memory) {
+        Equipment storage e = equipment[equipmentId];
+        require(e.registered, "Equipment not registered");
+        return e.substationId;
+    }
+
+    /// @dev Hook for inheriting contracts to initialise per-equipment state
+    function _afterEquipmentRegistered(string memory equipmentId) internal virtual {}
+}
@@ -0,0 +1,228 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Subset of FHEPowerMaintenance and its MaintenanceRegistry base the
+/// ticket contract relies on
+interface IMaintenanceRegistry {
+    function hasRole(string memory substationId, address account, uint8 role) external view returns (bool);
+    function getSubstation(string memory substationId) external view returns (string memory, string memory);
+    function getEquipment(string memory equipmentId) external view returns (
+        string memory substationId,
+        string memory name,
+        uint8 kind,
+        uint256 readingCount
+    );
+}
+
+/// @notice Maintenance tickets for registered substations. Roles come from the
+/// registry deployed with FHEPowerMaintenance: operators open, assign and cancel
+/// tickets, the assigned technician starts and completes the work.
+contract MaintenanceTickets {
+
+    // MaintenanceRegistry.Role values
+    uint8 private constant ROLE_OPERATOR = 1;
+    uint8 private constant ROLE_TECHNICIAN = 2;
+
+    enum Priority { Low, Medium, High }
+
+    enum TicketStatus { Pending, Assigned, InProgress, Completed, Cancelled }
+
+    struct Ticket {
+        uint256 id;
+        string substationId;
+        string equipmentId;
+        // FHEPowerMaintenance reading the ticket was raised from, 0 if opened by hand
+        uint256 dataId;
+        string issue;
+        Priority priority;
+        TicketStatus status;
+        address creator;
+        address assignee;
+        string resolution;
+        uint256 createdAt;
+        uint256 updatedAt;
+    }
+
+    struct WorkNote {
+        address author;
+        string text;
+        uint256 timestamp;
+    }
+
+    IMaintenanceRegistry public immutable registry;
+
+    uint256 public ticketCount;
+    mapping(uint256 => Ticket) private tickets;
+    mapping(uint256 => WorkNote[]) private workNotes;
+    mapping(string => uint256[]) private substationTickets;
+
+    event TicketCreated(
+        uint256 indexed id,
+        string substationId,
+        string equipmentId,
+        uint256 dataId,
+        Priority priority,
+        address indexed creator
+    );
+    event TicketAssigned(uint256 indexed id, address indexed technician, address indexed sender);
+    event TicketStarted(uint256 indexed id, address indexed technician);
+    event WorkNoteAdded(uint256 indexed id, address indexed author, string text);
+    event TicketCompleted(uint256 indexed id, address indexed technician, string resolution);
+    event TicketCancelled(uint256 indexed id, address indexed sender, string reason);
+
+    modifier ticketExists(uint256 ticketId) {
+        require(ticketId > 0 && ticketId <= ticketCount, "Ticket not found");
+        _;
+    }
+
+    modifier onlyTicketOperator(uint256 ticketId) {
+        require(_isOperator(tickets[ticketId].substationId, msg.sender), "Only substation operator");
+        _;
+    }
+
+    modifier onlyAssignee(uint256 ticketId) {
+        require(tickets[ticketId].assignee == msg.sender, "Only assigned technician");
+        _;
+    }
+
+    constructor(address registryAddress) {
+        require(registryAddress != address(0), "Invalid registry");
+        registry = IMaintenanceRegistry(registryAddress);
+    }
+
+    function createTicket(
+        string calldata substationId,
+        string calldata equipmentId,
+        uint256 dataId,
+        string calldata issue,
+        Priority priority
+    ) public returns (uint256) {
+        // Reverts with "Substation not registered" for unknown ids
+        registry.getSubstation(substationId);
+        require(_isOperator(substationId, msg.sender), "Only substation operator");
+        require(bytes(issue).length > 0, "Issue required");
+        // Equipment is optional; when given it must belong to the substation.
+        // Reverts with "Equipment not registered" for unknown ids
+        if (bytes(equipmentId).length > 0) {
+            (string memory equipmentSubstation, , , ) = registry.getEquipment(equipmentId);
+            require(
+                keccak256(bytes(equipmentSubstation)) == keccak256(bytes(substationId)),
+                "Equipment not in substation"
+            );
+        }
+
+        ticketCount++;
+        Ticket storage ticket = tickets[ticketCount];
+        ticket.id = ticketCount;
+        ticket.substationId = substationId;
+        ticket.equipmentId = equipmentId;
+        ticket.dataId = dataId;
+        ticket.issue = issue;
+        ticket.priority = priority;
+        ticket.creator = msg.sender;
+        ticket.createdAt = block.timestamp;
+        ticket.updatedAt = block.timestamp;
+
+        substationTickets[substationId].push(ticketCount);
+
+        emit TicketCreated(ticketCount, substationId, equipmentId, dataId, priority, msg.sender);
+        return ticketCount;
+    }
+
+    /// @notice Assigns or reassigns a ticket that has not been started yet
+    function assignTicket(uint256 ticketId, address technician)
+        public
+        ticketExists(ticketId)
+        onlyTicketOperator(ticketId)
+    {
+        Ticket storage ticket = tickets[ticketId];
+        require(
+            ticket.status == TicketStatus.Pending || ticket.status == TicketStatus.Assigned,
+            "Ticket not assignable"
+        );
+        require(registry.hasRole(ticket.substationId, technician, ROLE_TECHNICIAN), "Not a substation technician");
+
+        ticket.assignee = technician;
+        ticket.status = TicketStatus.Assigned;
+        ticket.updatedAt = block.timestamp;
+
+        emit TicketAssigned(ticketId, technician, msg.sender);
+    }
+
+    function startTicket(uint256 ticketId) public ticketExists(ticketId) onlyAssignee(ticketId) {
+        Ticket storage ticket = tickets[ticketId];
+        require(ticket.status == TicketStatus.Assigned, "Ticket not assigned");
+
+        ticket.status = TicketStatus.InProgress;
+        ticket.updatedAt = block.timestamp;
+
+        emit TicketStarted(ticketId, msg.sender);
+    }
+
+    function addWorkNote(uint256 ticketId, string calldata text) public ticketExists(ticketId) {
+        Ticket storage ticket = tickets[ticketId];
+        require(
+            ticket.assignee == msg.sender || _isOperator(ticket.substationId, msg.sender),
+            "Not a ticket participant"
+        );
+        require(!_isClosed(ticket), "Ticket closed");
+        require(bytes(text).length > 0, "Note required");
+
+        workNotes[ticketId].push(WorkNote({ author: msg.sender, text: text, timestamp: block.timestamp }));
+        ticket.updatedAt = block.timestamp;
+
+        emit WorkNoteAdded(ticketId, msg.sender, text);
+    }
+
+    function completeTicket(uint256 ticketId, string calldata resolution)
+        public
+        ticketExists(ticketId)
+        onlyAssignee(ticketId)
+    {
+        Ticket storage ticket = tickets[ticketId];
+        require(ticket.status == TicketStatus.InProgress, "Ticket not in progress");
+        require(bytes(resolution).length > 0, "Resolution required");
+
+        ticket.status = TicketStatus.Completed;
+        ticket.resolution = resolution;
+        ticket.updatedAt = block.timestamp;
+
+        emit TicketCompleted(ticketId, msg.sender, resolution);
+    }
+
+    function cancelTicket(uint256 ticketId, string calldata reason)
+        public
+        ticketExists(ticketId)
+        onlyTicketOperator(ticketId)
+    {
+        Ticket storage ticket = tickets[ticketId];
+        require(!_isClosed(ticket), "Ticket closed");
+        require(bytes(reason).length > 0, "Reason required");
+
+        ticket.status = TicketStatus.Cancelled;
+        ticket.resolution = reason;
+        ticket.updatedAt = block.timestamp;
+
+        emit TicketCancelled(ticketId, msg.sender, reason);
+    }
+
+    function getTicket(uint256 ticketId) public view ticketExists(ticketId) returns (Ticket memory) {
+        return tickets[ticketId];
+    }
+
+    function getWorkNotes(uint256 ticketId) public view ticketExists(ticketId) returns (WorkNote[] memory) {
+        return workNotes[ticketId];
+    }
+
+    function getSubstationTickets(string memory substationId) public view returns (uint256[] memory) {
+        return substationTickets[substationId];
+    }
+
+    function _isOperator(string memory substationId, address account) private view returns (bool) {
+        return registry.hasRole(substationId, account, ROLE_OPERATOR);
+    }
+
+    function _isClosed(Ticket storage ticket) private view returns (bool) {
+        return ticket.status == TicketStatus.Completed || ticket.status == TicketStatus.Cancelled;
+    }
+}
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Generic key/value store used by the dashboard for off-registry data.
+/// Collections hold individually addressable records so concurrent writers only
+/// conflict when they touch the same record.
+contract UniversalAdapter {
+
+    struct Record {
+        bytes value;
+        uint64 version;
+        bool exists;
+    }
+
+    mapping(string => bytes) private data;
+
+    mapping(string => mapping(string => Record)) private records;
+    mapping(string => string[]) private recordIds;
+    mapping(string => mapping(string => uint256)) private recordIndex;
+
+    event DataStored(address indexed sender, string key, bytes value);
+    event RecordStored(string collection, string id, uint64 version, bytes value, address indexed sender);
+    event RecordDeleted(string collection, string id, uint64 version, address indexed sender);
+
+    function isAvailable() public pure returns (bool) {
+        return true;
+    }
+
+    function setData(string calldata key, bytes calldata value) public {
+        data[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function getData(string calldata key) public view returns (bytes memory) {
+        return data[key];
+    }
+
+    /// @notice Adds a new record. Versions keep counting across delete and
+    /// re-append, so a stale writer can never match a recreated record.
+    function appendRecord(string calldata collection, string calldata id, bytes calldata value) public {
+        require(bytes(id).length > 0, "Invalid record id");
+        Record storage record = records[collection][id];
+        require(!record.exists, "Record already exists");
+
+        record.value = value;
+        record.version += 1;
+        record.exists = true;
+
+        recordIds[collection].push(id);
+        recordIndex[collection][id] = recordIds[collection].length;
+
+        emit RecordStored(collection, id, record.version, value, msg.sender);
+    }
+
+    /// @notice Replaces a record if nobody else changed it since `expectedVersion` was read
+    function updateRecord(
+        string calldata collection,
+        string calldata id,
+        bytes calldata value,
+        uint64 expectedVersion
+    ) public {
+        Record storage record = records[collection][id];
+        require(record.exists, "Record not found");
+        require(record.version == expectedVersion, "Stale record version");
+
+        record.value = value;
+        record.version += 1;
+
+        emit RecordStored(collection, id, record.version, value, msg.sender);
+    }
+
+    function deleteRecord(string calldata collection, string calldata id, uint64 expectedVersion) public {
+        Record storage record = records[collection][id];
+        require(record.exists, "Record not found");
+        require(record.version == expectedVersion, "Stale record version");
+
+        // Swap-and-pop keeps the id list dense
+        string[] storage ids = recordIds[collection];
+        uint256 index = recordIndex[collection][id] - 1;
+        string memory last = ids[ids.length - 1];
+        ids[index] = last;
+        recordIndex[collection][last] = index + 1;
+        ids.pop();
+        delete recordIndex[collection][id];
+
+        delete record.value;
+        record.version += 1;
+        record.exists = false;
+
+        emit RecordDeleted(collection, id, record.version, msg.sender);
+    }
+
+    function getRecord(string calldata collection, string calldata id) public view returns (
+        bytes memory value,
+        uint64 version
+    ) {
+        Record storage record = records[collection][id];
+        require(record.exists, "Record not found");
+        return (record.value, record.version);
+    }
+
+    function getRecordIds(string calldata collection) public view returns (string[] memory) {
+        return recordIds[collection];
+    }
+
+    function getRecords(string calldata collection) public view returns (
+        string[] memory ids,
+        bytes[] memory values,
+        uint64[] memory versions
+    ) {
+        ids = recordIds[collection];
+        values = new bytes[](ids.length);
+        versions = new uint64[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            Record storage record = records[collection][ids[i]];
+            values[i] = record.value;
+            versions[i] = record.version;
+        }
+    }
+}
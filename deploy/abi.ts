@@ -0,0 +1,132 @@
+// deploy/abi.ts
+import fs from "fs";
+import path from "path";
+import { artifacts, ethers } from "hardhat";
+import type { JsonFragment, Provider } from "ethers";
+
+import { ChainDeployment, DEPLOYED_CONTRACTS } from "../frontend/web/src/deployment";
+
+// frontend/web/src/abi holds one ABI-only JSON file per contract the frontend
+// talks to. Before writing them, every contract in the deployment bundle is
+// checked against the chain: the compiled runtime bytecode has to match the
+// code at the deployed address and the bundled ABI has to match the compiled
+// one. Any mismatch fails the whole sync, nothing is written.
+
+export const ABI_DIR = path.join(__dirname, "..", "frontend", "web", "src", "abi");
+
+export interface SyncOptions {
+  provider?: Provider;
+  dir?: string;
+  // Only compare the files on disk against the expected ABIs
+  check?: boolean;
+}
+
+interface RuntimeCode {
+  bytecode: string;
+  // Byte ranges filled in by the constructor, zeroed in the artifact
+  immutables: { start: number; length: number }[];
+}
+
+// Drops the CBOR metadata solc appends, whose last two bytes are its length.
+// It hashes the sources, so comment-only edits would otherwise count as drift.
+export function stripMetadata(bytecode: string) {
+  const hex = bytecode.replace(/^0x/, "");
+  if (hex.length < 4) return hex;
+  const length = parseInt(hex.slice(-4), 16);
+  const end = hex.length - 4 - length * 2;
+  return end >= 0 ? hex.slice(0, end) : hex;
+}
+
+async function runtimeCode(name: string): Promise<RuntimeCode> {
+  const artifact = await artifacts.readArtifact(name);
+  const fqn = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await artifacts.getBuildInfo(fqn);
+  const references =
+    buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName]?.evm.deployedBytecode
+      .immutableReferences ?? {};
+  return { bytecode: artifact.deployedBytecode, immutables: Object.values(references).flat() };
+}
+
+function maskImmutables(bytecode: string, immutables: RuntimeCode["immutables"]) {
+  let hex = bytecode.replace(/^0x/, "");
+  for (const { start, length } of immutables) {
+    hex = hex.slice(0, start * 2) + "0".repeat(length * 2) + hex.slice((start + length) * 2);
+  }
+  return hex;
+}
+
+export function abiFile(name: string, dir = ABI_DIR) {
+  return path.join(dir, `${name}.json`);
+}
+
+export function formatAbi(abi: readonly JsonFragment[]) {
+  return JSON.stringify(abi, null, 2) + "\n";
+}
+
+// Every mismatch between the chain, the bundle and the compiled contracts
+export async function findDrift(deployment: ChainDeployment, provider: Provider = ethers.provider) {
+  const problems: string[] = [];
+  for (const name of DEPLOYED_CONTRACTS) {
+    const deployed = deployment.contracts[name];
+    if (!deployed) {
+      problems.push(`${name}: not in the deployment bundle for chain ${deployment.chainId}`);
+      continue;
+    }
+
+    const code = await provider.getCode(deployed.address);
+    if (code === "0x") {
+      problems.push(`${name}: no code at ${deployed.address}`);
+      continue;
+    }
+    const { bytecode, immutables } = await runtimeCode(name);
+    if (stripMetadata(maskImmutables(code, immutables)) !== stripMetadata(bytecode)) {
+      problems.push(`${name}: code at ${deployed.address} does not match the compiled contract`);
+    }
+
+    const { abi } = await artifacts.readArtifact(name);
+    if (JSON.stringify(deployed.abi) !== JSON.stringify(abi)) {
+      problems.push(`${name}: ABI in the deployment bundle differs from the compiled ABI`);
+    }
+  }
+  return problems;
+}
+
+// Validates `deployment` against the chain and writes (or with `check`,
+// verifies) the ABI files. Files of contracts the frontend no longer uses are
+// removed, or reported in check mode.
+export async function syncAbis(deployment: ChainDeployment, options: SyncOptions = {}) {
+  const dir = options.dir ?? ABI_DIR;
+  const problems = await findDrift(deployment, options.provider);
+
+  const expected = new Map<string, string>();
+  for (const name of DEPLOYED_CONTRACTS) {
+    expected.set(path.basename(abiFile(name, dir)), formatAbi((await artifacts.readArtifact(name)).abi));
+  }
+  const stale = fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter((file) => file.endsWith(".json") && !expected.has(file))
+    : [];
+
+  if (options.check) {
+    for (const [file, content] of expected) {
+      const current = path.join(dir, file);
+      if (!fs.existsSync(current) || fs.readFileSync(current, "utf8") !== content) {
+        problems.push(`${file}: out of date, run the ABI sync`);
+      }
+    }
+    problems.push(...stale.map((file) => `${file}: not a deployed contract, remove it`));
+  }
+
+  if (problems.length) {
+    throw new Error(`ABI drift on chain ${deployment.chainId}:\n  ${problems.join("\n  ")}`);
+  }
+  if (options.check) return [...expected.keys()];
+
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [file, content] of expected) {
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+  for (const file of stale) {
+    fs.rmSync(path.join(dir, file));
+  }
+  return [...expected.keys()];
+}
@@ -0,0 +1,89 @@
+// deploy/bundle.ts
+import { execSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import type { JsonFragment } from "ethers";
+import { config } from "hardhat";
+
+import {
+  BUNDLE_VERSION,
+  ChainDeployment,
+  DeployedContract,
+  DeploymentBundle,
+} from "../frontend/web/src/deployment";
+import { DeploymentManifest, deploymentStartBlock } from "./deployments";
+
+// Turns a deployment manifest into the bundle the frontend reads. The output
+// only depends on the manifest, the compiled ABIs and the git commit, so
+// re-exporting an unchanged deployment leaves the file byte-for-byte the same.
+
+const ROOT = path.join(__dirname, "..");
+export const BUNDLE_PATH = path.join(ROOT, "frontend", "web", "src", "deployments.json");
+const FRONTEND_CONFIG_PATH = path.join(ROOT, "frontend", "web", "src", "config.json");
+
+// HEAD, suffixed with -dirty when contracts/ has uncommitted changes
+export function gitCommit(cwd = ROOT) {
+  try {
+    const commit = execSync("git rev-parse HEAD", { cwd, encoding: "utf8" }).trim();
+    const dirty = execSync("git status --porcelain -- contracts", { cwd, encoding: "utf8" }).trim();
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return "unknown";
+  }
+}
+
+export function readAbi(name: string, artifactsDir = config.paths.artifacts): JsonFragment[] {
+  const file = path.join(artifactsDir, "contracts", `${name}.sol`, `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8")).abi;
+}
+
+export function buildChainDeployment(
+  manifest: DeploymentManifest,
+  commit: string,
+  loadAbi: (name: string) => JsonFragment[] = (name) => readAbi(name)
+): ChainDeployment {
+  const contracts: Record<string, DeployedContract> = {};
+  for (const name of Object.keys(manifest.contracts).sort()) {
+    const record = manifest.contracts[name];
+    contracts[name] = { address: record.address, deployBlock: record.blockNumber, abi: loadAbi(name) };
+  }
+  return {
+    chainId: manifest.chainId,
+    network: manifest.network,
+    gitCommit: commit,
+    deployBlock: deploymentStartBlock(manifest),
+    contracts,
+  };
+}
+
+// Replaces this chain's entry and keeps every other chain. A bundle with an
+// older version is dropped entirely since the frontend would reject it anyway.
+export function writeBundle(deployment: ChainDeployment, file = BUNDLE_PATH): DeploymentBundle {
+  let bundle: DeploymentBundle = { version: BUNDLE_VERSION, chains: {} };
+  if (fs.existsSync(file)) {
+    const previous: DeploymentBundle = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (previous.version === BUNDLE_VERSION) bundle = previous;
+  }
+
+  const chains: Record<string, ChainDeployment> = { ...bundle.chains, [deployment.chainId]: deployment };
+  bundle = {
+    version: BUNDLE_VERSION,
+    chains: Object.fromEntries(Object.keys(chains).sort((a, b) => Number(a) - Number(b)).map((id) => [id, chains[id]])),
+  };
+  fs.writeFileSync(file, JSON.stringify(bundle, null, 2) + "\n");
+  return bundle;
+}
+
+// Points config.json at the network profile for `chainId`, adding a custom
+// profile when no configured one matches
+export function selectFrontendNetwork(chainId: number, rpcUrl?: string, file = FRONTEND_CONFIG_PATH) {
+  const config = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+  const networks = { ...config.networks };
+  let profile = Object.keys(networks).find((id) => networks[id].chainId === chainId);
+  if (!profile) {
+    profile = "custom";
+    networks.custom = { name: "Custom", chainId, rpcUrls: rpcUrl ? [rpcUrl] : [] };
+  }
+  fs.writeFileSync(file, JSON.stringify({ ...config, network: profile, networks }, null, 2) + "\n");
+  return profile;
+}
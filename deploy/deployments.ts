@@ -0,0 +1,133 @@
+// deploy/deployments.ts
+import fs from "fs";
+import path from "path";
+import { ethers } from "hardhat";
+import type { Signer } from "ethers";
+
+import type { Verification } from "./verify";
+
+// Deployments are recorded per chain in deployments/<chainId>.json. A contract
+// is only redeployed when its bytecode or constructor arguments changed, or
+// when the recorded address no longer has code (e.g. a restarted local node).
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export interface DeploymentRecord {
+  address: string;
+  // keccak256 of the creation bytecode, without constructor arguments
+  bytecodeHash: string;
+  args: string[];
+  deployer: string;
+  transactionHash: string;
+  blockNumber: number;
+  deployedAt: string;
+  // Explorer verification, absent until deploy runs with verification enabled
+  verification?: Verification;
+}
+
+export interface DeploymentManifest {
+  chainId: number;
+  network: string;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+export interface DeployOptions {
+  signer: Signer;
+  network: string;
+  dir?: string;
+  // Redeploy even when the recorded deployment is up to date
+  force?: boolean;
+  log?: (message: string) => void;
+}
+
+export function manifestPath(chainId: number, dir = DEPLOYMENTS_DIR) {
+  return path.join(dir, `${chainId}.json`);
+}
+
+export function loadManifest(chainId: number, network: string, dir = DEPLOYMENTS_DIR): DeploymentManifest {
+  const file = manifestPath(chainId, dir);
+  if (!fs.existsSync(file)) {
+    return { chainId, network, contracts: {} };
+  }
+  const manifest: DeploymentManifest = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (manifest.chainId !== chainId) {
+    throw new Error(`${file} records chain ${manifest.chainId}, expected ${chainId}`);
+  }
+  return manifest;
+}
+
+export function saveManifest(manifest: DeploymentManifest, dir = DEPLOYMENTS_DIR) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(manifestPath(manifest.chainId, dir), JSON.stringify(manifest, null, 2) + "\n");
+}
+
+async function isUpToDate(record: DeploymentRecord | undefined, bytecodeHash: string, args: string[]) {
+  if (!record || record.bytecodeHash !== bytecodeHash) return false;
+  if (JSON.stringify(record.args) !== JSON.stringify(args)) return false;
+  return (await ethers.provider.getCode(record.address)) !== "0x";
+}
+
+// Deploys `name` unless the manifest already holds an identical deployment.
+// The manifest is updated in place; the caller saves it.
+export async function deployContract(
+  manifest: DeploymentManifest,
+  name: string,
+  args: string[],
+  options: DeployOptions
+): Promise<{ record: DeploymentRecord; deployed: boolean }> {
+  const log = options.log ?? console.log;
+  const factory = await ethers.getContractFactory(name, options.signer);
+  const bytecodeHash = ethers.keccak256(factory.bytecode);
+
+  const existing = manifest.contracts[name];
+  if (!options.force && (await isUpToDate(existing, bytecodeHash, args))) {
+    log(`${name}: unchanged, reusing ${existing.address}`);
+    return { record: existing, deployed: false };
+  }
+
+  const contract = await factory.deploy(...args);
+  const receipt = await contract.deploymentTransaction()!.wait();
+  if (!receipt) {
+    throw new Error(`${name} deployment was not mined`);
+  }
+
+  const record: DeploymentRecord = {
+    address: await contract.getAddress(),
+    bytecodeHash,
+    args,
+    deployer: await options.signer.getAddress(),
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    deployedAt: new Date().toISOString(),
+  };
+  manifest.contracts[name] = record;
+  log(`${name}: deployed at ${record.address} (block ${record.blockNumber})`);
+  return { record, deployed: true };
+}
+
+// Deploys everything the frontend talks to, in dependency order. The manifest is
+// saved after each contract, so a failed run keeps what it already deployed.
+export async function deployAll(options: DeployOptions): Promise<DeploymentManifest> {
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const manifest = loadManifest(chainId, options.network, options.dir);
+  manifest.network = options.network;
+
+  const deploy = async (name: string, args: string[]) => {
+    const result = await deployContract(manifest, name, args, options);
+    saveManifest(manifest, options.dir);
+    return result;
+  };
+
+  await deploy("UniversalAdapter", []);
+  const maintenance = await deploy("FHEPowerMaintenance", []);
+  // Tickets check roles against FHEPowerMaintenance, so they follow its address
+  await deploy("MaintenanceTickets", [maintenance.record.address]);
+
+  return manifest;
+}
+
+// First block the indexer has to scan
+export function deploymentStartBlock(manifest: DeploymentManifest) {
+  const blocks = Object.values(manifest.contracts).map((record) => record.blockNumber);
+  return blocks.length > 0 ? Math.min(...blocks) : 0;
+}
@@ -0,0 +1,92 @@
+// deploy/verify.ts
+import { artifacts, run } from "hardhat";
+
+import { DeploymentManifest, saveManifest } from "./deployments";
+
+// Source verification for the contracts in a deployment manifest. Explorers
+// usually reject a verification until they have indexed the contract, so each
+// submission is retried with a growing delay. The outcome is stored on the
+// manifest record and a verified contract is not submitted again until it is
+// redeployed (which replaces its record).
+
+export interface Verification {
+  status: "verified" | "failed";
+  attempts: number;
+  updatedAt: string;
+  error?: string;
+}
+
+// Submits one contract's sources; throws when the explorer refuses
+export interface Explorer {
+  verify(name: string, address: string, args: string[]): Promise<void>;
+}
+
+export interface VerifyOptions {
+  explorer?: Explorer;
+  dir?: string;
+  attempts?: number;
+  // Delay before the first retry, doubled after every further failure
+  delayMs?: number;
+  log?: (message: string) => void;
+}
+
+// Explorer backed by hardhat-verify, using the network's etherscan config
+export const hardhatExplorer: Explorer = {
+  async verify(name, address, args) {
+    const artifact = await artifacts.readArtifact(name);
+    await run("verify:verify", {
+      address,
+      constructorArguments: args,
+      contract: `${artifact.sourceName}:${artifact.contractName}`,
+    });
+  },
+};
+
+async function submit(explorer: Explorer, name: string, address: string, args: string[], options: VerifyOptions) {
+  const attempts = options.attempts ?? 5;
+  const log = options.log ?? console.log;
+  let delay = options.delayMs ?? 10_000;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await explorer.verify(name, address, args);
+      return { attempts: attempt };
+    } catch (e) {
+      const error = (e as Error).message ?? String(e);
+      if (attempt >= attempts) return { attempts: attempt, error };
+      log(`${name}: verification attempt ${attempt}/${attempts} failed (${error}), retrying in ${delay / 1000}s`);
+      await new Promise((res) => setTimeout(res, delay));
+      delay *= 2;
+    }
+  }
+}
+
+// Verifies every contract in `manifest` that is not verified yet and saves the
+// manifest. Failures are recorded, not thrown; the caller decides what to do.
+export async function verifyDeployments(manifest: DeploymentManifest, options: VerifyOptions = {}) {
+  const explorer = options.explorer ?? hardhatExplorer;
+  const log = options.log ?? console.log;
+  const failed: string[] = [];
+
+  for (const [name, record] of Object.entries(manifest.contracts)) {
+    if (record.verification?.status === "verified") {
+      log(`${name}: already verified`);
+      continue;
+    }
+    const result = await submit(explorer, name, record.address, record.args, options);
+    record.verification = {
+      status: result.error ? "failed" : "verified",
+      attempts: result.attempts,
+      updatedAt: new Date().toISOString(),
+      ...(result.error && { error: result.error }),
+    };
+    if (result.error) {
+      failed.push(name);
+      log(`${name}: verification failed after ${result.attempts} attempts: ${result.error}`);
+    } else {
+      log(`${name}: verified at ${record.address}`);
+    }
+  }
+
+  saveManifest(manifest, options.dir);
+  return failed;
+}
@@ -1,36 +1,105 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  decryptAlarmLevels,
+  getMaintenanceContractReadOnly,
+  getMaintenanceContractWithSigner,
+  getDataCount,
+  getEquipmentReadingIds,
+  getLatestPrediction,
+  getPrediction,
+  listEncryptedReadings,
+  listEquipment,
+  registerEquipment,
+  requestPrediction,
+  statusFromPrediction,
+  submitEncryptedChannelReadings,
+  AlarmLevel,
+  ALARM_LEVELS,
+  Equipment,
+  EquipmentKind,
+  HealthStatus,
+  Prediction,
+  EQUIPMENT_KINDS
+} from "./maintenance";
+import {
+  createTicket,
+  getTicketsContractReadOnly,
+  getTicketsContractWithSigner,
+  listTickets,
+  MaintenanceTicket,
+  TicketPriority,
+  TICKET_PRIORITIES
+} from "./tickets";
+import { draftTickets, TicketDraft } from "./ticketRules";
+import { createPredictionTracker, PredictionTracker, TrackedRequest } from "./predictionTracker";
+import { createReadingQueue, ReadingQueue } from "./readingQueue";
+import { listSubstations, registerSubstation } from "./registry";
+import {
+  BUILTIN_CHANNELS,
+  ChannelValues,
+  channelDecimals,
+  listChannels,
+  maxBatchReadings,
+  RUL_CHANNELS,
+  SensorChannel
+} from "./channels";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import AdminPanel from "./components/AdminPanel";
+import EquipmentCountsPanel from "./components/EquipmentCountsPanel";
+import AlarmThresholdsPanel from "./components/AlarmThresholdsPanel";
+import PredictionRequestsPanel from "./components/PredictionRequestsPanel";
+import TicketsPanel from "./components/TicketsPanel";
+import TicketDraftsPanel from "./components/TicketDraftsPanel";
+import HistoryPanel from "./components/HistoryPanel";
+import IndexerPanel from "./components/IndexerPanel";
+import NetworkIndicator from "./components/NetworkIndicator";
 import "./App.css";
 
-// Define types for our data structures
+// Define types for our data structures. Substation and equipment ids are the
+// identifiers used by FHEPowerMaintenance, so readings aggregate per asset.
 interface Substation {
   id: string;
   name: string;
   location: string;
-  status: "normal" | "warning" | "critical";
+  status: HealthStatus;
 }
 
+// An encrypted reading as listed from FHEPowerMaintenance; only the channel ids
+// are public, the values stay ciphertext handles
 interface SensorData {
-  id: string;
   substationId: string;
-  temperature: number;
-  vibration: number;
+  equipmentId: string;
+  channels: string[];
   timestamp: number;
-  encrypted: boolean;
+  dataId: number;
 }
 
-interface MaintenanceTicket {
-  id: string;
-  substationId: string;
-  issue: string;
-  priority: "low" | "medium" | "high";
-  status: "pending" | "in-progress" | "completed";
-  created: number;
-}
+// How long to wait for the decryption oracle before flagging a request
+const PREDICTION_TIMEOUT = 300000;
+
+// Readings submitted within this window share a transaction; a failed batch is
+// sent again after the retry delay
+const READING_QUEUE_WAIT = 2000;
+const READING_RETRY_DELAY = 30000;
+
+const isUserRejection = (e: Error) => !!e.message?.includes("user rejected transaction");
+
+const HEALTH_SEVERITY: HealthStatus[] = ["no-prediction", "normal", "warning", "critical"];
+
+// Alarm chart buckets: the decrypted levels, readings of assets without
+// thresholds, and readings whose level has not been decrypted yet
+const ALARM_BUCKETS = [...ALARM_LEVELS, "unset", "encrypted"] as const;
+type AlarmBucket = typeof ALARM_BUCKETS[number];
+const ALARM_BUCKET_LABELS: Record<AlarmBucket, string> = {
+  normal: "Normal",
+  warning: "Warning",
+  critical: "Critical",
+  unset: "No thresholds",
+  encrypted: "Encrypted"
+};
 
 const App: React.FC = () => {
   // Wallet and connection states
@@ -42,11 +111,27 @@ const App: React.FC = () => {
   const [substations, setSubstations] = useState<Substation[]>([]);
   const [sensorData, setSensorData] = useState<SensorData[]>([]);
   const [tickets, setTickets] = useState<MaintenanceTicket[]>([]);
+  const [dismissedDrafts, setDismissedDrafts] = useState<number[]>([]);
+  const [historySubstationId, setHistorySubstationId] = useState("");
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [predictions, setPredictions] = useState<Record<string, Prediction>>({});
+  const [predictionRequests, setPredictionRequests] = useState<TrackedRequest[]>([]);
+  const [channels, setChannels] = useState<SensorChannel[]>(BUILTIN_CHANNELS);
+  // Decrypted per reading; null when the asset had no thresholds at submission
+  const [alarmLevels, setAlarmLevels] = useState<Record<number, AlarmLevel | null>>({});
+  const [decryptingAlarms, setDecryptingAlarms] = useState(false);
+  const trackerRef = useRef<PredictionTracker | null>(null);
+  const readingQueueRef = useRef<ReadingQueue | null>(null);
+  // The reading queue outlives renders, so it reads the registry through a ref
+  const channelsRef = useRef(channels);
+  channelsRef.current = channels;
   
   // UI states
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddSubstation, setShowAddSubstation] = useState(false);
   const [showAddTicket, setShowAddTicket] = useState(false);
+  const [showSubmitReading, setShowSubmitReading] = useState(false);
+  const [showAddEquipment, setShowAddEquipment] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
@@ -61,20 +146,102 @@ const App: React.FC = () => {
   });
   const [newTicket, setNewTicket] = useState({
     substationId: "",
+    equipmentId: "",
     issue: "",
-    priority: "medium" as "low" | "medium" | "high"
+    priority: "medium" as TicketPriority
+  });
+  const [newEquipment, setNewEquipment] = useState({
+    substationId: "",
+    name: "",
+    kind: "transformer" as EquipmentKind
+  });
+  const [newReading, setNewReading] = useState<{ equipmentId: string; values: Record<string, string> }>({
+    equipmentId: "",
+    values: {}
   });
 
   // Statistics states
   const [criticalSubstations, setCriticalSubstations] = useState(0);
   const [pendingTickets, setPendingTickets] = useState(0);
-  const [avgTemperature, setAvgTemperature] = useState(0);
+  const [encryptedReadings, setEncryptedReadings] = useState(0);
 
   // Load initial data
   useEffect(() => {
     loadData().finally(() => setLoading(false));
   }, []);
 
+  // Watch decryption requests for the lifetime of the page
+  useEffect(() => {
+    let stopped = false;
+    getMaintenanceContractReadOnly().then(contract => {
+      if (!contract || stopped) return;
+      trackerRef.current = createPredictionTracker(contract, {
+        timeout: PREDICTION_TIMEOUT,
+        onChange: setPredictionRequests,
+        onProcessed: prediction => setPredictions(prev => {
+          const current = prev[prediction.equipmentId];
+          return current && current.dataId > prediction.dataId
+            ? prev
+            : { ...prev, [prediction.equipmentId]: prediction };
+        })
+      });
+    });
+    return () => {
+      stopped = true;
+      trackerRef.current?.stop();
+      trackerRef.current = null;
+    };
+  }, []);
+
+  // Submit readings through a queue, so a submission that fails (e.g. while
+  // offline) is retried instead of lost
+  useEffect(() => {
+    const queue = createReadingQueue({
+      maxWait: READING_QUEUE_WAIT,
+      retryDelay: READING_RETRY_DELAY,
+      batchLimit: ids => maxBatchReadings(channelsRef.current.filter(c => ids.includes(c.id))),
+      // A rejected reading is dropped; the user declined to send it
+      isRetryable: error => !isUserRejection(error),
+      submit: async readings => {
+        const contract = await getMaintenanceContractWithSigner();
+        const user = await (contract.runner as ethers.Signer).getAddress();
+        const readingChannels = channelsRef.current.filter(c => readings[0].values[c.id] !== undefined);
+        return submitEncryptedChannelReadings(contract, user, readingChannels, readings);
+      },
+      onError: (error, readings) => {
+        if (isUserRejection(error)) return;
+        setTransactionStatus({
+          visible: true,
+          status: "error",
+          message: `Submission failed, retrying ${readings.length} reading(s) in ${READING_RETRY_DELAY / 1000}s: ${error.message}`
+        });
+        setTimeout(() => {
+          setTransactionStatus({ visible: false, status: "pending", message: "" });
+        }, 3000);
+      }
+    });
+    readingQueueRef.current = queue;
+    return () => {
+      readingQueueRef.current = null;
+      queue.stop();
+    };
+  }, []);
+
+  // A substation is as unhealthy as its worst asset's latest prediction, and has
+  // no status until at least one of its assets has been predicted
+  useEffect(() => {
+    setSubstations(prev => {
+      const updated = prev.map(sub => {
+        const statuses = equipment
+          .filter(e => e.substationId === sub.id)
+          .map(e => HEALTH_SEVERITY.indexOf(statusFromPrediction(e.kind, predictions[e.id])));
+        return { ...sub, status: HEALTH_SEVERITY[Math.max(0, ...statuses)] };
+      });
+      setCriticalSubstations(updated.filter(s => s.status === "critical").length);
+      return updated;
+    });
+  }, [predictions, equipment]);
+
   // Wallet connection handlers
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
@@ -100,55 +267,49 @@ const App: React.FC = () => {
     setProvider(null);
   };
 
-  // Load all data from contract
+  // Load the registry and tickets, each from its own contract
   const loadData = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      // Load substations
-      const substationsBytes = await contract.getData("substations");
+      // Load substations, equipment, latest predictions and encrypted readings
+      // from the on-chain registry
+      const maintenance = await getMaintenanceContractReadOnly();
       let substationsList: Substation[] = [];
-      if (substationsBytes.length > 0) {
-        try {
-          substationsList = JSON.parse(ethers.toUtf8String(substationsBytes));
-        } catch (e) {
-          console.error("Error parsing substations:", e);
-        }
-      }
-      setSubstations(substationsList);
-      
-      // Load sensor data
-      const sensorBytes = await contract.getData("sensor_data");
       let sensorList: SensorData[] = [];
-      if (sensorBytes.length > 0) {
-        try {
-          sensorList = JSON.parse(ethers.toUtf8String(sensorBytes));
-        } catch (e) {
-          console.error("Error parsing sensor data:", e);
-        }
+      if (maintenance) {
+        const registered = await listSubstations(maintenance);
+        substationsList = registered.map(sub => ({ ...sub, status: "no-prediction" as const }));
+        const assets = await listEquipment(maintenance);
+        const latest = await Promise.all(assets.map(asset => getLatestPrediction(maintenance, asset.id)));
+        setPredictions(prev => {
+          const merged = { ...prev };
+          for (const prediction of latest) {
+            const current = prediction && merged[prediction.equipmentId];
+            if (prediction && (!current || current.dataId < prediction.dataId)) {
+              merged[prediction.equipmentId] = prediction;
+            }
+          }
+          return merged;
+        });
+        setEquipment(assets);
+        setChannels(await listChannels(maintenance));
+        setEncryptedReadings(await getDataCount(maintenance));
+        
+        // Newest first
+        const readings = await listEncryptedReadings(maintenance);
+        sensorList = readings.reverse().map(reading => ({
+          substationId: assets.find(a => a.id === reading.equipmentId)?.substationId || "",
+          equipmentId: reading.equipmentId,
+          channels: Object.keys(reading.channels),
+          timestamp: reading.timestamp,
+          dataId: reading.id
+        }));
       }
+      setSubstations(substationsList);
       setSensorData(sensorList);
       
-      // Load maintenance tickets
-      const ticketsBytes = await contract.getData("maintenance_tickets");
-      let ticketsList: MaintenanceTicket[] = [];
-      if (ticketsBytes.length > 0) {
-        try {
-          ticketsList = JSON.parse(ethers.toUtf8String(ticketsBytes));
-        } catch (e) {
-          console.error("Error parsing tickets:", e);
-        }
-      }
-      setTickets(ticketsList);
+      // Load maintenance tickets from MaintenanceTickets
+      const ticketsList = await loadTickets();
       
       // Calculate statistics
       calculateStatistics(substationsList, sensorList, ticketsList);
@@ -161,6 +322,14 @@ const App: React.FC = () => {
     }
   };
 
+  const loadTickets = async () => {
+    const ticketsContract = await getTicketsContractReadOnly();
+    const ticketsList = ticketsContract ? await listTickets(ticketsContract) : [];
+    setTickets(ticketsList);
+    setPendingTickets(ticketsList.filter(t => t.status === "pending").length);
+    return ticketsList;
+  };
+
   // Calculate statistics for dashboard
   const calculateStatistics = (
     substations: Substation[],
@@ -174,12 +343,6 @@ const App: React.FC = () => {
     // Count pending tickets
     const pendingCount = tickets.filter(t => t.status === "pending").length;
     setPendingTickets(pendingCount);
-    
-    // Calculate average temperature
-    if (sensorData.length > 0) {
-      const totalTemp = sensorData.reduce((sum, data) => sum + data.temperature, 0);
-      setAvgTemperature(totalTemp / sensorData.length);
-    }
   };
 
   // Add new substation
@@ -197,30 +360,24 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Adding new substation with FHE encryption..."
+      message: "Registering new substation..."
     });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      const contract = await getMaintenanceContractWithSigner();
       
       const newId = `sub-${Date.now()}`;
       const newSub: Substation = {
         id: newId,
         name: newSubstation.name,
         location: newSubstation.location,
-        status: "normal"
+        status: "no-prediction"
       };
       
-      const updatedSubstations = [...substations, newSub];
+      // Only registry admins may register substations
+      await registerSubstation(contract, newSub);
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        "substations", 
-        ethers.toUtf8Bytes(JSON.stringify(updatedSubstations))
-      );
+      const updatedSubstations = [...substations, newSub];
       
       setTransactionStatus({
         visible: true,
@@ -272,42 +429,87 @@ const App: React.FC = () => {
     });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      // Only operators of the substation may open tickets
+      const contract = await getTicketsContractWithSigner();
+      const ticketId = await createTicket(
+        contract,
+        newTicket.substationId,
+        newTicket.equipmentId,
+        newTicket.issue,
+        newTicket.priority
+      );
       
-      const newId = `ticket-${Date.now()}`;
-      const newTicketItem: MaintenanceTicket = {
-        id: newId,
-        substationId: newTicket.substationId,
-        issue: newTicket.issue,
-        priority: newTicket.priority,
-        status: "pending",
-        created: Date.now()
-      };
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `Maintenance ticket #${ticketId} created!`
+      });
       
-      const updatedTickets = [...tickets, newTicketItem];
+      await loadTickets();
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        "maintenance_tickets", 
-        ethers.toUtf8Bytes(JSON.stringify(updatedTickets))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setShowAddTicket(false);
+        setNewTicket({ substationId: "", equipmentId: "", issue: "", priority: "medium" });
+      }, 2000);
+    } catch (e: any) {
+      const errorMessage = e.message.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Submission failed: " + (e.reason || e.message || "Unknown error");
+      
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: errorMessage
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Register a piece of equipment against a substation on-chain
+  const addEquipment = async () => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    if (!newEquipment.substationId || !newEquipment.name) {
+      alert("Please fill all fields");
+      return;
+    }
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Registering equipment..."
+    });
+    
+    try {
+      const contract = await getMaintenanceContractWithSigner();
+      const newItem: Equipment = {
+        id: `eq-${Date.now()}`,
+        substationId: newEquipment.substationId,
+        name: newEquipment.name,
+        kind: newEquipment.kind,
+        readingCount: 0
+      };
+      await registerEquipment(contract, newItem);
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Maintenance ticket created!"
+        message: "Equipment registered successfully!"
       });
       
-      setTickets(updatedTickets);
-      calculateStatistics(substations, sensorData, updatedTickets);
+      setEquipment([...equipment, newItem]);
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowAddTicket(false);
-        setNewTicket({ substationId: "", issue: "", priority: "medium" });
+        setShowAddEquipment(false);
+        setNewEquipment({ substationId: "", name: "", kind: "transformer" });
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
@@ -326,59 +528,136 @@ const App: React.FC = () => {
     }
   };
 
-  // Simulate FHE prediction
-  const runFHEPrediction = async () => {
+  // Queue a sensor reading; the queue encrypts it client-side and submits it to
+  // FHEPowerMaintenance, retrying until it is mined
+  const submitReading = async () => {
     if (!provider) { 
       alert("Please connect wallet first"); 
       return; 
     }
     
+    // Optional channels left blank are not part of the reading
+    const values: ChannelValues = {};
+    for (const channel of channels) {
+      const value = parseFloat(newReading.values[channel.id] ?? "");
+      if (!isNaN(value)) values[channel.id] = value;
+    }
+    const asset = equipment.find(e => e.id === newReading.equipmentId);
+    if (!asset || RUL_CHANNELS.some(id => values[id] === undefined)) {
+      alert("Please fill all required fields");
+      return;
+    }
+    
+    const queue = readingQueueRef.current;
+    if (!queue) return;
+    
+    // The form is done with the reading once it is queued
+    setShowSubmitReading(false);
+    setNewReading({ equipmentId: "", values: {} });
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Running FHE prediction model..."
+      message: "Encrypting sensor reading with FHE..."
     });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      const dataId = await queue.add({ equipmentId: asset.id, values });
       
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      // Check availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        throw new Error("FHE service unavailable");
-      }
+      // The plaintext values are dropped here; the chain only holds ciphertext handles
+      const reading: SensorData = {
+        substationId: asset.substationId,
+        equipmentId: asset.id,
+        channels: channels.filter(c => values[c.id] !== undefined).map(c => c.id),
+        timestamp: Date.now(),
+        dataId
+      };
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE prediction completed! Potential issues detected."
+        message: `Encrypted reading #${dataId} submitted!`
       });
       
-      // Update substations with predicted status
-      const updatedSubstations = substations.map(sub => {
-        // Simulate prediction results
-        const randomStatus = Math.random() > 0.7 ? "critical" : 
-                            Math.random() > 0.5 ? "warning" : "normal";
-        return { ...sub, status: randomStatus };
+      // Retries can take a while, so apply the reading to the latest state
+      setSensorData(prev => [reading, ...prev]);
+      setEquipment(prev => prev.map(e => e.id === asset.id ? { ...e, readingCount: e.readingCount + 1 } : e));
+      setEncryptedReadings(count => Math.max(count, dataId));
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      const errorMessage = e.message.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Submission failed: " + (e.message || "Unknown error");
+      
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: errorMessage
       });
       
-      setSubstations(updatedSubstations);
-      calculateStatistics(updatedSubstations, sensorData, tickets);
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Request an RUL decryption for the latest reading of every asset that has
+  // no processed prediction yet; the tracker follows the oracle callbacks
+  const runFHEPrediction = async () => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting FHE predictions..."
+    });
+    
+    try {
+      const contract = await getMaintenanceContractWithSigner();
+      const tracked = trackerRef.current?.list() || [];
+      let requested = 0;
+      
+      for (const asset of equipment) {
+        const readingIds = await getEquipmentReadingIds(contract, asset.id);
+        const dataId = readingIds[readingIds.length - 1];
+        if (!dataId || tracked.some(r => r.dataId === dataId && r.status !== "timeout")) continue;
+        if ((await getPrediction(contract, dataId)).isProcessed) continue;
+        
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Requesting prediction for ${asset.name} (reading #${dataId})...`
+        });
+        const receipt = await requestPrediction(contract, dataId);
+        trackerRef.current?.track(dataId, asset.id, receipt.hash);
+        requested++;
+      }
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: requested > 0
+          ? `${requested} prediction request(s) sent, waiting for the decryption oracle`
+          : "Every asset already has a prediction for its latest reading"
+      });
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
     } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Prediction request failed: " + (e.reason || e.message || "Unknown error");
+      
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Prediction failed: " + (e.message || "Unknown error")
+        message: errorMessage
       });
       
       setTimeout(() => {
@@ -387,36 +666,90 @@ const App: React.FC = () => {
     }
   };
 
-  // Render temperature chart
-  const renderTemperatureChart = () => {
-    // Get last 5 sensor readings
-    const recentData = [...sensorData].sort((a, b) => b.timestamp - a.timestamp).slice(0, 5);
-    
-    if (recentData.length === 0) {
-      return <div className="no-data">No temperature data available</div>;
+  // Readings shown as sensor cards
+  const latestSensors = sensorData.slice(0, 4);
+
+  // Decrypts the alarm levels of the loaded readings not decrypted yet; the raw
+  // values are never shared with other operators, only the level computed on-chain
+  const revealAlarms = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    const dataIds = sensorData.filter(d => alarmLevels[d.dataId] === undefined).map(d => d.dataId);
+    if (dataIds.length === 0) return;
+
+    setDecryptingAlarms(true);
+    try {
+      const contract = await getMaintenanceContractWithSigner();
+      const levels = await decryptAlarmLevels(contract, dataIds);
+      setAlarmLevels(prev => ({ ...prev, ...levels }));
+      const skipped = dataIds.filter(id => !(id in levels)).length;
+      if (skipped > 0) {
+        setTransactionStatus({
+          visible: true,
+          status: "success",
+          message: `${skipped} reading(s) of substations you do not operate stay encrypted`
+        });
+        setTimeout(() => {
+          setTransactionStatus({ visible: false, status: "pending", message: "" });
+        }, 3000);
+      }
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: e.message?.includes("user rejected")
+          ? "Decryption rejected by user"
+          : "Alarm decryption failed: " + (e.reason || e.message || "Unknown error")
+      });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } finally {
+      setDecryptingAlarms(false);
+    }
+  };
+
+  const alarmBucket = (data: SensorData): AlarmBucket => {
+    const level = alarmLevels[data.dataId];
+    if (level === undefined) return "encrypted";
+    return level === null ? "unset" : level;
+  };
+
+  // Readings per alarm level; only the levels computed on-chain are ever shown
+  const alarmCounts = ALARM_BUCKETS.map(bucket => ({
+    bucket,
+    count: sensorData.filter(d => alarmBucket(d) === bucket).length
+  }));
+  const activeAlarms = sensorData.filter(d => ["warning", "critical"].includes(alarmBucket(d))).length;
+
+  // Render how many readings sit at each alarm level
+  const renderAlarmChart = () => {
+    if (sensorData.length === 0) {
+      return <div className="no-data">No sensor readings available</div>;
     }
     
-    const maxTemp = Math.max(...recentData.map(d => d.temperature), 100);
-    const minTemp = Math.min(...recentData.map(d => d.temperature), 0);
+    const maxCount = Math.max(...alarmCounts.map(c => c.count), 1);
     
     return (
       <div className="chart-container">
         <div className="chart-grid">
           <div className="y-axis">
-            <div>{maxTemp.toFixed(1)}°C</div>
-            <div>{((maxTemp + minTemp) / 2).toFixed(1)}°C</div>
-            <div>{minTemp.toFixed(1)}°C</div>
+            <div>{maxCount}</div>
+            <div>{Math.round(maxCount / 2)}</div>
+            <div>0</div>
           </div>
           <div className="chart-bars">
-            {recentData.map((data, index) => (
-              <div key={index} className="bar-container">
+            {alarmCounts.map(({ bucket, count }) => (
+              <div key={bucket} className="bar-container">
                 <div 
-                  className="temperature-bar"
-                  style={{ height: `${((data.temperature - minTemp) / (maxTemp - minTemp)) * 100}%` }}
+                  className={`temperature-bar ${bucket}`}
+                  style={{ height: `${(count / maxCount) * 100}%` }}
                 >
-                  <div className="bar-value">{data.temperature.toFixed(1)}°C</div>
+                  <div className="bar-value">{count}</div>
                 </div>
-                <div className="bar-label">S{index+1}</div>
+                <div className="bar-label">{ALARM_BUCKET_LABELS[bucket]}</div>
               </div>
             ))}
           </div>
@@ -433,6 +766,10 @@ const App: React.FC = () => {
     </div>
   );
 
+  // Processed predictions below threshold, minus anything already ticketed or dismissed
+  const ticketDrafts = draftTickets(predictions, equipment, tickets)
+    .filter(draft => !dismissedDrafts.includes(draft.dataId));
+
   return (
     <div className="app-container tech-theme">
       <header className="app-header">
@@ -451,6 +788,7 @@ const App: React.FC = () => {
             <div className="fhe-icon"></div>
             Run FHE Prediction
           </button>
+          <NetworkIndicator />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -500,8 +838,12 @@ const App: React.FC = () => {
                 <div className="stat-label">Pending Tickets</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">{avgTemperature.toFixed(1)}°C</div>
-                <div className="stat-label">Avg Temp</div>
+                <div className="stat-value critical">{activeAlarms}</div>
+                <div className="stat-label">Active Alarms</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{encryptedReadings}</div>
+                <div className="stat-label">Encrypted Readings</div>
               </div>
             </div>
           </div>
@@ -509,7 +851,7 @@ const App: React.FC = () => {
           {/* Smart Chart */}
           <div className="dashboard-card tech-card chart-card">
             <div className="chart-header">
-              <h3>Temperature Monitoring</h3>
+              <h3>Alarm Levels</h3>
               <div className="chart-legend">
                 <div className="legend-item">
                   <div className="color-box normal"></div>
@@ -525,7 +867,7 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
-            {renderTemperatureChart()}
+            {renderAlarmChart()}
           </div>
           
           {/* Real-time Data Panel */}
@@ -533,27 +875,46 @@ const App: React.FC = () => {
             <div className="panel-header">
               <h3>Real-time Sensor Data</h3>
               <div className="last-updated">Last updated: Just now</div>
+              <button 
+                onClick={revealAlarms}
+                className="tech-button"
+                disabled={decryptingAlarms}
+              >
+                {decryptingAlarms ? "Decrypting..." : "Decrypt Alarms"}
+              </button>
+              <button 
+                onClick={() => setShowSubmitReading(true)}
+                className="tech-button primary"
+              >
+                Submit Reading
+              </button>
             </div>
             <div className="sensor-grid">
-              {sensorData.slice(0, 4).map((data, index) => (
-                <div key={index} className="sensor-item">
+              {latestSensors.map((data, index) => (
+                <div key={data.dataId} className="sensor-item">
                   <div className="sensor-header">
                     <div className="sensor-id">Sensor #{index+1}</div>
-                    <div className={`sensor-status ${data.temperature > 80 ? 'critical' : data.temperature > 70 ? 'warning' : 'normal'}`}></div>
+                    <div className={`sensor-status ${alarmLevels[data.dataId] || 'encrypted'}`}></div>
                   </div>
                   <div className="sensor-data">
                     <div className="data-item">
-                      <span>Temp:</span>
-                      <span>{data.temperature.toFixed(1)}°C</span>
+                      <span>Alarm:</span>
+                      <span>{ALARM_BUCKET_LABELS[alarmBucket(data)]}</span>
                     </div>
                     <div className="data-item">
-                      <span>Vibration:</span>
-                      <span>{data.vibration.toFixed(2)}</span>
+                      <span>Channels:</span>
+                      <span>{data.channels.length}</span>
                     </div>
                     <div className="data-item">
                       <span>Substation:</span>
                       <span>{data.substationId.substring(0, 8)}</span>
                     </div>
+                    {data.equipmentId && (
+                      <div className="data-item">
+                        <span>Equipment:</span>
+                        <span>{data.equipmentId.substring(0, 8)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -573,6 +934,12 @@ const App: React.FC = () => {
                 <div className="add-icon"></div>
                 Add Substation
               </button>
+              <button 
+                onClick={() => setShowAddEquipment(true)}
+                className="tech-button"
+              >
+                Register Equipment
+              </button>
               <button 
                 onClick={loadData}
                 className="refresh-btn tech-button"
@@ -588,6 +955,7 @@ const App: React.FC = () => {
               <div className="header-cell">ID</div>
               <div className="header-cell">Name</div>
               <div className="header-cell">Location</div>
+              <div className="header-cell">Equipment</div>
               <div className="header-cell">Status</div>
             </div>
             
@@ -604,19 +972,80 @@ const App: React.FC = () => {
               </div>
             ) : (
               substations.map(substation => (
-                <div className="record-row" key={substation.id}>
+                <div
+                  className={`record-row ${historySubstationId === substation.id ? 'selected' : ''}`}
+                  key={substation.id}
+                  onClick={() => setHistorySubstationId(historySubstationId === substation.id ? "" : substation.id)}
+                >
                   <div className="table-cell record-id">#{substation.id.substring(0, 6)}</div>
                   <div className="table-cell">{substation.name}</div>
                   <div className="table-cell">{substation.location}</div>
+                  <div className="table-cell">
+                    {equipment.filter(e => e.substationId === substation.id).length}
+                  </div>
                   <div className="table-cell">
                     <span className={`status-badge ${substation.status}`}>
-                      {substation.status}
+                      {substation.status === "no-prediction" ? "no prediction yet" : substation.status}
                     </span>
                   </div>
                 </div>
               ))
             )}
           </div>
+          
+          {historySubstationId && (
+            <div className="ticket-details">
+              <p>History of {historySubstationId}</p>
+              <HistoryPanel substationId={historySubstationId} />
+            </div>
+          )}
+        </div>
+        
+        {/* Decryption Requests Section */}
+        <div className="data-section">
+          <div className="section-header">
+            <h2>Prediction Requests</h2>
+          </div>
+          <PredictionRequestsPanel requests={predictionRequests} timeout={PREDICTION_TIMEOUT} />
+        </div>
+        
+        {/* Indexed Activity Section */}
+        <div className="data-section">
+          <div className="section-header">
+            <h2>Indexed Activity</h2>
+          </div>
+          <IndexerPanel />
+        </div>
+        
+        {/* Equipment Counts Section */}
+        <div className="data-section">
+          <div className="section-header">
+            <h2>Equipment Prediction Counts</h2>
+          </div>
+          <EquipmentCountsPanel equipment={equipment} />
+        </div>
+        
+        {/* Alarm Thresholds Section */}
+        <div className="data-section">
+          <div className="section-header">
+            <h2>Alarm Thresholds</h2>
+          </div>
+          <AlarmThresholdsPanel account={account} equipment={equipment} channels={channels} />
+        </div>
+        
+        {/* Access Control Section */}
+        <div className="data-section">
+          <div className="section-header">
+            <h2>Access Control</h2>
+          </div>
+          <AdminPanel
+            account={account}
+            substations={substations}
+            onChannelRegistered={async () => {
+              const maintenance = await getMaintenanceContractReadOnly();
+              if (maintenance) setChannels(await listChannels(maintenance));
+            }}
+          />
         </div>
         
         {/* Maintenance Tickets Section */}
@@ -634,40 +1063,12 @@ const App: React.FC = () => {
             </div>
           </div>
           
-          <div className="records-list tech-card">
-            <div className="table-header">
-              <div className="header-cell">ID</div>
-              <div className="header-cell">Substation</div>
-              <div className="header-cell">Issue</div>
-              <div className="header-cell">Priority</div>
-              <div className="header-cell">Status</div>
-            </div>
-            
-            {tickets.length === 0 ? (
-              <div className="no-records">
-                <div className="no-records-icon"></div>
-                <p>No maintenance tickets found</p>
-              </div>
-            ) : (
-              tickets.map(ticket => (
-                <div className="record-row" key={ticket.id}>
-                  <div className="table-cell record-id">#{ticket.id.substring(0, 6)}</div>
-                  <div className="table-cell">{ticket.substationId.substring(0, 8)}</div>
-                  <div className="table-cell">{ticket.issue}</div>
-                  <div className="table-cell">
-                    <span className={`priority-badge ${ticket.priority}`}>
-                      {ticket.priority}
-                    </span>
-                  </div>
-                  <div className="table-cell">
-                    <span className={`status-badge ${ticket.status}`}>
-                      {ticket.status}
-                    </span>
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
+          <TicketDraftsPanel
+            drafts={ticketDrafts}
+            onCreated={async () => { await loadTickets(); }}
+            onDismiss={(draft: TicketDraft) => setDismissedDrafts([...dismissedDrafts, draft.dataId])}
+          />
+          <TicketsPanel account={account} tickets={tickets} onUpdated={async () => { await loadTickets(); }} />
         </div>
       </div>
   
@@ -741,7 +1142,7 @@ const App: React.FC = () => {
                 <label>Substation *</label>
                 <select 
                   value={newTicket.substationId} 
-                  onChange={(e) => setNewTicket({...newTicket, substationId: e.target.value})}
+                  onChange={(e) => setNewTicket({...newTicket, substationId: e.target.value, equipmentId: ""})}
                   className="tech-select"
                 >
                   <option value="">Select substation</option>
@@ -753,6 +1154,22 @@ const App: React.FC = () => {
                 </select>
               </div>
               
+              <div className="form-group">
+                <label>Equipment</label>
+                <select 
+                  value={newTicket.equipmentId} 
+                  onChange={(e) => setNewTicket({...newTicket, equipmentId: e.target.value})}
+                  className="tech-select"
+                >
+                  <option value="">Whole substation</option>
+                  {equipment.filter(item => item.substationId === newTicket.substationId).map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.name} ({item.id})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
               <div className="form-group">
                 <label>Issue Description *</label>
                 <textarea 
@@ -767,7 +1184,7 @@ const App: React.FC = () => {
               <div className="form-group">
                 <label>Priority *</label>
                 <div className="priority-selector">
-                  {(["low", "medium", "high"] as const).map(priority => (
+                  {TICKET_PRIORITIES.map(priority => (
                     <button
                       key={priority}
                       className={`priority-option ${newTicket.priority === priority ? 'active' : ''}`}
@@ -803,6 +1220,146 @@ const App: React.FC = () => {
         </div>
       )}
       
+      {/* Register Equipment Modal */}
+      {showAddEquipment && (
+        <div className="modal-overlay">
+          <div className="create-modal tech-card">
+            <div className="modal-header">
+              <h2>Register Equipment</h2>
+              <button onClick={() => setShowAddEquipment(false)} className="close-modal">&times;</button>
+            </div>
+            
+            <div className="modal-body">
+              <div className="form-group">
+                <label>Substation *</label>
+                <select 
+                  value={newEquipment.substationId} 
+                  onChange={(e) => setNewEquipment({...newEquipment, substationId: e.target.value})}
+                  className="tech-select"
+                >
+                  <option value="">Select substation</option>
+                  {substations.map(sub => (
+                    <option key={sub.id} value={sub.id}>
+                      {sub.name} ({sub.id.substring(0, 6)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="form-group">
+                <label>Name *</label>
+                <input 
+                  type="text"
+                  value={newEquipment.name} 
+                  onChange={(e) => setNewEquipment({...newEquipment, name: e.target.value})}
+                  placeholder="e.g. Main transformer T1" 
+                  className="tech-input"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Type *</label>
+                <div className="priority-selector">
+                  {EQUIPMENT_KINDS.map(kind => (
+                    <button
+                      key={kind}
+                      className={`priority-option ${newEquipment.kind === kind ? 'active' : ''}`}
+                      onClick={() => setNewEquipment({...newEquipment, kind})}
+                    >
+                      {kind}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            
+            <div className="modal-footer">
+              <button 
+                onClick={() => setShowAddEquipment(false)}
+                className="cancel-btn tech-button"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={addEquipment}
+                className="submit-btn tech-button primary"
+              >
+                Register Equipment
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Submit Reading Modal */}
+      {showSubmitReading && (
+        <div className="modal-overlay">
+          <div className="create-modal tech-card">
+            <div className="modal-header">
+              <h2>Submit Encrypted Reading</h2>
+              <button onClick={() => setShowSubmitReading(false)} className="close-modal">&times;</button>
+            </div>
+            
+            <div className="modal-body">
+              <div className="form-group">
+                <label>Equipment *</label>
+                <select 
+                  value={newReading.equipmentId} 
+                  onChange={(e) => setNewReading({...newReading, equipmentId: e.target.value})}
+                  className="tech-select"
+                >
+                  <option value="">Select equipment</option>
+                  {equipment.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.name} ({item.kind}, {item.substationId.substring(0, 6)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              {/* One field per registered channel; the RUL model needs temperature and vibration */}
+              {channels.map(channel => (
+                <div key={channel.id} className="form-group">
+                  <label>
+                    {channel.name}{channel.unit && ` (${channel.unit})`}{RUL_CHANNELS.includes(channel.id) && " *"}
+                  </label>
+                  <input 
+                    type="number"
+                    step={(1 / 10 ** channelDecimals(channel)).toString()}
+                    value={newReading.values[channel.id] ?? ""} 
+                    onChange={(e) => setNewReading({
+                      ...newReading,
+                      values: { ...newReading.values, [channel.id]: e.target.value }
+                    })}
+                    className="tech-input"
+                  />
+                </div>
+              ))}
+              
+              <div className="fhe-notice">
+                <div className="fhe-icon"></div> 
+                <span>Values are encrypted in your browser before submission</span>
+              </div>
+            </div>
+            
+            <div className="modal-footer">
+              <button 
+                onClick={() => setShowSubmitReading(false)}
+                className="cancel-btn tech-button"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={submitReading}
+                className="submit-btn tech-button primary"
+              >
+                Encrypt & Submit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      
       {/* Wallet Selector */}
       {walletSelectorOpen && (
         <WalletSelector
@@ -0,0 +1,354 @@
+// audit.ts
+import { ethers } from "ethers";
+import { getContractReadOnly } from "./contract";
+import { DEFAULT_BATCH_SIZE } from "./indexer/core";
+import { EQUIPMENT_KINDS, getMaintenanceContractReadOnly } from "./maintenance";
+import { ROLES } from "./registry";
+import { getTicketsContractReadOnly, TICKET_PRIORITIES } from "./tickets";
+import type { FHEPowerMaintenance } from "../../../types";
+
+type Fields = Record<string, unknown>;
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  source: "maintenance" | "tickets" | "adapter";
+  event: string;
+  // Who made the change: the event's sender field, or the transaction sender
+  author: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  // What the change is about, e.g. "ticket #3" or "eq-tr-1"
+  subject: string;
+  changes: FieldChange[];
+}
+
+export interface AuditContracts {
+  maintenance: FHEPowerMaintenance | null;
+  tickets: ethers.Contract | null;
+  adapter: ethers.Contract | null;
+}
+
+export async function getAuditContracts(): Promise<AuditContracts> {
+  const [maintenance, tickets, adapter] = await Promise.all([
+    getMaintenanceContractReadOnly(),
+    getTicketsContractReadOnly(),
+    getContractReadOnly()
+  ]);
+  return { maintenance, tickets, adapter };
+}
+
+// Field-level difference between two successive versions of a record
+export function diffFields(before: Fields | undefined, after: Fields | undefined): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const a = before?.[field];
+    const b = after?.[field];
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+const byChainOrder = (a: ethers.EventLog, b: ethers.EventLog) =>
+  a.blockNumber - b.blockNumber || a.index - b.index;
+
+// Without a recorded deploy block, history on a public chain would be paged from
+// genesis in thousands of getLogs calls; only the most recent blocks are searched
+export const RECENT_HISTORY_BLOCKS = 10000;
+const LOCAL_CHAIN_ID = 31337;
+
+export const isHistoryBounded = (fromBlock: number, chainId: number) =>
+  fromBlock === 0 && chainId !== LOCAL_CHAIN_ID;
+
+// Pages the range from `fromBlock` to the head; public RPCs reject large getLogs ranges
+async function queryEvents(
+  contract: ethers.BaseContract | null,
+  events: ethers.ContractEventName[],
+  fromBlock: number
+) {
+  if (!contract) return [];
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider");
+
+  const [head, network] = await Promise.all([provider.getBlockNumber(), provider.getNetwork()]);
+  const start = isHistoryBounded(fromBlock, Number(network.chainId))
+    ? Math.max(0, head - RECENT_HISTORY_BLOCKS + 1)
+    : fromBlock;
+  const logs: (ethers.EventLog | ethers.Log)[] = [];
+  for (let from = start; from <= head; from += DEFAULT_BATCH_SIZE) {
+    const to = Math.min(from + DEFAULT_BATCH_SIZE - 1, head);
+    const results = await Promise.all(events.map(event => contract.queryFilter(event, from, to)));
+    logs.push(...results.flat());
+  }
+  return logs.filter((log): log is ethers.EventLog => "args" in log).sort(byChainOrder);
+}
+
+// Resolves block time and author once per block/transaction
+function createResolver() {
+  const blockTimes = new Map<number, Promise<number>>();
+  const senders = new Map<string, Promise<string>>();
+
+  return async (log: ethers.EventLog, sender?: string) => {
+    if (!blockTimes.has(log.blockNumber)) {
+      blockTimes.set(log.blockNumber, log.getBlock().then(block => block.timestamp * 1000));
+    }
+    if (!sender && !senders.has(log.transactionHash)) {
+      senders.set(log.transactionHash, log.getTransaction().then(tx => tx.from));
+    }
+    return {
+      timestamp: await blockTimes.get(log.blockNumber)!,
+      author: sender || (await senders.get(log.transactionHash)!)
+    };
+  };
+}
+
+const TICKET_EVENTS = [
+  "TicketCreated",
+  "TicketAssigned",
+  "TicketStarted",
+  "WorkNoteAdded",
+  "TicketCompleted",
+  "TicketCancelled"
+];
+
+// The ticket fields each lifecycle event sets, and the account behind it
+function ticketEventFields(log: ethers.EventLog): { fields: Fields; sender?: string } {
+  const args = log.args;
+  switch (log.eventName) {
+    case "TicketCreated":
+      return {
+        fields: {
+          status: "pending",
+          substationId: args.substationId,
+          equipmentId: args.equipmentId,
+          dataId: Number(args.dataId),
+          priority: TICKET_PRIORITIES[Number(args.priority)]
+        },
+        sender: args.creator
+      };
+    case "TicketAssigned":
+      return { fields: { status: "assigned", assignee: args.technician }, sender: args.sender };
+    case "TicketStarted":
+      return { fields: { status: "in-progress" }, sender: args.technician };
+    case "WorkNoteAdded":
+      return { fields: { note: args.text }, sender: args.author };
+    case "TicketCompleted":
+      return { fields: { status: "completed", resolution: args.resolution }, sender: args.technician };
+    default:
+      return { fields: { status: "cancelled", resolution: args.reason }, sender: args.sender };
+  }
+}
+
+async function ticketEntries(contracts: AuditContracts, fromBlock: number, ticketId?: number) {
+  const tickets = contracts.tickets;
+  if (!tickets) return [];
+  const events = ticketId === undefined
+    ? TICKET_EVENTS
+    : TICKET_EVENTS.map(name => tickets.filters[name](ticketId));
+  const logs = await queryEvents(tickets, events, fromBlock);
+
+  const resolve = createResolver();
+  const states = new Map<number, Fields>();
+  const entries: (AuditEntry & { substationId: string })[] = [];
+
+  for (const log of logs) {
+    const id = Number(log.args.id);
+    const { fields, sender } = ticketEventFields(log);
+    const before = states.get(id);
+    // Notes are not state; each one shows as its own addition
+    const after: Fields = { ...before, note: undefined, ...fields };
+    states.set(id, after);
+
+    entries.push({
+      source: "tickets",
+      event: log.eventName,
+      ...(await resolve(log, sender)),
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      subject: `ticket #${id}`,
+      substationId: after.substationId as string,
+      changes: diffFields({ ...before, note: undefined }, after)
+    });
+  }
+  return entries;
+}
+
+export async function getTicketHistory(
+  contracts: AuditContracts,
+  ticketId: number,
+  fromBlock: number
+): Promise<AuditEntry[]> {
+  return ticketEntries(contracts, fromBlock, ticketId);
+}
+
+const MAINTENANCE_EVENTS = [
+  "SubstationRegistered",
+  "EquipmentRegistered",
+  "RoleGranted",
+  "RoleRevoked",
+  "DataSubmitted",
+  "PredictionRequested",
+  "PredictionProcessed",
+  "EquipmentCountRequested",
+  "EquipmentCountRevealed"
+];
+
+async function maintenanceEntries(contracts: AuditContracts, substationId: string, fromBlock: number) {
+  const logs = await queryEvents(contracts.maintenance, MAINTENANCE_EVENTS, fromBlock);
+  const resolve = createResolver();
+
+  // Readings and predictions only carry ids; map them back to the substation
+  const equipmentSubstation = new Map<string, string>();
+  const readingEquipment = new Map<number, string>();
+  const entries: AuditEntry[] = [];
+
+  for (const log of logs) {
+    const args = log.args;
+    let subject = substationId;
+    let fields: Fields;
+    let sender: string | undefined;
+
+    switch (log.eventName) {
+      case "SubstationRegistered":
+        if (args.substationId !== substationId) continue;
+        fields = { name: args.name, location: args.location };
+        break;
+      case "EquipmentRegistered":
+        equipmentSubstation.set(args.equipmentId, args.substationId);
+        if (args.substationId !== substationId) continue;
+        subject = args.equipmentId;
+        fields = { substationId: args.substationId, kind: EQUIPMENT_KINDS[Number(args.kind)] };
+        break;
+      case "RoleGranted":
+      case "RoleRevoked":
+        if (args.substationId !== substationId) continue;
+        subject = args.account;
+        fields = { role: log.eventName === "RoleGranted" ? ROLES[Number(args.role)] : "none" };
+        sender = args.sender;
+        break;
+      case "DataSubmitted":
+        readingEquipment.set(Number(args.id), args.equipmentId);
+        if (equipmentSubstation.get(args.equipmentId) !== substationId) continue;
+        subject = args.equipmentId;
+        fields = { reading: Number(args.id) };
+        break;
+      case "PredictionRequested":
+      case "PredictionProcessed": {
+        const equipmentId = readingEquipment.get(Number(args.id));
+        if (!equipmentId || equipmentSubstation.get(equipmentId) !== substationId) continue;
+        subject = equipmentId;
+        fields = { prediction: log.eventName === "PredictionProcessed" ? "processed" : "requested", reading: Number(args.id) };
+        break;
+      }
+      default:
+        if (equipmentSubstation.get(args.equipmentId) !== substationId) continue;
+        subject = args.equipmentId;
+        fields = log.eventName === "EquipmentCountRevealed"
+          ? { count: Number(args.count), countStatus: "completed" }
+          : { countStatus: "pending" };
+    }
+
+    entries.push({
+      source: "maintenance",
+      event: log.eventName,
+      ...(await resolve(log, sender)),
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      subject,
+      changes: diffFields(undefined, fields)
+    });
+  }
+  return entries;
+}
+
+const parseJson = (bytes: string): unknown => {
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes));
+  } catch {
+    return undefined;
+  }
+};
+
+// UniversalAdapter values are JSON: whole arrays under a DataStored key, or one
+// object per RecordStored record. Items are matched by id across versions.
+async function adapterEntries(contracts: AuditContracts, substationId: string, fromBlock: number) {
+  const logs = await queryEvents(contracts.adapter, ["DataStored", "RecordStored", "RecordDeleted"], fromBlock);
+  const resolve = createResolver();
+  const previous = new Map<string, Fields>();
+  const entries: AuditEntry[] = [];
+
+  const push = async (log: ethers.EventLog, subject: string, before?: Fields, after?: Fields, sender?: string) => {
+    const owner = (after || before)?.substationId;
+    if (owner !== substationId) return;
+    const changes = diffFields(before, after);
+    if (changes.length === 0) return;
+    entries.push({
+      source: "adapter",
+      event: log.eventName,
+      ...(await resolve(log, sender)),
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      subject,
+      changes
+    });
+  };
+
+  for (const log of logs) {
+    const args = log.args;
+    if (log.eventName === "DataStored") {
+      const value = parseJson(args.value);
+      if (!Array.isArray(value)) continue;
+      const seen = new Set<string>();
+      for (const item of value as Fields[]) {
+        const key = `${args.key}/${item.id}`;
+        seen.add(key);
+        await push(log, key, previous.get(key), item, args.sender);
+        previous.set(key, item);
+      }
+      // Items missing from the new array were removed by this write
+      for (const [key, item] of previous) {
+        if (key.startsWith(`${args.key}/`) && !seen.has(key)) {
+          await push(log, key, item, undefined, args.sender);
+          previous.delete(key);
+        }
+      }
+    } else {
+      const key = `${args.collection}/${args.id}`;
+      const after = log.eventName === "RecordStored" ? parseJson(args.value) as Fields : undefined;
+      await push(log, key, previous.get(key), after, args.sender);
+      if (after) previous.set(key, after);
+      else previous.delete(key);
+    }
+  }
+  return entries;
+}
+
+// Everything that happened to a substation, its assets, tickets and stored data, newest first
+export async function getSubstationHistory(
+  contracts: AuditContracts,
+  substationId: string,
+  fromBlock: number
+): Promise<AuditEntry[]> {
+  const [maintenance, tickets, adapter] = await Promise.all([
+    maintenanceEntries(contracts, substationId, fromBlock),
+    ticketEntries(contracts, fromBlock),
+    adapterEntries(contracts, substationId, fromBlock)
+  ]);
+  const ticketHistory = tickets.filter(entry => entry.substationId === substationId)
+    .map(({ substationId: _, ...entry }) => entry);
+
+  return [...maintenance, ...ticketHistory, ...adapter]
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+}
@@ -0,0 +1,93 @@
+// channels.ts
+import { ethers } from "ethers";
+import type { FHEPowerMaintenance } from "../../../types";
+
+// Sensor channels registered in FHEPowerMaintenance. A channel's values are
+// multiplied by its scale, rounded and encrypted with its type, so the registry
+// alone decides how a form field turns into a ciphertext and back into a label.
+
+// Mirrors FHEPowerMaintenance.ChannelType; the array index is the enum value
+export const CHANNEL_TYPES = ["euint8", "euint16", "euint32", "euint64"] as const;
+export type ChannelType = typeof CHANNEL_TYPES[number];
+
+export const CHANNEL_TYPE_BITS: Record<ChannelType, number> = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64
+};
+
+// Bits a single encrypted input (and its proof) can carry
+export const MAX_INPUT_BITS = 2048;
+
+export interface SensorChannel {
+  id: string;
+  name: string;
+  unit: string;
+  scale: number;
+  valueType: ChannelType;
+}
+
+// Plaintext values of one reading, keyed by channel id
+export type ChannelValues = Record<string, number>;
+
+// Registered by the contract's constructor; the RUL model reads both
+export const TEMPERATURE_CHANNEL = "temperature";
+export const VIBRATION_CHANNEL = "vibration";
+export const RUL_CHANNELS = [TEMPERATURE_CHANNEL, VIBRATION_CHANNEL];
+
+// Used until the registry has been read from the chain
+export const BUILTIN_CHANNELS: SensorChannel[] = [
+  { id: TEMPERATURE_CHANNEL, name: "Temperature", unit: "°C", scale: 10, valueType: "euint32" },
+  { id: VIBRATION_CHANNEL, name: "Vibration", unit: "mm/s", scale: 100, valueType: "euint32" }
+];
+
+export async function getChannel(contract: FHEPowerMaintenance, channelId: string): Promise<SensorChannel> {
+  const [name, unit, scale, valueType] = await contract.getChannel(channelId);
+  return { id: channelId, name, unit, scale: Number(scale), valueType: CHANNEL_TYPES[Number(valueType)] };
+}
+
+export async function listChannels(contract: FHEPowerMaintenance): Promise<SensorChannel[]> {
+  const ids: string[] = await contract.getChannelIds();
+  return Promise.all(ids.map(id => getChannel(contract, id)));
+}
+
+export async function registerChannel(contract: FHEPowerMaintenance, channel: SensorChannel) {
+  const tx = await contract.registerChannel(
+    channel.id,
+    channel.name,
+    channel.unit,
+    channel.scale,
+    CHANNEL_TYPES.indexOf(channel.valueType)
+  );
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+// Plaintext value to the integer that gets encrypted, clamped to the channel type
+export function scaleChannelValue(channel: SensorChannel, value: number): bigint {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid ${channel.name} value: ${value}`);
+  }
+  const max = (1n << BigInt(CHANNEL_TYPE_BITS[channel.valueType])) - 1n;
+  const scaled = BigInt(Math.round(value * channel.scale));
+  return scaled < 0n ? 0n : scaled > max ? max : scaled;
+}
+
+// Bits one reading of `channels` takes up in an encrypted input
+export function readingBits(channels: SensorChannel[]) {
+  return channels.reduce((bits, channel) => bits + CHANNEL_TYPE_BITS[channel.valueType], 0);
+}
+
+// Readings of `channels` that fit in one encrypted input
+export function maxBatchReadings(channels: SensorChannel[]) {
+  return Math.floor(MAX_INPUT_BITS / Math.max(1, readingBits(channels)));
+}
+
+// Decimal places that the channel's scale can represent, e.g. 2 for scale 100
+export function channelDecimals(channel: SensorChannel) {
+  return Math.max(0, Math.ceil(Math.log10(channel.scale)));
+}
+
+export function formatChannelValue(channel: SensorChannel, value: number) {
+  return `${value.toFixed(channelDecimals(channel))} ${channel.unit}`.trim();
+}
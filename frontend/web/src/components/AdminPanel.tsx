@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getMaintenanceContractReadOnly, getMaintenanceContractWithSigner } from '../maintenance';
+import {
+  getOwner,
+  isAdmin,
+  setAdmin,
+  getSubstationMembers,
+  grantRole,
+  revokeRole,
+  Role,
+  SubstationMember
+} from '../registry';
+import { CHANNEL_TYPES, ChannelType, registerChannel } from '../channels';
+import type { FHEPowerMaintenance } from '../../../../types';
+
+interface AdminPanelProps {
+  account: string;
+  substations: { id: string; name: string }[];
+  onChannelRegistered?: () => void;
+}
+
+const GRANTABLE_ROLES: Role[] = ['operator', 'technician'];
+
+export default function AdminPanel({ account, substations, onChannelRegistered }: AdminPanelProps) {
+  const [owner, setOwner] = useState('');
+  const [accountIsAdmin, setAccountIsAdmin] = useState(false);
+  const [substationId, setSubstationId] = useState('');
+  const [members, setMembers] = useState<SubstationMember[]>([]);
+  const [memberAddress, setMemberAddress] = useState('');
+  const [memberRole, setMemberRole] = useState<Role>('operator');
+  const [adminAddress, setAdminAddress] = useState('');
+  const [channel, setChannel] = useState({ id: '', name: '', unit: '', scale: '1', valueType: 'euint32' as ChannelType });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const isOwner = !!account && !!owner && account.toLowerCase() === owner.toLowerCase();
+
+  useEffect(() => {
+    const loadPermissions = async () => {
+      const contract = await getMaintenanceContractReadOnly();
+      if (!contract) return;
+      setOwner(await getOwner(contract));
+      setAccountIsAdmin(account ? await isAdmin(contract, account) : false);
+    };
+    loadPermissions().catch(e => console.error('Failed to load permissions:', e));
+  }, [account]);
+
+  useEffect(() => {
+    if (!substationId) {
+      setMembers([]);
+      return;
+    }
+    loadMembers(substationId).catch(e => console.error('Failed to load members:', e));
+  }, [substationId]);
+
+  const loadMembers = async (id: string) => {
+    const contract = await getMaintenanceContractReadOnly();
+    if (!contract) return;
+    setMembers(await getSubstationMembers(contract, id));
+  };
+
+  // Runs a signed registry transaction and reports the outcome inline
+  const runTransaction = async (label: string, action: (contract: FHEPowerMaintenance) => Promise<unknown>) => {
+    setBusy(true);
+    setMessage(`${label}...`);
+    try {
+      const contract = await getMaintenanceContractWithSigner();
+      await action(contract);
+      setMessage(`${label} confirmed`);
+      if (substationId) await loadMembers(substationId);
+    } catch (e: any) {
+      setMessage(e.message?.includes('user rejected transaction')
+        ? 'Transaction rejected by user'
+        : `${label} failed: ${e.reason || e.message || 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onGrant = () => {
+    if (!ethers.isAddress(memberAddress)) {
+      setMessage('Enter a valid account address');
+      return;
+    }
+    runTransaction(`Granting ${memberRole} role`, c => grantRole(c, substationId, memberAddress, memberRole))
+      .then(() => setMemberAddress(''));
+  };
+
+  const onRevoke = (member: string) => {
+    runTransaction('Revoking role', c => revokeRole(c, substationId, member));
+  };
+
+  const onSetAdmin = (enabled: boolean) => {
+    if (!ethers.isAddress(adminAddress)) {
+      setMessage('Enter a valid account address');
+      return;
+    }
+    runTransaction(enabled ? 'Granting admin' : 'Revoking admin', c => setAdmin(c, adminAddress, enabled))
+      .then(() => setAdminAddress(''));
+  };
+
+  const onRegisterChannel = () => {
+    const scale = parseInt(channel.scale, 10);
+    if (!channel.id || !channel.name || !(scale > 0)) {
+      setMessage('Enter a channel id, name and a positive scale');
+      return;
+    }
+    runTransaction(`Registering channel ${channel.id}`, c => registerChannel(c, { ...channel, scale }))
+      .then(() => {
+        setChannel({ id: '', name: '', unit: '', scale: '1', valueType: 'euint32' });
+        onChannelRegistered?.();
+      });
+  };
+
+  if (!account) {
+    return (
+      <div className="records-list tech-card">
+        <div className="no-records">
+          <p>Connect an admin wallet to manage roles</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!accountIsAdmin) {
+    return (
+      <div className="records-list tech-card">
+        <div className="no-records">
+          <p>{account.slice(0, 6)}...{account.slice(-4)} is not a registry admin</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="records-list tech-card">
+      {isOwner && (
+        <div className="form-group">
+          <label>Registry admins</label>
+          <input
+            type="text"
+            value={adminAddress}
+            onChange={(e) => setAdminAddress(e.target.value)}
+            placeholder="0x... admin address"
+            className="tech-input"
+          />
+          <div className="header-actions">
+            <button className="tech-button primary" disabled={busy} onClick={() => onSetAdmin(true)}>
+              Grant Admin
+            </button>
+            <button className="tech-button" disabled={busy} onClick={() => onSetAdmin(false)}>
+              Revoke Admin
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="form-group">
+        <label>Register sensor channel</label>
+        <input
+          type="text"
+          value={channel.id}
+          onChange={(e) => setChannel({ ...channel, id: e.target.value })}
+          placeholder="Channel id, e.g. oil_level"
+          className="tech-input"
+        />
+        <input
+          type="text"
+          value={channel.name}
+          onChange={(e) => setChannel({ ...channel, name: e.target.value })}
+          placeholder="Display name"
+          className="tech-input"
+        />
+        <input
+          type="text"
+          value={channel.unit}
+          onChange={(e) => setChannel({ ...channel, unit: e.target.value })}
+          placeholder="Unit, e.g. %"
+          className="tech-input"
+        />
+        <input
+          type="number"
+          min="1"
+          value={channel.scale}
+          onChange={(e) => setChannel({ ...channel, scale: e.target.value })}
+          placeholder="Scale (10 keeps one decimal)"
+          className="tech-input"
+        />
+        <div className="priority-selector">
+          {CHANNEL_TYPES.map(type => (
+            <button
+              key={type}
+              className={`priority-option ${channel.valueType === type ? 'active' : ''}`}
+              onClick={() => setChannel({ ...channel, valueType: type })}
+            >
+              {type}
+            </button>
+          ))}
+        </div>
+        <button className="tech-button primary" disabled={busy} onClick={onRegisterChannel}>
+          Register Channel
+        </button>
+      </div>
+
+      <div className="form-group">
+        <label>Substation</label>
+        <select
+          value={substationId}
+          onChange={(e) => setSubstationId(e.target.value)}
+          className="tech-select"
+        >
+          <option value="">Select substation</option>
+          {substations.map(sub => (
+            <option key={sub.id} value={sub.id}>
+              {sub.name} ({sub.id.substring(0, 6)})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {substationId && (
+        <>
+          <div className="form-group">
+            <label>Grant role</label>
+            <input
+              type="text"
+              value={memberAddress}
+              onChange={(e) => setMemberAddress(e.target.value)}
+              placeholder="0x... member address"
+              className="tech-input"
+            />
+            <div className="priority-selector">
+              {GRANTABLE_ROLES.map(role => (
+                <button
+                  key={role}
+                  className={`priority-option ${memberRole === role ? 'active' : ''}`}
+                  onClick={() => setMemberRole(role)}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+            <button className="tech-button primary" disabled={busy} onClick={onGrant}>
+              Grant Role
+            </button>
+          </div>
+
+          <div className="table-header">
+            <div className="header-cell">Account</div>
+            <div className="header-cell">Role</div>
+            <div className="header-cell">Actions</div>
+          </div>
+          {members.length === 0 ? (
+            <div className="no-records">
+              <p>No members for this substation</p>
+            </div>
+          ) : (
+            members.map(member => (
+              <div className="record-row" key={member.account}>
+                <div className="table-cell">{member.account.slice(0, 6)}...{member.account.slice(-4)}</div>
+                <div className="table-cell">
+                  <span className="status-badge">{member.role}</span>
+                </div>
+                <div className="table-cell">
+                  <button className="tech-button" disabled={busy} onClick={() => onRevoke(member.account)}>
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </>
+      )}
+
+      {message && <div className="fhe-notice"><span>{message}</span></div>}
+    </div>
+  );
+}
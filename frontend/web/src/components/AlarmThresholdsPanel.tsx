@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import {
+  getMaintenanceContractReadOnly,
+  getMaintenanceContractWithSigner,
+  getThresholdChannels,
+  setAlarmThreshold,
+  Equipment
+} from '../maintenance';
+import { SensorChannel } from '../channels';
+
+interface AlarmThresholdsPanelProps {
+  account: string;
+  equipment: Equipment[];
+  channels: SensorChannel[];
+}
+
+// Thresholds are encrypted in the browser; the contract compares every new
+// reading against them and only the resulting alarm level can be decrypted
+export default function AlarmThresholdsPanel({ account, equipment, channels }: AlarmThresholdsPanelProps) {
+  const [configured, setConfigured] = useState<Record<string, string[]>>({});
+  const [form, setForm] = useState({ equipmentId: '', channelId: '', warning: '', critical: '' });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadConfigured = async () => {
+    const contract = await getMaintenanceContractReadOnly();
+    if (!contract) return;
+    const loaded = await Promise.all(equipment.map(item => getThresholdChannels(contract, item.id, channels)));
+    setConfigured(Object.fromEntries(equipment.map((item, i) => [item.id, loaded[i]])));
+  };
+
+  useEffect(() => {
+    loadConfigured().catch(e => console.error('Failed to load alarm thresholds:', e));
+  }, [equipment, channels]);
+
+  const onSubmit = async () => {
+    const channel = channels.find(c => c.id === form.channelId);
+    const warning = parseFloat(form.warning);
+    const critical = parseFloat(form.critical);
+    if (!account) {
+      setMessage('Connect an operator wallet first');
+      return;
+    }
+    if (!form.equipmentId || !channel || isNaN(warning) || isNaN(critical)) {
+      setMessage('Select equipment and a channel and enter both thresholds');
+      return;
+    }
+
+    setBusy(true);
+    setMessage(`Encrypting ${channel.name} thresholds...`);
+    try {
+      const contract = await getMaintenanceContractWithSigner();
+      await setAlarmThreshold(contract, account, form.equipmentId, channel, warning, critical);
+      setMessage(`${channel.name} thresholds set for ${form.equipmentId}`);
+      setForm({ ...form, warning: '', critical: '' });
+      await loadConfigured();
+    } catch (e: any) {
+      setMessage(e.message?.includes('user rejected transaction')
+        ? 'Transaction rejected by user'
+        : `Setting thresholds failed: ${e.reason || e.message || 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="records-list tech-card">
+      <div className="form-group">
+        <label>Set alarm thresholds</label>
+        <select
+          value={form.equipmentId}
+          onChange={(e) => setForm({ ...form, equipmentId: e.target.value })}
+          className="tech-select"
+        >
+          <option value="">Select equipment</option>
+          {equipment.map(item => (
+            <option key={item.id} value={item.id}>{item.name} ({item.id})</option>
+          ))}
+        </select>
+        <select
+          value={form.channelId}
+          onChange={(e) => setForm({ ...form, channelId: e.target.value })}
+          className="tech-select"
+        >
+          <option value="">Select channel</option>
+          {channels.map(channel => (
+            <option key={channel.id} value={channel.id}>{channel.name}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={form.warning}
+          onChange={(e) => setForm({ ...form, warning: e.target.value })}
+          placeholder="Warning at or above"
+          className="tech-input"
+        />
+        <input
+          type="number"
+          value={form.critical}
+          onChange={(e) => setForm({ ...form, critical: e.target.value })}
+          placeholder="Critical at or above"
+          className="tech-input"
+        />
+        <button className="tech-button primary" disabled={busy} onClick={onSubmit}>
+          Encrypt & Set
+        </button>
+      </div>
+
+      <div className="table-header">
+        <div className="header-cell">Equipment</div>
+        <div className="header-cell">Substation</div>
+        <div className="header-cell">Channels with thresholds</div>
+      </div>
+      {equipment.length === 0 ? (
+        <div className="no-records">
+          <p>No equipment registered</p>
+        </div>
+      ) : (
+        equipment.map(item => (
+          <div className="record-row" key={item.id}>
+            <div className="table-cell">{item.name} ({item.id})</div>
+            <div className="table-cell">{item.substationId}</div>
+            <div className="table-cell">
+              {configured[item.id]?.length
+                ? configured[item.id].map(id => channels.find(c => c.id === id)?.name || id).join(', ')
+                : 'None'}
+            </div>
+          </div>
+        ))
+      )}
+
+      {message && <div className="fhe-notice"><span>{message}</span></div>}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import {
+  getMaintenanceContractReadOnly,
+  getMaintenanceContractWithSigner,
+  getEquipmentCountReveal,
+  isCountRevealStalled,
+  requestEquipmentCountDecryption,
+  waitForEquipmentCount,
+  Equipment,
+  EquipmentCountReveal
+} from '../maintenance';
+
+interface EquipmentCountsPanelProps {
+  equipment: Equipment[];
+}
+
+export default function EquipmentCountsPanel({ equipment }: EquipmentCountsPanelProps) {
+  const [reveals, setReveals] = useState<Record<string, EquipmentCountReveal>>({});
+  const [waiting, setWaiting] = useState<Record<string, boolean>>({});
+  const [message, setMessage] = useState('');
+
+  const storeReveal = (reveal: EquipmentCountReveal) => {
+    setReveals(prev => ({ ...prev, [reveal.equipmentId]: reveal }));
+  };
+
+  // Polls until the oracle answers, then shows the revealed count. On a timeout
+  // the reveal is reloaded, so a request the contract considers stalled can be retried.
+  const watchReveal = async (equipmentId: string) => {
+    setWaiting(prev => ({ ...prev, [equipmentId]: true }));
+    const contract = await getMaintenanceContractReadOnly();
+    try {
+      if (!contract) return;
+      storeReveal(await waitForEquipmentCount(contract, equipmentId));
+    } catch (e: any) {
+      setMessage(e.message || `Count for ${equipmentId} not revealed yet`);
+      if (contract) storeReveal(await getEquipmentCountReveal(contract, equipmentId));
+    } finally {
+      setWaiting(prev => ({ ...prev, [equipmentId]: false }));
+    }
+  };
+
+  useEffect(() => {
+    const loadReveals = async () => {
+      const contract = await getMaintenanceContractReadOnly();
+      if (!contract) return;
+      const loaded = await Promise.all(equipment.map(item => getEquipmentCountReveal(contract, item.id)));
+      loaded.forEach(storeReveal);
+      loaded
+        .filter(reveal => reveal.status === 'pending' && !isCountRevealStalled(reveal))
+        .forEach(reveal => watchReveal(reveal.equipmentId));
+    };
+    loadReveals().catch(e => console.error('Failed to load equipment counts:', e));
+  }, [equipment]);
+
+  const onReveal = async (equipmentId: string) => {
+    setMessage(`Requesting count decryption for ${equipmentId}...`);
+    try {
+      const contract = await getMaintenanceContractWithSigner();
+      await requestEquipmentCountDecryption(contract, equipmentId);
+      setMessage(`Waiting for the decryption oracle to reveal ${equipmentId}...`);
+      await watchReveal(equipmentId);
+      setMessage('');
+    } catch (e: any) {
+      setMessage(e.message?.includes('user rejected transaction')
+        ? 'Transaction rejected by user'
+        : `Reveal failed: ${e.reason || e.message || 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="records-list tech-card">
+      <div className="table-header">
+        <div className="header-cell">Equipment</div>
+        <div className="header-cell">Substation</div>
+        <div className="header-cell">Processed predictions</div>
+        <div className="header-cell">Revealed</div>
+        <div className="header-cell">Actions</div>
+      </div>
+
+      {equipment.length === 0 ? (
+        <div className="no-records">
+          <p>No equipment registered</p>
+        </div>
+      ) : (
+        equipment.map(item => {
+          const reveal = reveals[item.id];
+          const stalled = reveal !== undefined && isCountRevealStalled(reveal);
+          const pending = (reveal?.status === 'pending' && !stalled) || waiting[item.id];
+          return (
+            <div className="record-row" key={item.id}>
+              <div className="table-cell">{item.name} ({item.id})</div>
+              <div className="table-cell">{item.substationId}</div>
+              <div className="table-cell">
+                {reveal && reveal.revealedAt > 0 ? reveal.count : 'Encrypted'}
+              </div>
+              <div className="table-cell">
+                {reveal && reveal.revealedAt > 0
+                  ? new Date(reveal.revealedAt * 1000).toLocaleString()
+                  : '-'}
+              </div>
+              <div className="table-cell">
+                <button className="tech-button" disabled={pending} onClick={() => onReveal(item.id)}>
+                  {pending ? 'Decrypting...' : stalled ? 'Retry Reveal' : 'Reveal Count'}
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      {message && <div className="fhe-notice"><span>{message}</span></div>}
+    </div>
+  );
+}
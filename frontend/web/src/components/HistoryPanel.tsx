@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AuditEntry,
+  FieldChange,
+  getAuditContracts,
+  getSubstationHistory,
+  getTicketHistory,
+  isHistoryBounded,
+  RECENT_HISTORY_BLOCKS
+} from '../audit';
+import { config } from '../contract';
+
+// Exactly one of substationId / ticketId selects whose history is shown
+interface HistoryPanelProps {
+  substationId?: string;
+  ticketId?: number;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '∅';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const formatChange = (change: FieldChange) =>
+  change.before === undefined
+    ? `${change.field}: ${formatValue(change.after)}`
+    : `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+
+export default function HistoryPanel({ substationId, ticketId }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!substationId && ticketId === undefined) {
+      setEntries([]);
+      return;
+    }
+    let cancelled = false;
+    const loadHistory = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const contracts = await getAuditContracts();
+        const history = ticketId !== undefined
+          ? (await getTicketHistory(contracts, ticketId, config.deployBlock)).reverse()
+          : await getSubstationHistory(contracts, substationId!, config.deployBlock);
+        if (!cancelled) setEntries(history);
+      } catch (e: any) {
+        if (!cancelled) setError(`Failed to load history: ${e.message || 'Unknown error'}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadHistory();
+    return () => { cancelled = true; };
+  }, [substationId, ticketId]);
+
+  if (loading) {
+    return <div className="no-records"><p>Loading history from chain events...</p></div>;
+  }
+  if (error) {
+    return <div className="fhe-notice"><span>{error}</span></div>;
+  }
+
+  // This chain's deploy block was not recorded, so only recent blocks were searched
+  const bounded = isHistoryBounded(config.deployBlock, config.chainId) && (
+    <div className="fhe-notice"><span>Showing changes from the last {RECENT_HISTORY_BLOCKS} blocks only</span></div>
+  );
+  if (entries.length === 0) {
+    return <>{bounded}<div className="no-records"><p>No recorded changes</p></div></>;
+  }
+
+  return (
+    <>
+      {bounded}
+      <ul className="work-notes">
+        {entries.map(entry => (
+          <li key={`${entry.txHash}-${entry.logIndex}`}>
+            <span>
+              {new Date(entry.timestamp).toLocaleString()} · block {entry.blockNumber} · {entry.author.slice(0, 6)}...{entry.author.slice(-4)}
+            </span>
+            <p>{entry.event} {entry.subject}</p>
+            {entry.changes.map(change => (
+              <p key={change.field} className="history-change">{formatChange(change)}</p>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
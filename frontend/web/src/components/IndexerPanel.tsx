@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { IndexedLog, IndexerProgress } from '../indexer/core';
+import { getIndexedLogs, startIndexerWorker } from '../indexer/client';
+
+const RECENT_LIMIT = 10;
+
+const describeLog = (log: IndexedLog) => {
+  switch (log.event) {
+    case 'DataStored':
+      return `${log.args.key} updated by ${log.args.sender.slice(0, 6)}...${log.args.sender.slice(-4)}`;
+    case 'DataSubmitted':
+      return `Reading #${log.args.id} submitted for ${log.args.equipmentId}`;
+    case 'PredictionRequested':
+      return `Prediction requested for reading #${log.args.id}`;
+    default:
+      return `Prediction processed for reading #${log.args.id}`;
+  }
+};
+
+export default function IndexerPanel() {
+  const [progress, setProgress] = useState<IndexerProgress | null>(null);
+  const [logs, setLogs] = useState<IndexedLog[]>([]);
+  const [error, setError] = useState('');
+
+  const refreshLogs = () => {
+    getIndexedLogs()
+      .then(setLogs)
+      .catch(e => console.error('Failed to read indexed logs:', e));
+  };
+
+  useEffect(() => {
+    refreshLogs();
+    return startIndexerWorker(
+      next => {
+        setProgress(next);
+        setError('');
+        if (next.newLogs > 0 || next.rewoundTo !== undefined) refreshLogs();
+      },
+      setError
+    );
+  }, []);
+
+  const recent = logs.slice(-RECENT_LIMIT).reverse();
+  const counts = logs.reduce<Record<string, number>>((acc, log) => {
+    acc[log.event] = (acc[log.event] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="records-list tech-card">
+      <div className="fhe-notice">
+        <span>
+          {progress
+            ? `Indexed to block ${progress.lastBlock} of ${progress.head}` +
+              (progress.rewoundTo !== undefined ? ` (reorg, rewound to ${progress.rewoundTo})` : '')
+            : 'Indexer starting...'}
+          {Object.entries(counts).map(([event, count]) => ` · ${event}: ${count}`).join('')}
+        </span>
+      </div>
+      {error && <div className="fhe-notice"><span>Indexer error: {error}</span></div>}
+
+      {recent.length === 0 ? (
+        <div className="no-records">
+          <p>No indexed events yet</p>
+        </div>
+      ) : (
+        recent.map(log => (
+          <div className="record-row" key={log.id}>
+            <div className="table-cell record-id">#{log.blockNumber}</div>
+            <div className="table-cell">{log.event}</div>
+            <div className="table-cell">{describeLog(log)}</div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
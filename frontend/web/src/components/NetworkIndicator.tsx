@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { EndpointHealth, getReadProvider, NetworkStatus, subscribeNetworkStatus } from '../network';
+
+const SLOW_LATENCY = 2000;
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const describeEndpoint = (endpoint: EndpointHealth) =>
+  `${hostOf(endpoint.url)} · score ${endpoint.score}` +
+  (endpoint.latency !== undefined ? ` · ${endpoint.latency}ms` : '') +
+  (endpoint.lastError ? ` · ${endpoint.lastError}` : '');
+
+export default function NetworkIndicator() {
+  const [status, setStatus] = useState<NetworkStatus | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    try {
+      const unsubscribe = subscribeNetworkStatus(setStatus);
+      getReadProvider()
+        .then(() => setError(''))
+        .catch(e => setError(e.message));
+      return unsubscribe;
+    } catch (e: any) {
+      setError(e.message);
+    }
+  }, []);
+
+  if (!status) {
+    return <span className="network-indicator status-badge critical" title={error}>Network misconfigured</span>;
+  }
+
+  const { profile, active, endpoints } = status;
+  const level = !active ? 'critical' : (active.latency ?? 0) > SLOW_LATENCY || active.failures > 0 ? 'warning' : 'normal';
+  const label = active ? hostOf(active.url) : error ? 'no RPC available' : 'connecting...';
+
+  return (
+    <span
+      className={`network-indicator status-badge ${level}`}
+      title={[`${profile.name} (chain ${profile.chainId})`, ...endpoints.map(describeEndpoint)].join('\n')}
+    >
+      {profile.name} · {label}
+      {active?.latency !== undefined && ` · ${active.latency}ms`}
+    </span>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { TrackedRequest } from '../predictionTracker';
+
+interface PredictionRequestsPanelProps {
+  requests: TrackedRequest[];
+  timeout: number;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export default function PredictionRequestsPanel({ requests, timeout }: PredictionRequestsPanelProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Re-render every second while something is still waiting on the oracle
+  const waiting = requests.some(request => request.status !== 'processed');
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  if (requests.length === 0) {
+    return (
+      <div className="records-list tech-card">
+        <div className="no-records">
+          <p>No decryption requests in this session</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="records-list tech-card">
+      <div className="table-header">
+        <div className="header-cell">Data</div>
+        <div className="header-cell">Equipment</div>
+        <div className="header-cell">Request Tx</div>
+        <div className="header-cell">Progress</div>
+        <div className="header-cell">Status</div>
+      </div>
+
+      {requests.map(request => {
+        const elapsed = now - request.requestedAt;
+        const progress = request.status === 'processed' ? 100 : Math.min(100, (elapsed / timeout) * 100);
+        return (
+          <div className="record-row" key={request.dataId}>
+            <div className="table-cell record-id">#{request.dataId}</div>
+            <div className="table-cell">{request.equipmentId}</div>
+            <div className="table-cell">{request.txHash.slice(0, 10)}...{request.txHash.slice(-6)}</div>
+            <div className="table-cell">
+              <div className="request-progress">
+                <div
+                  className={`request-progress-fill ${request.status === 'timeout' ? 'timeout' : ''}`}
+                  style={{ width: `${progress}%` }}
+                ></div>
+              </div>
+              {request.status === 'processed'
+                ? `RUL ${request.prediction?.predictedRUL} h`
+                : formatElapsed(elapsed)}
+            </div>
+            <div className="table-cell">
+              <span className={`status-badge ${request.status}`}>{request.status}</span>
+              {request.error && <span className="request-error" title={request.error}>{request.error}</span>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
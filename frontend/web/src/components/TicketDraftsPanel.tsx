@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { createTicket, getTicketsContractWithSigner } from '../tickets';
+import { TicketDraft } from '../ticketRules';
+
+interface TicketDraftsPanelProps {
+  drafts: TicketDraft[];
+  onCreated: () => Promise<void>;
+  onDismiss: (draft: TicketDraft) => void;
+}
+
+export default function TicketDraftsPanel({ drafts, onCreated, onDismiss }: TicketDraftsPanelProps) {
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [message, setMessage] = useState('');
+
+  // Stay visible after the last draft is filed so its outcome can be read
+  if (drafts.length === 0 && !message) return null;
+
+  const onCreate = async (draft: TicketDraft) => {
+    setBusyId(draft.dataId);
+    setMessage(`Opening ticket for ${draft.equipmentId}...`);
+    try {
+      const contract = await getTicketsContractWithSigner();
+      const ticketId = await createTicket(
+        contract,
+        draft.substationId,
+        draft.equipmentId,
+        draft.issue,
+        draft.priority,
+        draft.dataId
+      );
+      setMessage(`Ticket #${ticketId} opened for ${draft.equipmentId}`);
+      await onCreated();
+    } catch (e: any) {
+      setMessage(e.message?.includes('user rejected transaction')
+        ? 'Transaction rejected by user'
+        : `Ticket creation failed: ${e.reason || e.message || 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="records-list tech-card">
+      {drafts.length > 0 && (
+        <div className="table-header">
+          <div className="header-cell">Reading</div>
+          <div className="header-cell">Equipment</div>
+          <div className="header-cell">Suggested ticket</div>
+          <div className="header-cell">Priority</div>
+          <div className="header-cell">Actions</div>
+        </div>
+      )}
+
+      {drafts.map(draft => (
+        <div className="record-row" key={draft.dataId}>
+          <div className="table-cell record-id">#{draft.dataId}</div>
+          <div className="table-cell">{draft.equipmentId}</div>
+          <div className="table-cell">{draft.issue}</div>
+          <div className="table-cell">
+            <span className={`priority-badge ${draft.priority}`}>{draft.priority}</span>
+          </div>
+          <div className="table-cell">
+            <div className="header-actions">
+              <button
+                className="tech-button primary"
+                disabled={busyId !== null}
+                onClick={() => onCreate(draft)}
+              >
+                {busyId === draft.dataId ? 'Opening...' : 'Open Ticket'}
+              </button>
+              <button className="tech-button" disabled={busyId !== null} onClick={() => onDismiss(draft)}>
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {message && <div className="fhe-notice"><span>{message}</span></div>}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  getTicketsContractReadOnly,
+  getTicketsContractWithSigner,
+  assignTicket,
+  startTicket,
+  addWorkNote,
+  completeTicket,
+  cancelTicket,
+  getWorkNotes,
+  MaintenanceTicket,
+  TicketStatus,
+  WorkNote,
+  TICKET_STATUSES
+} from '../tickets';
+import HistoryPanel from './HistoryPanel';
+
+interface TicketsPanelProps {
+  account: string;
+  tickets: MaintenanceTicket[];
+  onUpdated: () => Promise<void>;
+}
+
+type StatusFilter = TicketStatus | 'all';
+
+const isClosed = (ticket: MaintenanceTicket) => ticket.status === 'completed' || ticket.status === 'cancelled';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function TicketsPanel({ account, tickets, onUpdated }: TicketsPanelProps) {
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [notes, setNotes] = useState<WorkNote[]>([]);
+  const [input, setInput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const visible = filter === 'all' ? tickets : tickets.filter(t => t.status === filter);
+  const selected = tickets.find(t => t.id === selectedId) || null;
+  const isAssignee = !!selected && !!account && selected.assignee.toLowerCase() === account.toLowerCase();
+
+  const loadNotes = async (ticketId: number) => {
+    const contract = await getTicketsContractReadOnly();
+    if (!contract) return;
+    setNotes(await getWorkNotes(contract, ticketId));
+  };
+
+  const onSelect = (ticketId: number) => {
+    if (selectedId === ticketId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(ticketId);
+    setNotes([]);
+    setInput('');
+    setMessage('');
+    setShowHistory(false);
+    loadNotes(ticketId).catch(e => console.error('Failed to load work notes:', e));
+  };
+
+  // Runs a signed lifecycle transaction; the contract decides whether it is allowed
+  const runTransaction = async (label: string, action: (contract: ethers.Contract) => Promise<unknown>) => {
+    if (!selected) return;
+    setBusy(true);
+    setMessage(`${label}...`);
+    try {
+      const contract = await getTicketsContractWithSigner();
+      await action(contract);
+      setMessage(`${label} confirmed`);
+      setInput('');
+      await onUpdated();
+      await loadNotes(selected.id);
+    } catch (e: any) {
+      setMessage(e.message?.includes('user rejected transaction')
+        ? 'Transaction rejected by user'
+        : `${label} failed: ${e.reason || e.message || 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Actions that take free text share the single input under the ticket
+  const requireInput = (what: string) => {
+    if (!input.trim()) {
+      setMessage(`Enter ${what} first`);
+      return false;
+    }
+    return true;
+  };
+
+  const onAssign = () => {
+    if (!ethers.isAddress(input)) {
+      setMessage('Enter a valid technician address');
+      return;
+    }
+    runTransaction('Assigning ticket', c => assignTicket(c, selected!.id, input));
+  };
+
+  const onNote = () => {
+    if (requireInput('a work note')) runTransaction('Adding work note', c => addWorkNote(c, selected!.id, input));
+  };
+
+  const onComplete = () => {
+    if (requireInput('a resolution')) runTransaction('Completing ticket', c => completeTicket(c, selected!.id, input));
+  };
+
+  const onCancel = () => {
+    if (requireInput('a cancellation reason')) runTransaction('Cancelling ticket', c => cancelTicket(c, selected!.id, input));
+  };
+
+  return (
+    <div className="records-list tech-card">
+      <div className="priority-selector">
+        {(['all', ...TICKET_STATUSES] as StatusFilter[]).map(status => (
+          <button
+            key={status}
+            className={`priority-option ${filter === status ? 'active' : ''}`}
+            onClick={() => setFilter(status)}
+          >
+            {status} ({status === 'all' ? tickets.length : tickets.filter(t => t.status === status).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="table-header">
+        <div className="header-cell">ID</div>
+        <div className="header-cell">Substation</div>
+        <div className="header-cell">Issue</div>
+        <div className="header-cell">Priority</div>
+        <div className="header-cell">Assignee</div>
+        <div className="header-cell">Status</div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="no-records">
+          <div className="no-records-icon"></div>
+          <p>No maintenance tickets found</p>
+        </div>
+      ) : (
+        visible.map(ticket => (
+          <React.Fragment key={ticket.id}>
+            <div className="record-row" onClick={() => onSelect(ticket.id)}>
+              <div className="table-cell record-id">#{ticket.id}</div>
+              <div className="table-cell">{ticket.substationId.substring(0, 8)}</div>
+              <div className="table-cell">{ticket.issue}</div>
+              <div className="table-cell">
+                <span className={`priority-badge ${ticket.priority}`}>
+                  {ticket.priority}
+                </span>
+              </div>
+              <div className="table-cell">{ticket.assignee ? shortAddress(ticket.assignee) : '-'}</div>
+              <div className="table-cell">
+                <span className={`status-badge ${ticket.status}`}>
+                  {ticket.status}
+                </span>
+              </div>
+            </div>
+
+            {selected && selected.id === ticket.id && (
+              <div className="ticket-details">
+                {ticket.equipmentId && <p>Equipment: {ticket.equipmentId}</p>}
+                <p>Opened by {shortAddress(ticket.creator)} on {new Date(ticket.created).toLocaleString()}</p>
+                {ticket.resolution && (
+                  <p>{ticket.status === 'cancelled' ? 'Cancelled' : 'Resolution'}: {ticket.resolution}</p>
+                )}
+
+                {notes.length > 0 && (
+                  <ul className="work-notes">
+                    {notes.map((note, i) => (
+                      <li key={i}>
+                        <span>{shortAddress(note.author)} · {new Date(note.timestamp).toLocaleString()}</span>
+                        <p>{note.text}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {account && !isClosed(ticket) && (
+                  <div className="form-group">
+                    <input
+                      type="text"
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      placeholder={ticket.status === 'pending' ? '0x... technician address, or a note' : 'Note, resolution or reason'}
+                      className="tech-input"
+                    />
+                    <div className="header-actions">
+                      {(ticket.status === 'pending' || ticket.status === 'assigned') && (
+                        <button className="tech-button" disabled={busy} onClick={onAssign}>Assign</button>
+                      )}
+                      {ticket.status === 'assigned' && isAssignee && (
+                        <button
+                          className="tech-button primary"
+                          disabled={busy}
+                          onClick={() => runTransaction('Starting work', c => startTicket(c, ticket.id))}
+                        >
+                          Start
+                        </button>
+                      )}
+                      <button className="tech-button" disabled={busy} onClick={onNote}>Add Note</button>
+                      {ticket.status === 'in-progress' && isAssignee && (
+                        <button className="tech-button primary" disabled={busy} onClick={onComplete}>Complete</button>
+                      )}
+                      <button className="tech-button" disabled={busy} onClick={onCancel}>Cancel Ticket</button>
+                    </div>
+                  </div>
+                )}
+
+                {message && <div className="fhe-notice"><span>{message}</span></div>}
+
+                <button className="tech-button" onClick={() => setShowHistory(!showHistory)}>
+                  {showHistory ? 'Hide History' : 'Show History'}
+                </button>
+                {showHistory && <HistoryPanel ticketId={ticket.id} />}
+              </div>
+            )}
+          </React.Fragment>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { getInjectedProvider, getNetworkProfile, toHexChainId } from '../network';
 
 interface WalletInfo {
   name: string;
@@ -273,10 +274,11 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     };
 
     // MetaMask
-    if (typeof (window as any).ethereum !== 'undefined' && (window as any).ethereum.isMetaMask) {
+    const ethereum = getInjectedProvider();
+    if (ethereum?.isMetaMask) {
       wallets.push({
         name: 'MetaMask',
-        provider: (window as any).ethereum,
+        provider: ethereum,
         icon: walletIcons['MetaMask'],
         isInstalled: true
       });
@@ -355,8 +357,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the configured network
+      await switchToNetwork(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,11 +367,13 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToNetwork = async (provider: any) => {
+    const profile = getNetworkProfile();
+    const chainId = toHexChainId(profile.chainId);
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId }],
       });
     } catch (switchError: any) {
       if (switchError.code === 4902) {
@@ -377,22 +381,19 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           await provider.request({
             method: 'wallet_addEthereumChain',
             params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
+              chainId,
+              chainName: profile.name,
               nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
+                name: profile.currencySymbol,
+                symbol: profile.currencySymbol,
                 decimals: 18
               },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
+              rpcUrls: profile.rpcUrls,
+              blockExplorerUrls: profile.blockExplorerUrl ? [profile.blockExplorerUrl] : undefined
             }]
           });
         } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
+          console.error(`Error adding ${profile.name} network:`, addError);
           // Don't throw, let the main app handle it
         }
       }
@@ -708,7 +709,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {getNetworkProfile().name}
           </div>
         </div>
       </div>
@@ -1,12 +1,34 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { DeployedContractName, getDeployment } from "./deployment";
+import { getInjectedProvider, getReadProvider } from "./network";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+// Resolved once at startup from deployments.json for the active network
+// profile; a chain without a deployment leaves every address empty
+const deployment = (() => {
+  try {
+    return getDeployment();
+  } catch (error) {
+    console.error("Failed to resolve the deployment:", error);
+    return null;
+  }
+})();
+
+// ABI from the deployment bundle, falling back to the copy exported by the ABI sync
+export const contractAbi = (name: DeployedContractName, fallback: ethers.JsonFragment[]) => deployment?.contracts[name]?.abi || fallback;
+
+export const ABI = contractAbi("UniversalAdapter", abiJson);
+export const config = {
+  chainId: deployment?.chainId ?? 0,
+  contractAddress: deployment?.contracts.UniversalAdapter?.address || "",
+  maintenanceAddress: deployment?.contracts.FHEPowerMaintenance?.address || "",
+  ticketsAddress: deployment?.contracts.MaintenanceTickets?.address || "",
+  deployBlock: deployment?.deployBlock ?? 0,
+  gitCommit: deployment?.gitCommit || ""
+};
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,41 +40,9 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
-      return provider;
-    } catch (error) {
-      console.warn(`RPC ${url} failed: ${error.message}`);
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
+    const provider = await getReadProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
@@ -68,11 +58,12 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
+  const ethereum = getInjectedProvider();
+  if (!ethereum) {
     throw new Error("No injected wallet");
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const provider = new ethers.BrowserProvider(ethereum);
     const signer = await provider.getSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
@@ -84,4 +75,4 @@ export async function getContractWithSigner() {
 
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+// deployment.ts
+import type { JsonFragment } from "ethers";
+import bundleJson from "./deployments.json";
+import { getNetworkProfile } from "./network";
+
+// deployments.json is the bundle written by deploy/deploy.ts: per chain, the
+// ABI, address and deploy block of every contract plus the git commit it was
+// deployed from. Nothing in here may touch DOM APIs, the Node indexer script
+// uses it too.
+
+export const BUNDLE_VERSION = 1;
+
+export const DEPLOYED_CONTRACTS = ["UniversalAdapter", "FHEPowerMaintenance", "MaintenanceTickets"] as const;
+export type DeployedContractName = typeof DEPLOYED_CONTRACTS[number];
+
+export interface DeployedContract {
+  address: string;
+  deployBlock: number;
+  abi: JsonFragment[];
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  network: string;
+  gitCommit: string;
+  // Earliest deploy block of the contracts, where event backfills start
+  deployBlock: number;
+  contracts: Partial<Record<DeployedContractName, DeployedContract>>;
+}
+
+export interface DeploymentBundle {
+  version: number;
+  chains: Record<string, ChainDeployment>;
+}
+
+const bundle = bundleJson as DeploymentBundle;
+
+// Deployment for `chainId`, defaulting to the active network profile
+export function getDeployment(chainId = getNetworkProfile().chainId): ChainDeployment | null {
+  if (bundle.version !== BUNDLE_VERSION) {
+    console.warn(`deployments.json has version ${bundle.version}, expected ${BUNDLE_VERSION}; redeploy to regenerate it`);
+    return null;
+  }
+  return bundle.chains[chainId] || null;
+}
@@ -0,0 +1,291 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance, RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/bundle";
+import { getInjectedProvider, getNetworkProfile, getReadProvider } from "./network";
+import { ChannelValues, MAX_INPUT_BITS, readingBits, scaleChannelValue, SensorChannel } from "./channels";
+
+// Sensor values are encrypted as euint32, so they are scaled to integers first:
+// temperature in 0.1 °C steps, vibration in 0.01 mm/s steps
+export const TEMPERATURE_SCALE = 10;
+export const VIBRATION_SCALE = 100;
+
+// One input proof covers at most 2048 bits: 32 temperature/vibration pairs.
+// Mirrors FHEPowerMaintenance.MAX_BATCH_SIZE.
+export const MAX_BATCH_SIZE = 32;
+
+// Anything able to build encrypted inputs: the relayer SDK instance in the browser,
+// or `hre.fhevm` from @fhevm/hardhat-plugin when running against the Hardhat mock
+export interface FhevmEncryptor {
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput;
+}
+
+// User decryption, offered by the same three implementations
+export type FhevmDecryptor = Pick<FhevmInstance, "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+export type FhevmClient = FhevmEncryptor & FhevmDecryptor;
+
+export interface SensorReadingInput {
+  temperature: number;
+  vibration: number;
+}
+
+export interface EncryptedSensorReading {
+  temperature: string;
+  vibration: string;
+  inputProof: string;
+}
+
+export interface EncryptedSensorReadings {
+  temperatures: string[];
+  vibrations: string[];
+  inputProof: string;
+}
+
+export interface EncryptedChannelReadings {
+  // Reading by reading, channels in the order given
+  handles: string[];
+  inputProof: string;
+}
+
+export interface EncryptedAlarmThreshold {
+  warning: string;
+  critical: string;
+  inputProof: string;
+}
+
+// How long a user decryption signature stays valid
+const DECRYPTION_DURATION_DAYS = 1;
+
+let encryptorPromise: Promise<FhevmClient> | null = null;
+
+const createRelayerInstance = async (): Promise<FhevmInstance> => {
+  const ethereum = getInjectedProvider();
+  if (!ethereum) {
+    throw new Error("No injected wallet");
+  }
+  // The bundle entry re-exports window.relayerSDK, loaded from the CDN script in index.html
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: ethereum });
+};
+
+// ERC-5267 domain of the FHEVM verifier contracts
+const EIP712_DOMAIN_ABI = [
+  "function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])"
+];
+
+// Against a local `hardhat node` the plugin serves the relayer endpoints over
+// JSON-RPC, so encryption goes through @fhevm/mock-utils instead of the SDK
+const createMockInstance = async (): Promise<FhevmClient> => {
+  const provider = await getReadProvider();
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const domainOf = async (address: string) => {
+    const [, , , chainId, verifyingContract] = await new ethers.Contract(address, EIP712_DOMAIN_ABI, provider).eip712Domain();
+    return { chainId: Number(chainId), verifyingContract: verifyingContract as string };
+  };
+  const [decryption, inputVerification] = await Promise.all([
+    domainOf(metadata.KMSVerifierAddress),
+    domainOf(metadata.InputVerifierAddress)
+  ]);
+
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: getNetworkProfile().chainId,
+    gatewayChainId: inputVerification.chainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: decryption.verifyingContract,
+    verifyingContractAddressInputVerification: inputVerification.verifyingContract
+  });
+};
+
+// Lazily initializes the relayer SDK (or the local mock) once and reuses the instance afterwards
+export function getEncryptor(): Promise<FhevmClient> {
+  if (!encryptorPromise) {
+    const create = getNetworkProfile().id === "local" ? createMockInstance : createRelayerInstance;
+    encryptorPromise = create().catch((error) => {
+      encryptorPromise = null;
+      throw error;
+    });
+  }
+  return encryptorPromise;
+}
+
+// Mock mode: route encryption through a pre-built encryptor such as `hre.fhevm`
+export function setMockEncryptor(encryptor: FhevmClient | null) {
+  encryptorPromise = encryptor ? Promise.resolve(encryptor) : null;
+}
+
+// The local node has no decryption oracle relayer; ask the plugin to answer
+// pending decryption requests right away. A no-op on every other network.
+export async function fulfillMockDecryptions() {
+  if (getNetworkProfile().id !== "local") return;
+  const provider = await getReadProvider();
+  await provider.send("fhevm_awaitDecryptionOracle", []);
+}
+
+export function scaleReading(reading: SensorReadingInput) {
+  const toUint32 = (value: number, scale: number) => {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid sensor value: ${value}`);
+    }
+    return Math.min(Math.max(Math.round(value * scale), 0), 0xffffffff);
+  };
+  return {
+    temperature: toUint32(reading.temperature, TEMPERATURE_SCALE),
+    vibration: toUint32(reading.vibration, VIBRATION_SCALE)
+  };
+}
+
+// Builds one encrypted input holding temperature and vibration, bound to the
+// target contract and the submitting account
+export async function encryptSensorReading(
+  contractAddress: string,
+  userAddress: string,
+  reading: SensorReadingInput,
+  encryptor?: FhevmEncryptor
+): Promise<EncryptedSensorReading> {
+  const encrypted = await encryptSensorReadings(contractAddress, userAddress, [reading], encryptor);
+  return {
+    temperature: encrypted.temperatures[0],
+    vibration: encrypted.vibrations[0],
+    inputProof: encrypted.inputProof
+  };
+}
+
+// Encrypts several readings into a single input, so one proof covers the batch
+export async function encryptSensorReadings(
+  contractAddress: string,
+  userAddress: string,
+  readings: SensorReadingInput[],
+  encryptor?: FhevmEncryptor
+): Promise<EncryptedSensorReadings> {
+  if (readings.length === 0 || readings.length > MAX_BATCH_SIZE) {
+    throw new Error(`A batch holds 1 to ${MAX_BATCH_SIZE} readings, got ${readings.length}`);
+  }
+  const fhevm = encryptor || (await getEncryptor());
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const reading of readings) {
+    const scaled = scaleReading(reading);
+    input.add32(scaled.temperature).add32(scaled.vibration);
+  }
+  const encrypted = await input.encrypt();
+
+  const handles = encrypted.handles.map(handle => ethers.hexlify(handle));
+  return {
+    temperatures: handles.filter((_, i) => i % 2 === 0),
+    vibrations: handles.filter((_, i) => i % 2 === 1),
+    inputProof: ethers.hexlify(encrypted.inputProof)
+  };
+}
+
+// Encrypts readings of arbitrary registered channels into a single input. Every
+// reading needs a value for each channel; the whole batch has to fit in one proof.
+export async function encryptChannelReadings(
+  contractAddress: string,
+  userAddress: string,
+  channels: SensorChannel[],
+  readings: ChannelValues[],
+  encryptor?: FhevmEncryptor
+): Promise<EncryptedChannelReadings> {
+  if (channels.length === 0) {
+    throw new Error("Select at least one channel");
+  }
+  if (readings.length === 0 || readings.length > MAX_BATCH_SIZE) {
+    throw new Error(`A batch holds 1 to ${MAX_BATCH_SIZE} readings, got ${readings.length}`);
+  }
+  const bits = readingBits(channels) * readings.length;
+  if (bits > MAX_INPUT_BITS) {
+    throw new Error(`Batch needs ${bits} encrypted bits, one input holds ${MAX_INPUT_BITS}`);
+  }
+  const fhevm = encryptor || (await getEncryptor());
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const values of readings) {
+    for (const channel of channels) {
+      if (values[channel.id] === undefined) {
+        throw new Error(`Missing ${channel.name} value`);
+      }
+      addChannelValue(input, channel, values[channel.id]);
+    }
+  }
+  const encrypted = await input.encrypt();
+
+  return {
+    handles: encrypted.handles.map(handle => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(encrypted.inputProof)
+  };
+}
+
+// Adds a plaintext channel value to the input with the channel's scale and type
+function addChannelValue(input: RelayerEncryptedInput, channel: SensorChannel, value: number) {
+  const scaled = scaleChannelValue(channel, value);
+  switch (channel.valueType) {
+    case "euint8": input.add8(scaled); break;
+    case "euint16": input.add16(scaled); break;
+    case "euint32": input.add32(scaled); break;
+    case "euint64": input.add64(scaled); break;
+  }
+}
+
+// Encrypts an asset's warning and critical thresholds for one channel, in the
+// channel's units, so the contract can compare readings against them
+export async function encryptAlarmThreshold(
+  contractAddress: string,
+  userAddress: string,
+  channel: SensorChannel,
+  warning: number,
+  critical: number,
+  encryptor?: FhevmEncryptor
+): Promise<EncryptedAlarmThreshold> {
+  if (critical < warning) {
+    throw new Error(`${channel.name} critical threshold is below the warning threshold`);
+  }
+  const fhevm = encryptor || (await getEncryptor());
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  addChannelValue(input, channel, warning);
+  addChannelValue(input, channel, critical);
+  const encrypted = await input.encrypt();
+
+  return {
+    warning: ethers.hexlify(encrypted.handles[0]),
+    critical: ethers.hexlify(encrypted.handles[1]),
+    inputProof: ethers.hexlify(encrypted.inputProof)
+  };
+}
+
+// Decrypts handles of `contractAddress` that the signer has been allowed to read.
+// The signer signs one EIP-712 request for the whole set.
+export async function userDecryptHandles(
+  contractAddress: string,
+  handles: string[],
+  signer: ethers.Signer,
+  decryptor?: FhevmDecryptor
+): Promise<bigint[]> {
+  if (handles.length === 0) return [];
+  const fhevm = decryptor || (await getEncryptor());
+
+  const keypair = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await fhevm.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    DECRYPTION_DURATION_DAYS
+  );
+  return handles.map(handle => BigInt(results[handle] as bigint));
+}
@@ -0,0 +1,78 @@
+// indexer/browserStore.ts
+import { IndexedLog, IndexerState, IndexerStore } from "./core";
+
+const LOGS = "logs";
+const META = "meta";
+const STATE_KEY = "state";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDatabase(name: string) {
+  const req = indexedDB.open(name, 1);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    const logs = db.createObjectStore(LOGS, { keyPath: "id" });
+    logs.createIndex("blockNumber", "blockNumber");
+    db.createObjectStore(META);
+  };
+  return request(req);
+}
+
+// One database per chain and contract set, so switching networks never mixes logs
+export function indexerDatabaseName(chainId: number, addresses: string[]) {
+  return `gridguard-indexer-${chainId}-${addresses.map(a => a.toLowerCase().slice(2, 10)).join("-")}`;
+}
+
+export function createIndexedDbStore(name: string): IndexerStore {
+  const dbPromise = openDatabase(name);
+
+  return {
+    async loadState() {
+      const db = await dbPromise;
+      const state = await request(db.transaction(META).objectStore(META).get(STATE_KEY));
+      return (state as IndexerState | undefined) || null;
+    },
+
+    async saveBatch(logs, state) {
+      const db = await dbPromise;
+      const tx = db.transaction([LOGS, META], "readwrite");
+      const store = tx.objectStore(LOGS);
+      logs.forEach(log => store.put(log));
+      tx.objectStore(META).put(state, STATE_KEY);
+      await done(tx);
+    },
+
+    async rewind(blockNumber, state) {
+      const db = await dbPromise;
+      const tx = db.transaction([LOGS, META], "readwrite");
+      const range = IDBKeyRange.lowerBound(blockNumber, true);
+      const cursors = tx.objectStore(LOGS).index("blockNumber").openCursor(range);
+      cursors.onsuccess = () => {
+        const cursor = cursors.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      tx.objectStore(META).put(state, STATE_KEY);
+      await done(tx);
+    },
+
+    async getLogs() {
+      const db = await dbPromise;
+      const logs = await request(db.transaction(LOGS).objectStore(LOGS).index("blockNumber").getAll());
+      return (logs as IndexedLog[]).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    }
+  };
+}
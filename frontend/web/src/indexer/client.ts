@@ -0,0 +1,76 @@
+// indexer/client.ts
+import { ABI, config } from "../contract";
+import { MAINTENANCE_ABI } from "../maintenance";
+import { getNetworkStatus, getReadProvider } from "../network";
+import { IndexedContract, IndexedLog, IndexerProgress, INDEXED_EVENTS } from "./core";
+import { createIndexedDbStore, indexerDatabaseName } from "./browserStore";
+import type { IndexerWorkerMessage, StartIndexerMessage } from "./indexer.worker";
+
+export function getIndexedContracts(): IndexedContract[] {
+  const contracts: IndexedContract[] = [];
+  if (config.contractAddress) {
+    contracts.push({
+      address: config.contractAddress,
+      abi: ABI,
+      events: INDEXED_EVENTS.adapter
+    });
+  }
+  if (config.maintenanceAddress) {
+    contracts.push({
+      address: config.maintenanceAddress,
+      abi: MAINTENANCE_ABI,
+      events: INDEXED_EVENTS.maintenance
+    });
+  }
+  return contracts;
+}
+
+const databaseName = () =>
+  indexerDatabaseName(config.chainId, getIndexedContracts().map(c => c.address));
+
+// Runs the indexer in a worker so backfills never block the dashboard
+export function startIndexerWorker(
+  onProgress: (progress: IndexerProgress) => void,
+  onError?: (message: string) => void
+) {
+  const contracts = getIndexedContracts();
+  if (contracts.length === 0) {
+    return () => {};
+  }
+
+  const worker = new Worker(new URL("./indexer.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<IndexerWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === "progress") {
+      const { type: _, ...progress } = message;
+      onProgress(progress);
+    } else {
+      onError?.(message.message);
+    }
+  };
+
+  // The worker gets its own provider on whichever endpoint is currently healthiest
+  getReadProvider()
+    .then(() => {
+      const start: StartIndexerMessage = {
+        type: "start",
+        rpcUrl: getNetworkStatus().active!.url,
+        chainId: config.chainId,
+        databaseName: databaseName(),
+        contracts,
+        startBlock: config.deployBlock
+      };
+      worker.postMessage(start);
+    })
+    .catch(e => onError?.(e.message));
+
+  return () => {
+    worker.postMessage({ type: "stop" });
+    worker.terminate();
+  };
+}
+
+// Logs the worker has persisted so far, oldest first
+export function getIndexedLogs(): Promise<IndexedLog[]> {
+  return createIndexedDbStore(databaseName()).getLogs();
+}
@@ -0,0 +1,221 @@
+// indexer/core.ts
+import { ethers } from "ethers";
+
+// Storage-agnostic log indexer shared by the browser worker (IndexedDB) and the
+// Node script (JSON file). Nothing in here may touch DOM or Node APIs.
+
+export interface IndexedLog {
+  // `${blockNumber}-${logIndex}`, unique per chain
+  id: string;
+  address: string;
+  event: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // Decoded event arguments; integers are kept as decimal strings
+  args: Record<string, string>;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerState {
+  lastBlock: number;
+  // Hashes of recently indexed range ends, newest last, used to detect reorgs
+  checkpoints: Checkpoint[];
+}
+
+export interface IndexerStore {
+  loadState(): Promise<IndexerState | null>;
+  // Must persist the logs and the new state atomically
+  saveBatch(logs: IndexedLog[], state: IndexerState): Promise<void>;
+  // Drops logs above `blockNumber` and rewinds the state to it
+  rewind(blockNumber: number, state: IndexerState): Promise<void>;
+  getLogs(): Promise<IndexedLog[]>;
+}
+
+export interface IndexerSnapshot {
+  state: IndexerState | null;
+  logs: IndexedLog[];
+}
+
+// In-memory store; `persist` is called with the full snapshot after every
+// change, which is how the Node script writes its JSON file
+export function createMemoryStore(
+  initial?: IndexerSnapshot,
+  persist?: (snapshot: IndexerSnapshot) => Promise<void>
+): IndexerStore {
+  let snapshot: IndexerSnapshot = initial || { state: null, logs: [] };
+
+  const commit = async (next: IndexerSnapshot) => {
+    snapshot = next;
+    if (persist) await persist(snapshot);
+  };
+
+  return {
+    async loadState() {
+      return snapshot.state;
+    },
+    async saveBatch(logs, state) {
+      const known = new Set(snapshot.logs.map(log => log.id));
+      await commit({ state, logs: [...snapshot.logs, ...logs.filter(log => !known.has(log.id))] });
+    },
+    async rewind(blockNumber, state) {
+      await commit({ state, logs: snapshot.logs.filter(log => log.blockNumber <= blockNumber) });
+    },
+    async getLogs() {
+      return snapshot.logs;
+    }
+  };
+}
+
+export interface IndexedContract {
+  address: string;
+  abi: ethers.InterfaceAbi;
+  events: string[];
+}
+
+export interface IndexerOptions {
+  provider: ethers.Provider;
+  store: IndexerStore;
+  contracts: IndexedContract[];
+  // First block to backfill from, typically the deployment block
+  startBlock: number;
+  // Block span per eth_getLogs call; public RPCs reject large ranges
+  batchSize?: number;
+  onProgress?: (progress: IndexerProgress) => void;
+}
+
+export interface IndexerProgress {
+  lastBlock: number;
+  head: number;
+  newLogs: number;
+  rewoundTo?: number;
+}
+
+export const DEFAULT_BATCH_SIZE = 2000;
+const MAX_CHECKPOINTS = 32;
+
+// Everything the indexer watches by default
+export const INDEXED_EVENTS = {
+  adapter: ["DataStored"],
+  maintenance: ["DataSubmitted", "PredictionRequested", "PredictionProcessed"]
+};
+
+function decodeArgs(fragment: ethers.EventFragment, values: ethers.Result) {
+  const args: Record<string, string> = {};
+  fragment.inputs.forEach((input, i) => {
+    const value = values[i];
+    args[input.name || `${i}`] = typeof value === "bigint" ? value.toString() : `${value}`;
+  });
+  return args;
+}
+
+function decodeLogs(logs: readonly ethers.Log[], contracts: IndexedContract[]): IndexedLog[] {
+  const interfaces = new Map(contracts.map(c => [c.address.toLowerCase(), { ...c, iface: ethers.Interface.from(c.abi) }]));
+  const decoded: IndexedLog[] = [];
+  for (const log of logs) {
+    const contract = interfaces.get(log.address.toLowerCase());
+    if (!contract) continue;
+    const parsed = contract.iface.parseLog(log);
+    if (!parsed || !contract.events.includes(parsed.name)) continue;
+
+    decoded.push({
+      id: `${log.blockNumber}-${log.index}`,
+      address: log.address,
+      event: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args: decodeArgs(parsed.fragment, parsed.args)
+    });
+  }
+  return decoded;
+}
+
+// Walks checkpoints newest first and returns the newest one still on the
+// canonical chain, or null if all of them were reorged away
+async function findCommonCheckpoint(provider: ethers.Provider, checkpoints: Checkpoint[]) {
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const block = await provider.getBlock(checkpoints[i].blockNumber);
+    if (block && block.hash === checkpoints[i].blockHash) {
+      return i;
+    }
+  }
+  return null;
+}
+
+// Brings the store up to the current head once, resuming from the last indexed block
+export async function syncOnce(options: IndexerOptions): Promise<IndexerProgress> {
+  const { provider, store, contracts } = options;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  let state = (await store.loadState()) || { lastBlock: options.startBlock - 1, checkpoints: [] };
+  let rewoundTo: number | undefined;
+
+  if (state.checkpoints.length > 0) {
+    const common = await findCommonCheckpoint(provider, state.checkpoints);
+    const latest = state.checkpoints.length - 1;
+    if (common !== latest) {
+      const checkpoints = common === null ? [] : state.checkpoints.slice(0, common + 1);
+      const lastBlock = common === null ? options.startBlock - 1 : checkpoints[common].blockNumber;
+      state = { lastBlock, checkpoints };
+      await store.rewind(lastBlock, state);
+      rewoundTo = lastBlock;
+    }
+  }
+
+  const head = await provider.getBlockNumber();
+  let newLogs = 0;
+
+  for (let fromBlock = state.lastBlock + 1; fromBlock <= head; fromBlock += batchSize) {
+    const toBlock = Math.min(fromBlock + batchSize - 1, head);
+    const [logs, block] = await Promise.all([
+      provider.getLogs({ address: contracts.map(c => c.address), fromBlock, toBlock }),
+      provider.getBlock(toBlock)
+    ]);
+    if (!block || !block.hash) {
+      throw new Error(`Block ${toBlock} not available`);
+    }
+
+    const decoded = decodeLogs(logs, contracts);
+    state = {
+      lastBlock: toBlock,
+      checkpoints: [...state.checkpoints, { blockNumber: toBlock, blockHash: block.hash }].slice(-MAX_CHECKPOINTS)
+    };
+    await store.saveBatch(decoded, state);
+    newLogs += decoded.length;
+
+    options.onProgress?.({ lastBlock: toBlock, head, newLogs, rewoundTo });
+  }
+
+  return { lastBlock: state.lastBlock, head, newLogs, rewoundTo };
+}
+
+// Keeps syncing every `interval` ms until the returned stop function is called
+export function startIndexer(options: IndexerOptions, interval = 15000) {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      const progress = await syncOnce(options);
+      options.onProgress?.(progress);
+    } catch (error) {
+      console.error("Indexer sync failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, interval);
+    }
+  };
+  tick();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,45 @@
+// indexer/indexer.worker.ts
+import { ethers } from "ethers";
+import { IndexedContract, startIndexer } from "./core";
+import { createIndexedDbStore } from "./browserStore";
+
+export interface StartIndexerMessage {
+  type: "start";
+  rpcUrl: string;
+  chainId: number;
+  databaseName: string;
+  contracts: IndexedContract[];
+  startBlock: number;
+  interval?: number;
+}
+
+export type IndexerWorkerMessage =
+  | { type: "progress"; lastBlock: number; head: number; newLogs: number; rewoundTo?: number }
+  | { type: "error"; message: string };
+
+let stop: (() => void) | null = null;
+
+const post = (message: IndexerWorkerMessage) => (self as any).postMessage(message);
+
+self.onmessage = (event: MessageEvent<StartIndexerMessage | { type: "stop" }>) => {
+  const message = event.data;
+  stop?.();
+  stop = null;
+  if (message.type !== "start") return;
+
+  try {
+    const provider = new ethers.JsonRpcProvider(message.rpcUrl, message.chainId, { staticNetwork: true });
+    stop = startIndexer(
+      {
+        provider,
+        store: createIndexedDbStore(message.databaseName),
+        contracts: message.contracts,
+        startBlock: message.startBlock,
+        onProgress: progress => post({ type: "progress", ...progress })
+      },
+      message.interval
+    );
+  } catch (e: any) {
+    post({ type: "error", message: e.message || "Indexer failed to start" });
+  }
+};
@@ -1,9 +1,28 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { getNetworkProfile } from "./network";
+
+// The network profile is validated once at startup; a misconfigured build shows
+// the error instead of crashing the first component that reads the profile
+const profileError = (() => {
+  try {
+    getNetworkProfile();
+    return "";
+  } catch (error: any) {
+    return error.message || "Invalid network configuration";
+  }
+})();
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <App />
+    {profileError ? (
+      <div className="loading-screen">
+        <p>Network configuration error</p>
+        <p>{profileError}</p>
+      </div>
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 );
@@ -0,0 +1,474 @@
+// maintenance.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/FHEPowerMaintenance.json";
+import { config, contractAbi, retry } from "./contract";
+import { getInjectedProvider, getReadProvider } from "./network";
+import { ChannelValues, SensorChannel } from "./channels";
+import { getRole, Role } from "./registry";
+import {
+  encryptAlarmThreshold,
+  encryptChannelReadings,
+  encryptSensorReading,
+  fulfillMockDecryptions,
+  SensorReadingInput,
+  userDecryptHandles
+} from "./fhe";
+import type { FHEPowerMaintenance } from "../../../types";
+import { FHEPowerMaintenance__factory } from "../../../types/factories/contracts/FHEPowerMaintenance__factory";
+
+export const MAINTENANCE_ABI = contractAbi("FHEPowerMaintenance", abiJson);
+
+// Typed with the committed typechain bindings. The factory carries the compiled
+// ABI, which the ABI sync keeps equal to the one in the deployment bundle.
+export function connectMaintenance(address: string, runner: ethers.ContractRunner): FHEPowerMaintenance {
+  return FHEPowerMaintenance__factory.connect(address, runner);
+}
+
+// Mirrors FHEPowerMaintenance.EquipmentKind; the array index is the enum value
+export const EQUIPMENT_KINDS = ["transformer", "breaker", "line"] as const;
+export type EquipmentKind = typeof EQUIPMENT_KINDS[number];
+
+export interface Equipment {
+  id: string;
+  substationId: string;
+  name: string;
+  kind: EquipmentKind;
+  readingCount: number;
+}
+
+// Encrypted sensor reading as stored on-chain: one ciphertext handle per channel
+export interface EncryptedReading {
+  id: number;
+  equipmentId: string;
+  channels: Record<string, string>;
+  // Block time of the submission, in ms
+  timestamp: number;
+}
+
+// A plaintext reading of the channels in `values`, before encryption
+export interface ChannelReading {
+  equipmentId: string;
+  values: ChannelValues;
+}
+
+// Mirrors FHEPowerMaintenance.DecryptionStatus; the array index is the enum value
+export const DECRYPTION_STATUSES = ["none", "pending", "completed"] as const;
+export type DecryptionStatus = typeof DECRYPTION_STATUSES[number];
+
+// Mirrors FHEPowerMaintenance.COUNT_DECRYPTION_TIMEOUT, in seconds: a pending
+// count decryption older than this may be requested again
+export const COUNT_DECRYPTION_TIMEOUT = 3600;
+
+// Last plaintext equipment count released by the decryption oracle. While a new
+// request is pending, count and revealedAt still hold the previous result
+export interface EquipmentCountReveal {
+  equipmentId: string;
+  status: DecryptionStatus;
+  requestId: string;
+  count: number;
+  revealedAt: number;
+  requestedAt: number;
+}
+
+// A pending request the oracle never answered; the contract accepts a new one
+export const isCountRevealStalled = (reveal: EquipmentCountReveal, now = Date.now()) =>
+  reveal.status === "pending" && now >= (reveal.requestedAt + COUNT_DECRYPTION_TIMEOUT) * 1000;
+
+export interface Prediction {
+  dataId: number;
+  equipmentId: string;
+  predictedRUL: number;
+  isProcessed: boolean;
+}
+
+// "no-prediction" means no RUL has been decrypted for the asset yet
+export type HealthStatus = "no-prediction" | "normal" | "warning" | "critical";
+
+export interface RULThresholds {
+  warning: number;
+  critical: number;
+}
+
+// Remaining useful life, in hours, below which each class of asset needs attention;
+// transformers get the widest margin because replacements have long lead times
+export const RUL_THRESHOLDS: Record<EquipmentKind, RULThresholds> = {
+  transformer: { warning: 5000, critical: 2000 },
+  breaker: { warning: 2000, critical: 500 },
+  line: { warning: 3000, critical: 1000 }
+};
+
+export function statusFromPrediction(kind: EquipmentKind, prediction: Prediction | null | undefined): HealthStatus {
+  if (!prediction || !prediction.isProcessed) return "no-prediction";
+  const thresholds = RUL_THRESHOLDS[kind];
+  if (prediction.predictedRUL < thresholds.critical) return "critical";
+  if (prediction.predictedRUL < thresholds.warning) return "warning";
+  return "normal";
+}
+
+// Mirrors the encrypted alarm level FHEPowerMaintenance computes for every reading
+// of an asset with thresholds: 0 normal, 1 warning, 2 critical
+export const ALARM_LEVELS = ["normal", "warning", "critical"] as const;
+export type AlarmLevel = typeof ALARM_LEVELS[number];
+
+export async function getMaintenanceContractReadOnly() {
+  if (!config.maintenanceAddress) {
+    console.warn("FHEPowerMaintenance address is not configured");
+    return null;
+  }
+  try {
+    const provider = await getReadProvider();
+    const contract = connectMaintenance(config.maintenanceAddress, provider);
+
+    const code = await retry(() => provider.getCode(config.maintenanceAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only maintenance contract:", error);
+    return null;
+  }
+}
+
+export async function getMaintenanceContractWithSigner() {
+  const ethereum = getInjectedProvider();
+  if (!ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.maintenanceAddress) {
+    throw new Error("FHEPowerMaintenance address is not configured");
+  }
+  try {
+    const provider = new ethers.BrowserProvider(ethereum);
+    const signer = await provider.getSigner();
+    return connectMaintenance(config.maintenanceAddress, signer);
+  } catch (error) {
+    console.error("Failed to create maintenance contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function registerEquipment(
+  contract: FHEPowerMaintenance,
+  equipment: Omit<Equipment, "readingCount">
+) {
+  const tx = await contract.registerEquipment(
+    equipment.id,
+    equipment.substationId,
+    equipment.name,
+    EQUIPMENT_KINDS.indexOf(equipment.kind)
+  );
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function getEquipment(contract: FHEPowerMaintenance, equipmentId: string): Promise<Equipment> {
+  const [substationId, name, kind, readingCount] = await contract.getEquipment(equipmentId);
+  return {
+    id: equipmentId,
+    substationId,
+    name,
+    kind: EQUIPMENT_KINDS[Number(kind)],
+    readingCount: Number(readingCount)
+  };
+}
+
+export async function listEquipment(contract: FHEPowerMaintenance): Promise<Equipment[]> {
+  const ids: string[] = await contract.getEquipmentIds();
+  return Promise.all(ids.map(id => getEquipment(contract, id)));
+}
+
+export async function getEquipmentReadingIds(contract: FHEPowerMaintenance, equipmentId: string): Promise<number[]> {
+  const ids: bigint[] = await contract.getEquipmentReadings(equipmentId);
+  return ids.map(id => Number(id));
+}
+
+// Latest processed prediction for an asset, or null if none has landed yet
+export async function getLatestPrediction(contract: FHEPowerMaintenance, equipmentId: string): Promise<Prediction | null> {
+  const dataId = Number(await contract.latestPredictionId(equipmentId));
+  return dataId === 0 ? null : getPrediction(contract, dataId);
+}
+
+// Submits encrypted handles with their input proof and resolves with the new data id
+export async function submitSensorData(
+  contract: FHEPowerMaintenance,
+  equipmentId: string,
+  encryptedTemperature: ethers.BytesLike,
+  encryptedVibration: ethers.BytesLike,
+  inputProof: ethers.BytesLike
+): Promise<number> {
+  const tx = await contract.submitEncryptedSensorData(equipmentId, encryptedTemperature, encryptedVibration, inputProof);
+  const receipt = (await tx.wait())!;
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed && parsed.name === "DataSubmitted") {
+      return Number(parsed.args.id);
+    }
+  }
+  throw new Error("DataSubmitted event not found in receipt");
+}
+
+// Encrypts a plaintext reading client-side and submits only the ciphertext handles
+export async function submitEncryptedReading(
+  contract: FHEPowerMaintenance,
+  userAddress: string,
+  equipmentId: string,
+  reading: SensorReadingInput
+): Promise<number> {
+  const encrypted = await encryptSensorReading(await contract.getAddress(), userAddress, reading);
+  return submitSensorData(contract, equipmentId, encrypted.temperature, encrypted.vibration, encrypted.inputProof);
+}
+
+// Submits readings encrypted under one input proof; resolves with their data ids in order
+export async function submitSensorDataBatch(
+  contract: FHEPowerMaintenance,
+  equipmentIds: string[],
+  encryptedTemperatures: ethers.BytesLike[],
+  encryptedVibrations: ethers.BytesLike[],
+  inputProof: ethers.BytesLike
+): Promise<number[]> {
+  const tx = await contract.submitEncryptedSensorDataBatch(
+    equipmentIds,
+    encryptedTemperatures,
+    encryptedVibrations,
+    inputProof
+  );
+  return dataIdsFromReceipt(contract, (await tx.wait())!, equipmentIds.length);
+}
+
+// Data ids from the DataSubmitted events of a batch submission, in order
+function dataIdsFromReceipt(contract: FHEPowerMaintenance, receipt: ethers.TransactionReceipt, expected: number) {
+  const dataIds: number[] = [];
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed && parsed.name === "DataSubmitted") {
+      dataIds.push(Number(parsed.args.id));
+    }
+  }
+  if (dataIds.length !== expected) {
+    throw new Error(`Expected ${expected} DataSubmitted events, found ${dataIds.length}`);
+  }
+  return dataIds;
+}
+
+// Submits readings of any registered channels; `handles` are ordered reading by reading
+export async function submitChannelData(
+  contract: FHEPowerMaintenance,
+  equipmentIds: string[],
+  channelIds: string[],
+  handles: ethers.BytesLike[],
+  inputProof: ethers.BytesLike
+): Promise<number[]> {
+  const tx = await contract.submitEncryptedChannelData(equipmentIds, channelIds, handles, inputProof);
+  return dataIdsFromReceipt(contract, (await tx.wait())!, equipmentIds.length);
+}
+
+// Encrypts readings of `channels` under one proof and submits them in one transaction
+export async function submitEncryptedChannelReadings(
+  contract: FHEPowerMaintenance,
+  userAddress: string,
+  channels: SensorChannel[],
+  readings: ChannelReading[]
+): Promise<number[]> {
+  const encrypted = await encryptChannelReadings(
+    await contract.getAddress(),
+    userAddress,
+    channels,
+    readings.map(r => r.values)
+  );
+  return submitChannelData(
+    contract,
+    readings.map(r => r.equipmentId),
+    channels.map(c => c.id),
+    encrypted.handles,
+    encrypted.inputProof
+  );
+}
+
+export async function requestPrediction(contract: FHEPowerMaintenance, dataId: number) {
+  const tx = await contract.requestPrediction(dataId);
+  const receipt = (await tx.wait()) as ethers.TransactionReceipt;
+  await fulfillMockDecryptions();
+  return receipt;
+}
+
+export async function getPrediction(contract: FHEPowerMaintenance, dataId: number): Promise<Prediction> {
+  const [equipmentId, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+  return {
+    dataId,
+    equipmentId,
+    predictedRUL: Number(predictedRUL),
+    isProcessed
+  };
+}
+
+// Polls getPrediction until the oracle callback has landed or the timeout expires
+export async function waitForPrediction(
+  contract: FHEPowerMaintenance,
+  dataId: number,
+  timeout = 120000,
+  interval = 5000
+): Promise<Prediction> {
+  const deadline = Date.now() + timeout;
+  while (true) {
+    const prediction = await getPrediction(contract, dataId);
+    if (prediction.isProcessed) {
+      return prediction;
+    }
+    if (Date.now() + interval > deadline) {
+      throw new Error(`Prediction for data #${dataId} not processed within ${timeout / 1000}s`);
+    }
+    await new Promise(res => setTimeout(res, interval));
+  }
+}
+
+export async function getDataCount(contract: FHEPowerMaintenance): Promise<number> {
+  return Number(await contract.dataCount());
+}
+
+export async function getEncryptedReading(contract: FHEPowerMaintenance, dataId: number): Promise<EncryptedReading> {
+  const data = await contract.encryptedData(dataId);
+  const [ids, handles]: [string[], string[]] = await contract.getReadingChannels(dataId);
+  return {
+    id: Number(data.id),
+    equipmentId: data.equipmentId,
+    channels: Object.fromEntries(ids.map((id, i) => [id, handles[i]])),
+    timestamp: Number(data.timestamp) * 1000
+  };
+}
+
+export async function listEncryptedReadings(contract: FHEPowerMaintenance): Promise<EncryptedReading[]> {
+  const count = await getDataCount(contract);
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(id => getEncryptedReading(contract, id)));
+}
+
+// Equipment counts stay encrypted; this returns the euint32 handle
+export async function getEncryptedEquipmentCount(contract: FHEPowerMaintenance, equipmentId: string): Promise<string> {
+  return contract.getEncryptedEquipmentCount(equipmentId);
+}
+
+export async function requestEquipmentCountDecryption(contract: FHEPowerMaintenance, equipmentId: string) {
+  const tx = await contract.requestEquipmentCountDecryption(equipmentId);
+  const receipt = (await tx.wait()) as ethers.TransactionReceipt;
+  await fulfillMockDecryptions();
+  return receipt;
+}
+
+export async function getEquipmentCountReveal(
+  contract: FHEPowerMaintenance,
+  equipmentId: string
+): Promise<EquipmentCountReveal> {
+  const [status, requestId, count, revealedAt, requestedAt] = await contract.getEquipmentCountReveal(equipmentId);
+  return {
+    equipmentId,
+    status: DECRYPTION_STATUSES[Number(status)],
+    requestId: requestId.toString(),
+    count: Number(count),
+    revealedAt: Number(revealedAt),
+    requestedAt: Number(requestedAt)
+  };
+}
+
+// Polls getEquipmentCountReveal until the pending request has been answered
+export async function waitForEquipmentCount(
+  contract: FHEPowerMaintenance,
+  equipmentId: string,
+  timeout = 120000,
+  interval = 5000
+): Promise<EquipmentCountReveal> {
+  const deadline = Date.now() + timeout;
+  while (true) {
+    const reveal = await getEquipmentCountReveal(contract, equipmentId);
+    if (reveal.status !== "pending") {
+      return reveal;
+    }
+    if (Date.now() + interval > deadline) {
+      throw new Error(`Count for ${equipmentId} not revealed within ${timeout / 1000}s`);
+    }
+    await new Promise(res => setTimeout(res, interval));
+  }
+}
+
+// Encrypts an asset's warning and critical thresholds for a channel and stores them;
+// readings submitted afterwards are compared against them on-chain
+export async function setAlarmThreshold(
+  contract: FHEPowerMaintenance,
+  userAddress: string,
+  equipmentId: string,
+  channel: SensorChannel,
+  warning: number,
+  critical: number
+) {
+  const encrypted = await encryptAlarmThreshold(await contract.getAddress(), userAddress, channel, warning, critical);
+  const tx = await contract.setAlarmThreshold(
+    equipmentId,
+    channel.id,
+    encrypted.warning,
+    encrypted.critical,
+    encrypted.inputProof
+  );
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+// Ids of the channels that have alarm thresholds for the asset
+export async function getThresholdChannels(
+  contract: FHEPowerMaintenance,
+  equipmentId: string,
+  channels: SensorChannel[]
+): Promise<string[]> {
+  const thresholds = await Promise.all(channels.map(c => contract.getAlarmThreshold(equipmentId, c.id)));
+  return channels.filter((_, i) => thresholds[i].warning !== ethers.ZeroHash).map(c => c.id);
+}
+
+// Decrypts the alarm levels of readings for the contract's signer, asking the
+// contract for access to the ones it cannot read yet. Readings of assets without
+// thresholds map to null; locked readings of substations the signer does not
+// operate are left out.
+export async function decryptAlarmLevels(
+  contract: FHEPowerMaintenance,
+  dataIds: number[]
+): Promise<Record<number, AlarmLevel | null>> {
+  const signer = contract.runner as ethers.Signer;
+  const account = await signer.getAddress();
+  const handles: string[] = await Promise.all(dataIds.map(id => contract.getAlarmLevel(id)));
+
+  const evaluated = dataIds.filter((_, i) => handles[i] !== ethers.ZeroHash);
+  const allowed = await Promise.all(evaluated.map(id => contract.canDecryptAlarmLevel(id, account)));
+  const locked = evaluated.filter((_, i) => !allowed[i]);
+  // allowAlarmLevels reverts on a reading of a substation the caller does not
+  // operate, so those are left encrypted and missing from the result
+  const unlockable = await filterOperatedReadings(contract, account, locked);
+  if (unlockable.length > 0) {
+    await (await contract.allowAlarmLevels(unlockable)).wait();
+  }
+  const readable = evaluated.filter(id => !locked.includes(id) || unlockable.includes(id));
+
+  const levels = await userDecryptHandles(
+    await contract.getAddress(),
+    readable.map(id => handles[dataIds.indexOf(id)]),
+    signer
+  );
+  const result: Record<number, AlarmLevel | null> = Object.fromEntries(
+    dataIds.filter(id => !evaluated.includes(id)).map(id => [id, null])
+  );
+  readable.forEach((id, i) => {
+    result[id] = ALARM_LEVELS[Number(levels[i])];
+  });
+  return result;
+}
+
+// The readings among `dataIds` of substations that `account` operates
+async function filterOperatedReadings(contract: FHEPowerMaintenance, account: string, dataIds: number[]) {
+  const roles = new Map<string, Promise<Role>>();
+  const operated = await Promise.all(dataIds.map(async id => {
+    const { equipmentId } = await contract.encryptedData(id);
+    const { substationId } = await getEquipment(contract, equipmentId);
+    if (!roles.has(substationId)) {
+      roles.set(substationId, getRole(contract, substationId, account));
+    }
+    return (await roles.get(substationId)) === "operator";
+  }));
+  return dataIds.filter((_, i) => operated[i]);
+}
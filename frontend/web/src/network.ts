@@ -0,0 +1,251 @@
+// network.ts
+/// <reference path="./type/env.d.ts" />
+import { ethers } from "ethers";
+import configJson from "./config.json";
+
+// Network profiles select the chain and the RPC endpoints used for reads.
+// The active profile comes from `config.network`, and can be overridden at
+// build time with NETWORK_PROFILE, NETWORK_RPC_URLS (comma separated) and
+// NETWORK_CHAIN_ID. Nothing in here may touch DOM APIs, the Node indexer
+// script uses it too.
+
+export const NETWORK_PROFILE_IDS = ["local", "sepolia", "custom"] as const;
+export type NetworkProfileId = typeof NETWORK_PROFILE_IDS[number];
+
+export interface NetworkProfile {
+  id: NetworkProfileId;
+  name: string;
+  chainId: number;
+  // Tried in order until one answers with the expected chain id
+  rpcUrls: string[];
+  currencySymbol: string;
+  blockExplorerUrl?: string;
+}
+
+type ProfileConfig = Partial<Omit<NetworkProfile, "id">>;
+
+const DEFAULT_PROFILES: Record<NetworkProfileId, Omit<NetworkProfile, "id">> = {
+  local: {
+    name: "Local Hardhat",
+    chainId: 31337,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    currencySymbol: "ETH"
+  },
+  sepolia: {
+    name: "Sepolia",
+    chainId: 11155111,
+    rpcUrls: [
+      "https://sepolia.drpc.org",
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://rpc.sepolia.org"
+    ],
+    currencySymbol: "SEP",
+    blockExplorerUrl: "https://sepolia.etherscan.io"
+  },
+  custom: {
+    name: "Custom",
+    chainId: 0,
+    rpcUrls: [],
+    currencySymbol: "ETH"
+  }
+};
+
+const RPC_TIMEOUT = 10000;
+// How long a successful health check is trusted before the endpoint is probed again
+const HEALTH_TTL = 30000;
+const MAX_SCORE = 100;
+const SUCCESS_BONUS = 20;
+const FAILURE_PENALTY = 50;
+
+const isProfileId = (id: string): id is NetworkProfileId =>
+  (NETWORK_PROFILE_IDS as readonly string[]).includes(id);
+
+const splitUrls = (value: string) => value.split(",").map(url => url.trim()).filter(Boolean);
+
+// Read one by one so the bundler only inlines these (see vite.config.ts)
+const networkEnv = (): Record<string, string | undefined> => ({
+  NETWORK_PROFILE: process.env.NETWORK_PROFILE,
+  NETWORK_RPC_URLS: process.env.NETWORK_RPC_URLS,
+  NETWORK_CHAIN_ID: process.env.NETWORK_CHAIN_ID
+});
+
+// Builds and validates the active profile; throws on a misconfiguration
+// rather than silently falling back to another chain
+export function resolveNetworkProfile(
+  env: Record<string, string | undefined> = networkEnv(),
+  config: { network: string; networks?: Partial<Record<string, ProfileConfig>> } = configJson
+): NetworkProfile {
+  const id = env.NETWORK_PROFILE || config.network;
+  if (!isProfileId(id)) {
+    throw new Error(`Unknown network profile "${id}", expected one of ${NETWORK_PROFILE_IDS.join(", ")}`);
+  }
+
+  const profile: NetworkProfile = { id, ...DEFAULT_PROFILES[id], ...config.networks?.[id] };
+  if (env.NETWORK_RPC_URLS) {
+    profile.rpcUrls = splitUrls(env.NETWORK_RPC_URLS);
+  }
+  if (env.NETWORK_CHAIN_ID) {
+    profile.chainId = Number(env.NETWORK_CHAIN_ID);
+  }
+
+  if (!Number.isSafeInteger(profile.chainId) || profile.chainId <= 0) {
+    throw new Error(`Network profile "${id}" needs a positive chain id`);
+  }
+  if (profile.rpcUrls.length === 0) {
+    throw new Error(`Network profile "${id}" has no RPC URLs`);
+  }
+  for (const url of profile.rpcUrls) {
+    if (!/^(https?|wss?):\/\//.test(url)) {
+      throw new Error(`Invalid RPC URL "${url}" in network profile "${id}"`);
+    }
+  }
+  return profile;
+}
+
+export interface EndpointHealth {
+  url: string;
+  // 0-100, raised by successful checks and cut by failures
+  score: number;
+  latency?: number;
+  failures: number;
+  lastError?: string;
+  lastChecked?: number;
+}
+
+export interface NetworkStatus {
+  profile: NetworkProfile;
+  active?: EndpointHealth;
+  endpoints: EndpointHealth[];
+}
+
+let profile: NetworkProfile | undefined;
+let endpoints: EndpointHealth[] = [];
+let active: { endpoint: EndpointHealth; provider: ethers.JsonRpcProvider } | undefined;
+let pending: Promise<ethers.JsonRpcProvider> | undefined;
+const listeners = new Set<(status: NetworkStatus) => void>();
+
+export function getNetworkProfile() {
+  if (!profile) {
+    profile = resolveNetworkProfile();
+    endpoints = profile.rpcUrls.map(url => ({ url, score: MAX_SCORE / 2, failures: 0 }));
+  }
+  return profile;
+}
+
+export function getNetworkStatus(): NetworkStatus {
+  return {
+    profile: getNetworkProfile(),
+    active: active && { ...active.endpoint },
+    endpoints: endpoints.map(endpoint => ({ ...endpoint }))
+  };
+}
+
+// Calls `listener` with the current status now and after every health change
+export function subscribeNetworkStatus(listener: (status: NetworkStatus) => void) {
+  listeners.add(listener);
+  listener(getNetworkStatus());
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const notify = () => {
+  const status = getNetworkStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+// Highest score first, then lowest latency, then the configured order
+export function rankEndpoints(list: EndpointHealth[]) {
+  return list
+    .map((endpoint, index) => ({ endpoint, index }))
+    .sort((a, b) =>
+      b.endpoint.score - a.endpoint.score ||
+      (a.endpoint.latency ?? Infinity) - (b.endpoint.latency ?? Infinity) ||
+      a.index - b.index
+    )
+    .map(({ endpoint }) => endpoint);
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), ms))
+  ]);
+
+async function checkEndpoint(endpoint: EndpointHealth, provider: ethers.JsonRpcProvider, chainId: number) {
+  const started = Date.now();
+  try {
+    const reported = Number(await withTimeout(provider.send("eth_chainId", []), RPC_TIMEOUT));
+    if (reported !== chainId) {
+      throw new Error(`RPC reports chain ${reported}, expected ${chainId}`);
+    }
+    await withTimeout(provider.getBlockNumber(), RPC_TIMEOUT);
+
+    const latency = Date.now() - started;
+    endpoint.latency = endpoint.latency === undefined ? latency : Math.round((endpoint.latency + latency) / 2);
+    endpoint.score = Math.min(MAX_SCORE, endpoint.score + SUCCESS_BONUS);
+    endpoint.lastError = undefined;
+    return true;
+  } catch (error) {
+    endpoint.failures += 1;
+    endpoint.score = Math.max(0, endpoint.score - FAILURE_PENALTY);
+    endpoint.lastError = (error as Error).message;
+    console.warn(`RPC ${endpoint.url} failed: ${endpoint.lastError}`);
+    return false;
+  } finally {
+    endpoint.lastChecked = Date.now();
+  }
+}
+
+const createProvider = (url: string, chainId: number) =>
+  new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true });
+
+async function selectProvider() {
+  const { chainId } = getNetworkProfile();
+
+  // Keep the current endpoint while it stays healthy
+  if (active) {
+    const { endpoint, provider } = active;
+    if (Date.now() - (endpoint.lastChecked ?? 0) < HEALTH_TTL) {
+      return provider;
+    }
+    const healthy = await checkEndpoint(endpoint, provider, chainId);
+    notify();
+    if (healthy) return provider;
+    // Not destroyed: contracts created earlier may still hold this provider
+    active = undefined;
+  }
+
+  for (const endpoint of rankEndpoints(endpoints)) {
+    const provider = createProvider(endpoint.url, chainId);
+    const healthy = await checkEndpoint(endpoint, provider, chainId);
+    if (healthy) {
+      active = { endpoint, provider };
+      console.log(`Connected to RPC ${endpoint.url}`);
+      notify();
+      return provider;
+    }
+    provider.destroy();
+    notify();
+  }
+
+  throw new Error(`All RPC endpoints for ${getNetworkProfile().name} failed`);
+}
+
+// Read-only provider for the active profile, falling back through the
+// endpoints by health score. Concurrent callers share one selection.
+export function getReadProvider(): Promise<ethers.JsonRpcProvider> {
+  if (!pending) {
+    pending = selectProvider().finally(() => {
+      pending = undefined;
+    });
+  }
+  return pending;
+}
+
+// The wallet injected by the browser extension, if any; signing goes through it
+export function getInjectedProvider(): EIP1193Provider | undefined {
+  return (globalThis as { ethereum?: EIP1193Provider }).ethereum;
+}
+
+export const toHexChainId = (chainId: number) => `0x${chainId.toString(16)}`;
@@ -0,0 +1,125 @@
+// predictionTracker.ts
+import { ethers } from "ethers";
+import { getPrediction, Prediction } from "./maintenance";
+import type { FHEPowerMaintenance } from "../../../types";
+
+// sent: request tx mined, waiting to see PredictionRequested
+// requested: the contract asked the oracle to decrypt the RUL
+// processed: processPrediction landed and getPrediction returned the RUL
+// timeout: no callback within the timeout; still watched in case it lands late
+export type TrackedRequestStatus = "sent" | "requested" | "processed" | "timeout";
+
+export interface TrackedRequest {
+  dataId: number;
+  equipmentId: string;
+  txHash: string;
+  requestedAt: number;
+  status: TrackedRequestStatus;
+  prediction?: Prediction;
+  // Last failure while following the request; cleared once it is processed
+  error?: string;
+}
+
+export interface PredictionTrackerOptions {
+  onChange: (requests: TrackedRequest[]) => void;
+  onProcessed?: (prediction: Prediction) => void;
+  timeout?: number;
+  pollInterval?: number;
+}
+
+export interface PredictionTracker {
+  track(dataId: number, equipmentId: string, txHash: string): void;
+  list(): TrackedRequest[];
+  stop(): void;
+}
+
+const DEFAULT_TIMEOUT = 300000;
+const DEFAULT_POLL_INTERVAL = 15000;
+
+// Records pending decryptions and watches PredictionRequested/PredictionProcessed
+// for them. Events can be missed on public RPCs, so pending requests are also
+// polled through getPrediction.
+export function createPredictionTracker(
+  contract: FHEPowerMaintenance,
+  options: PredictionTrackerOptions
+): PredictionTracker {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const requests = new Map<number, TrackedRequest>();
+
+  const notify = () => options.onChange(list());
+
+  const update = (dataId: number, changes: Partial<TrackedRequest>) => {
+    const request = requests.get(dataId);
+    if (!request || request.status === "processed") return;
+    requests.set(dataId, { ...request, ...changes });
+    notify();
+  };
+
+  const refresh = async (dataId: number) => {
+    const prediction = await getPrediction(contract, dataId);
+    if (prediction.isProcessed && requests.get(dataId)?.status !== "processed") {
+      update(dataId, { status: "processed", prediction, error: undefined });
+      options.onProcessed?.(prediction);
+    }
+  };
+
+  const fail = (dataId: number, action: string, e: any) => {
+    console.error(`Failed to ${action} prediction #${dataId}:`, e);
+    update(dataId, { error: e?.message || String(e) });
+  };
+
+  function track(dataId: number, equipmentId: string, txHash: string) {
+    const existing = requests.get(dataId);
+    if (existing && existing.status !== "timeout") return;
+    requests.set(dataId, { dataId, equipmentId, txHash, requestedAt: Date.now(), status: "sent" });
+    notify();
+  }
+
+  function list() {
+    return [...requests.values()].sort((a, b) => b.requestedAt - a.requestedAt);
+  }
+
+  // Requests made from another session show up through the event as well
+  // ethers hands listeners a ContractEventPayload, which typechain types as the log
+  const onRequested = async (id: bigint, payload: unknown) => {
+    const dataId = Number(id);
+    const txHash = (payload as ethers.ContractEventPayload).log.transactionHash;
+    try {
+      if (!requests.has(dataId)) {
+        const prediction = await getPrediction(contract, dataId);
+        track(dataId, prediction.equipmentId, txHash);
+      }
+      update(dataId, { status: "requested" });
+    } catch (e) {
+      // Tracked anyway, so the poll keeps retrying and the failure is visible
+      if (!requests.has(dataId)) track(dataId, "", txHash);
+      fail(dataId, "load", e);
+    }
+  };
+
+  const onProcessed = (id: bigint) => {
+    refresh(Number(id)).catch(e => fail(Number(id), "load", e));
+  };
+
+  contract.on(contract.getEvent("PredictionRequested"), onRequested);
+  contract.on(contract.getEvent("PredictionProcessed"), onProcessed);
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const request of requests.values()) {
+      if (request.status === "processed") continue;
+      if (request.status !== "timeout" && now - request.requestedAt > timeout) {
+        update(request.dataId, { status: "timeout" });
+      }
+      refresh(request.dataId).catch(e => fail(request.dataId, "poll", e));
+    }
+  }, options.pollInterval ?? DEFAULT_POLL_INTERVAL);
+
+  function stop() {
+    clearInterval(timer);
+    contract.off(contract.getEvent("PredictionRequested"), onRequested);
+    contract.off(contract.getEvent("PredictionProcessed"), onProcessed);
+  }
+
+  return { track, list, stop };
+}
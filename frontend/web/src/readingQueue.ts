@@ -0,0 +1,126 @@
+// readingQueue.ts
+import { MAX_BATCH_SIZE } from "./fhe";
+import type { ChannelReading } from "./maintenance";
+
+export interface ReadingQueueOptions {
+  // Sends one batch and resolves with the data id of every reading, in order.
+  // Every reading of a batch has values for the same channels.
+  submit: (readings: ChannelReading[]) => Promise<number[]>;
+  // Flush as soon as this many readings are waiting (capped at MAX_BATCH_SIZE)
+  maxBatchSize?: number;
+  // Further caps a batch of readings of these channels, e.g. to what one encrypted input holds
+  batchLimit?: (channelIds: string[]) => number;
+  // Flush at the latest this long after the oldest waiting reading was added
+  maxWait?: number;
+  // A failed batch goes back to the front of the queue and is sent again this long after
+  retryDelay?: number;
+  // Failures not worth retrying, e.g. the user rejecting the transaction, reject their readings
+  isRetryable?: (error: Error) => boolean;
+  onFlushed?: (readings: ChannelReading[], dataIds: number[]) => void;
+  onError?: (error: Error, readings: ChannelReading[]) => void;
+}
+
+export interface ReadingQueue {
+  // Resolves with the reading's data id once its batch is mined
+  add(reading: ChannelReading): Promise<number>;
+  flush(): Promise<void>;
+  size(): number;
+  stop(): Promise<void>;
+}
+
+interface Pending extends ChannelReading {
+  resolve: (dataId: number) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_MAX_WAIT = 60000;
+const DEFAULT_RETRY_DELAY = 30000;
+
+const channelIds = (reading: ChannelReading) => Object.keys(reading.values).sort();
+
+// Groups readings into batch submissions by channels, size and time window.
+// Batches are sent one after another so their transactions never race for a
+// nonce, and a batch that fails is kept and retried until the queue stops.
+export function createReadingQueue(options: ReadingQueueOptions): ReadingQueue {
+  const maxBatchSize = Math.min(options.maxBatchSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+  const maxWait = options.maxWait ?? DEFAULT_MAX_WAIT;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const isRetryable = options.isRetryable ?? (() => true);
+  let pending: Pending[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  // The oldest waiting reading and those after it with the same channels
+  const takeBatch = () => {
+    const ids = channelIds(pending[0]);
+    const key = ids.join(",");
+    const limit = Math.max(1, Math.min(maxBatchSize, options.batchLimit?.(ids) ?? maxBatchSize));
+    const batch: Pending[] = [];
+    const rest: Pending[] = [];
+    for (const item of pending) {
+      if (batch.length < limit && channelIds(item).join(",") === key) {
+        batch.push(item);
+      } else {
+        rest.push(item);
+      }
+    }
+    pending = rest;
+    return batch;
+  };
+
+  const send = async (batch: Pending[]) => {
+    const readings = batch.map(({ equipmentId, values }) => ({ equipmentId, values }));
+    try {
+      const dataIds = await options.submit(readings);
+      batch.forEach((item, i) => item.resolve(dataIds[i]));
+      options.onFlushed?.(readings, dataIds);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      options.onError?.(error, readings);
+      if (stopped || !isRetryable(error)) {
+        batch.forEach(item => item.reject(error));
+        return;
+      }
+      pending = [...batch, ...pending];
+      clearTimer();
+      timer = setTimeout(flush, retryDelay);
+    }
+  };
+
+  function flush() {
+    clearTimer();
+    while (pending.length > 0) {
+      const batch = takeBatch();
+      sending = sending.then(() => send(batch));
+    }
+    return sending;
+  }
+
+  function add(reading: ChannelReading) {
+    if (stopped) {
+      return Promise.reject(new Error("Reading queue is stopped"));
+    }
+    return new Promise<number>((resolve, reject) => {
+      pending.push({ ...reading, resolve, reject });
+      if (pending.length >= maxBatchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, maxWait);
+      }
+    });
+  }
+
+  // Sends whatever is still waiting, once, and refuses new readings
+  function stop() {
+    stopped = true;
+    return flush();
+  }
+
+  return { add, flush, size: () => pending.length, stop };
+}
@@ -0,0 +1,71 @@
+// registry.ts
+import { ethers } from "ethers";
+import type { FHEPowerMaintenance } from "../../../types";
+
+// Mirrors MaintenanceRegistry.Role; the array index is the enum value
+export const ROLES = ["none", "operator", "technician"] as const;
+export type Role = typeof ROLES[number];
+
+export interface RegisteredSubstation {
+  id: string;
+  name: string;
+  location: string;
+}
+
+export interface SubstationMember {
+  account: string;
+  role: Role;
+}
+
+export async function getOwner(contract: FHEPowerMaintenance): Promise<string> {
+  return contract.owner();
+}
+
+export async function isAdmin(contract: FHEPowerMaintenance, account: string): Promise<boolean> {
+  return contract.isAdmin(account);
+}
+
+export async function setAdmin(contract: FHEPowerMaintenance, account: string, enabled: boolean) {
+  const tx = await contract.setAdmin(account, enabled);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function registerSubstation(contract: FHEPowerMaintenance, substation: RegisteredSubstation) {
+  const tx = await contract.registerSubstation(substation.id, substation.name, substation.location);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function getSubstation(contract: FHEPowerMaintenance, substationId: string): Promise<RegisteredSubstation> {
+  const [name, location] = await contract.getSubstation(substationId);
+  return { id: substationId, name, location };
+}
+
+export async function listSubstations(contract: FHEPowerMaintenance): Promise<RegisteredSubstation[]> {
+  const ids: string[] = await contract.getSubstationIds();
+  return Promise.all(ids.map(id => getSubstation(contract, id)));
+}
+
+export async function getRole(contract: FHEPowerMaintenance, substationId: string, account: string): Promise<Role> {
+  return ROLES[Number(await contract.getRole(substationId, account))];
+}
+
+export async function grantRole(contract: FHEPowerMaintenance, substationId: string, account: string, role: Role) {
+  if (role === "none") {
+    throw new Error("Use revokeRole to remove a member");
+  }
+  const tx = await contract.grantRole(substationId, account, ROLES.indexOf(role));
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function revokeRole(contract: FHEPowerMaintenance, substationId: string, account: string) {
+  const tx = await contract.revokeRole(substationId, account);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function getSubstationMembers(contract: FHEPowerMaintenance, substationId: string): Promise<SubstationMember[]> {
+  const [accounts, roles] = await contract.getSubstationMembers(substationId);
+  return accounts.map((account: string, i: number) => ({
+    account,
+    role: ROLES[Number(roles[i])]
+  }));
+}
@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function complex-service() { return <div>Component</div>; }
@@ -1,3 +0,0 @@
-import React from 'react';
-
-interface notification-local-notificationProps { data: string }
@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export default function main-handler-adapter() { return <div>Component</div>; }
@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export const local-bridge-base = () => { return null; };
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\simple-shared-upload.rs
-// Generated at: 2025-10-07T11:19:19.361Z
\ No newline at end of file
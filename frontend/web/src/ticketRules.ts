@@ -0,0 +1,63 @@
+// ticketRules.ts
+import { Equipment, Prediction, RUL_THRESHOLDS } from "./maintenance";
+import { isOpenTicket, MaintenanceTicket, TicketPriority } from "./tickets";
+
+// A ticket the rules engine proposes; an operator still signs the createTicket call
+export interface TicketDraft {
+  dataId: number;
+  equipmentId: string;
+  substationId: string;
+  issue: string;
+  priority: TicketPriority;
+  predictedRUL: number;
+}
+
+// Tickets are drafted once an asset drops below its class warning threshold.
+// Below the critical threshold the ticket is high priority; in the upper half
+// of the warning band it is low, in the lower half medium.
+export function priorityForRUL(asset: Equipment, predictedRUL: number): TicketPriority | null {
+  const { warning, critical } = RUL_THRESHOLDS[asset.kind];
+  if (predictedRUL >= warning) return null;
+  if (predictedRUL < critical) return "high";
+  return predictedRUL < (warning + critical) / 2 ? "medium" : "low";
+}
+
+// Returns a draft for a processed prediction, or null when the RUL is healthy,
+// the asset already has an open ticket, or a ticket was already raised for the reading
+export function draftTicket(
+  prediction: Prediction,
+  asset: Equipment,
+  tickets: MaintenanceTicket[]
+): TicketDraft | null {
+  if (!prediction.isProcessed) return null;
+
+  const priority = priorityForRUL(asset, prediction.predictedRUL);
+  if (!priority) return null;
+
+  const duplicate = tickets.some(ticket =>
+    ticket.dataId === prediction.dataId ||
+    (ticket.equipmentId === asset.id && isOpenTicket(ticket))
+  );
+  if (duplicate) return null;
+
+  return {
+    dataId: prediction.dataId,
+    equipmentId: asset.id,
+    substationId: asset.substationId,
+    issue: `${asset.name}: predicted RUL ${prediction.predictedRUL} h (reading #${prediction.dataId})`,
+    priority,
+    predictedRUL: prediction.predictedRUL
+  };
+}
+
+// Drafts for the latest prediction of every asset, most urgent first
+export function draftTickets(
+  predictions: Record<string, Prediction>,
+  equipment: Equipment[],
+  tickets: MaintenanceTicket[]
+): TicketDraft[] {
+  return equipment
+    .map(asset => predictions[asset.id] && draftTicket(predictions[asset.id], asset, tickets))
+    .filter((draft): draft is TicketDraft => !!draft)
+    .sort((a, b) => a.predictedRUL - b.predictedRUL);
+}
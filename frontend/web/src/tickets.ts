@@ -0,0 +1,159 @@
+// tickets.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/MaintenanceTickets.json";
+import { config, contractAbi, retry } from "./contract";
+import { getInjectedProvider, getReadProvider } from "./network";
+
+export const TICKETS_ABI = contractAbi("MaintenanceTickets", abiJson);
+
+// Mirror MaintenanceTickets.Priority and TicketStatus; the array index is the enum value
+export const TICKET_PRIORITIES = ["low", "medium", "high"] as const;
+export type TicketPriority = typeof TICKET_PRIORITIES[number];
+
+export const TICKET_STATUSES = ["pending", "assigned", "in-progress", "completed", "cancelled"] as const;
+export type TicketStatus = typeof TICKET_STATUSES[number];
+
+export interface MaintenanceTicket {
+  id: number;
+  substationId: string;
+  equipmentId: string;
+  // Reading the ticket was raised from; 0 for tickets opened by hand
+  dataId: number;
+  issue: string;
+  priority: TicketPriority;
+  status: TicketStatus;
+  creator: string;
+  assignee: string;
+  // Completion resolution, or the cancellation reason
+  resolution: string;
+  created: number;
+  updated: number;
+}
+
+export interface WorkNote {
+  author: string;
+  text: string;
+  timestamp: number;
+}
+
+export async function getTicketsContractReadOnly() {
+  if (!config.ticketsAddress) {
+    console.warn("MaintenanceTickets address is not configured");
+    return null;
+  }
+  try {
+    const provider = await getReadProvider();
+    const contract = new ethers.Contract(config.ticketsAddress, TICKETS_ABI, provider);
+
+    const code = await retry(() => provider.getCode(config.ticketsAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only tickets contract:", error);
+    return null;
+  }
+}
+
+export async function getTicketsContractWithSigner() {
+  const ethereum = getInjectedProvider();
+  if (!ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.ticketsAddress) {
+    throw new Error("MaintenanceTickets address is not configured");
+  }
+  try {
+    const provider = new ethers.BrowserProvider(ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(config.ticketsAddress, TICKETS_ABI, signer);
+  } catch (error) {
+    console.error("Failed to create tickets contract with signer:", error);
+    throw error;
+  }
+}
+
+// Opens a ticket and resolves with its id from the TicketCreated event
+export async function createTicket(
+  contract: ethers.Contract,
+  substationId: string,
+  equipmentId: string,
+  issue: string,
+  priority: TicketPriority,
+  dataId = 0
+): Promise<number> {
+  const tx = await contract.createTicket(substationId, equipmentId, dataId, issue, TICKET_PRIORITIES.indexOf(priority));
+  const receipt: ethers.TransactionReceipt = await tx.wait();
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed && parsed.name === "TicketCreated") {
+      return Number(parsed.args.id);
+    }
+  }
+  throw new Error("TicketCreated event not found in receipt");
+}
+
+export function isOpenTicket(ticket: MaintenanceTicket) {
+  return ticket.status !== "completed" && ticket.status !== "cancelled";
+}
+
+export async function assignTicket(contract: ethers.Contract, ticketId: number, technician: string) {
+  const tx = await contract.assignTicket(ticketId, technician);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function startTicket(contract: ethers.Contract, ticketId: number) {
+  const tx = await contract.startTicket(ticketId);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function addWorkNote(contract: ethers.Contract, ticketId: number, text: string) {
+  const tx = await contract.addWorkNote(ticketId, text);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function completeTicket(contract: ethers.Contract, ticketId: number, resolution: string) {
+  const tx = await contract.completeTicket(ticketId, resolution);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function cancelTicket(contract: ethers.Contract, ticketId: number, reason: string) {
+  const tx = await contract.cancelTicket(ticketId, reason);
+  return (await tx.wait()) as ethers.TransactionReceipt;
+}
+
+export async function getTicket(contract: ethers.Contract, ticketId: number): Promise<MaintenanceTicket> {
+  const ticket = await contract.getTicket(ticketId);
+  return {
+    id: Number(ticket.id),
+    substationId: ticket.substationId,
+    equipmentId: ticket.equipmentId,
+    dataId: Number(ticket.dataId),
+    issue: ticket.issue,
+    priority: TICKET_PRIORITIES[Number(ticket.priority)],
+    status: TICKET_STATUSES[Number(ticket.status)],
+    creator: ticket.creator,
+    assignee: ticket.assignee === ethers.ZeroAddress ? "" : ticket.assignee,
+    resolution: ticket.resolution,
+    created: Number(ticket.createdAt) * 1000,
+    updated: Number(ticket.updatedAt) * 1000
+  };
+}
+
+export async function listTickets(contract: ethers.Contract): Promise<MaintenanceTicket[]> {
+  const count = Number(await contract.ticketCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(id => getTicket(contract, id)));
+}
+
+export async function getWorkNotes(contract: ethers.Contract, ticketId: number): Promise<WorkNote[]> {
+  const notes = await contract.getWorkNotes(ticketId);
+  return notes.map((note: any) => ({
+    author: note.author,
+    text: note.text,
+    timestamp: Number(note.timestamp) * 1000
+  }));
+}
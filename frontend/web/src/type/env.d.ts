@@ -0,0 +1,14 @@
+// type/env.d.ts
+// The EIP-1193 provider a browser wallet injects as `ethereum`. Kept free of
+// DOM types so the Node scripts and tests that import network.ts see it too.
+interface EIP1193Provider {
+  isMetaMask?: boolean;
+  isOkxWallet?: boolean;
+  isTrust?: boolean;
+  isCoinbaseWallet?: boolean;
+  selectedAddress?: string;
+  chainId?: string;
+  request(request: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<any>;
+  on(event: string, handler: (...args: any[]) => void): void;
+  removeListener(event: string, handler: (...args: any[]) => void): void;
+}
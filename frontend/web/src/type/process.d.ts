@@ -0,0 +1,5 @@
+// type/process.d.ts
+// vite.config.ts inlines the NETWORK_* variables at build time
+declare const process: {
+  env: Record<string, string | undefined>;
+};
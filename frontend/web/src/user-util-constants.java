@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\user-util-constants.java
-// Generated at: 2025-10-07T11:19:19.381Z
\ No newline at end of file
@@ -1,9 +1,18 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Only the network overrides are inlined; defining all of process.env would
+// bake the whole build environment into the bundle
+const NETWORK_ENV = ["NETWORK_PROFILE", "NETWORK_RPC_URLS", "NETWORK_CHAIN_ID"];
+
 export default defineConfig({
   plugins: [react()],
-  define: {
-    'process.env': process.env
-  }
+  // The typechain factories under ../../types import ethers from the root
+  // node_modules; resolve it to the frontend's copy so the bundle holds one
+  resolve: {
+    dedupe: ["ethers"]
+  },
+  define: Object.fromEntries(
+    NETWORK_ENV.map(name => [`process.env.${name}`, JSON.stringify(process.env[name] || "")])
+  )
 });
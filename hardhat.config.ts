@@ -1,18 +1,27 @@
+import "dotenv/config";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/maintenance";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts: process.env.DEPLOYER_PRIVATE_KEY
+        ? [process.env.DEPLOYER_PRIVATE_KEY]
+        : [],
     },
   },
   solidity: {
@@ -41,7 +50,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY || "",
     },
   },
   gasReporter: {
@@ -0,0 +1,96 @@
+// scripts/indexer.ts
+//
+// Backfills the dashboard events into a JSON file and optionally keeps following the chain.
+//
+//   npm run indexer                       # sync once up to the current head
+//   npm run indexer -- --watch            # keep syncing every 15s
+//   NETWORK_PROFILE=local npm run indexer  # index a profile other than config.network
+//   INDEXER_RPC_URL=... INDEXER_OUT=./events.json npm run indexer
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+import { ChainDeployment, getDeployment } from "../frontend/web/src/deployment";
+import {
+  createMemoryStore,
+  IndexedContract,
+  IndexerOptions,
+  IndexerSnapshot,
+  INDEXED_EVENTS,
+  startIndexer,
+  syncOnce,
+} from "../frontend/web/src/indexer/core";
+import { getNetworkStatus, getReadProvider } from "../frontend/web/src/network";
+
+function loadSnapshot(file: string): IndexerSnapshot | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+// Write-then-rename so an interrupted run never leaves a truncated file behind
+async function writeSnapshot(file: string, snapshot: IndexerSnapshot) {
+  const tmp = `${file}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(snapshot, null, 2));
+  await fs.promises.rename(tmp, file);
+}
+
+function indexedContracts(deployment: ChainDeployment): IndexedContract[] {
+  const { UniversalAdapter, FHEPowerMaintenance } = deployment.contracts;
+  const contracts: IndexedContract[] = [];
+  if (UniversalAdapter) {
+    contracts.push({ address: UniversalAdapter.address, abi: UniversalAdapter.abi, events: INDEXED_EVENTS.adapter });
+  }
+  if (FHEPowerMaintenance) {
+    contracts.push({ address: FHEPowerMaintenance.address, abi: FHEPowerMaintenance.abi, events: INDEXED_EVENTS.maintenance });
+  }
+  return contracts;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const watch = args.includes("--watch");
+
+  // INDEXER_RPC_URL pins one endpoint; otherwise the healthiest endpoint of the profile is used
+  const provider = process.env.INDEXER_RPC_URL
+    ? new ethers.JsonRpcProvider(process.env.INDEXER_RPC_URL)
+    : await getReadProvider();
+  const rpcUrl = process.env.INDEXER_RPC_URL || getNetworkStatus().active!.url;
+  const { chainId } = await provider.getNetwork();
+
+  const deployment = getDeployment(Number(chainId));
+  if (!deployment) {
+    throw new Error(`No deployment for chain ${chainId} in frontend/web/src/deployments.json`);
+  }
+  const contracts = indexedContracts(deployment);
+
+  const file = path.resolve(process.env.INDEXER_OUT || path.join("indexer-data", `${chainId}.json`));
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const options: IndexerOptions = {
+    provider,
+    store: createMemoryStore(loadSnapshot(file), (snapshot) => writeSnapshot(file, snapshot)),
+    contracts,
+    startBlock: Number(process.env.INDEXER_START_BLOCK ?? deployment.deployBlock),
+    batchSize: process.env.INDEXER_BATCH_SIZE ? Number(process.env.INDEXER_BATCH_SIZE) : undefined,
+    onProgress: (progress) => {
+      const rewound = progress.rewoundTo !== undefined ? ` (reorg, rewound to ${progress.rewoundTo})` : "";
+      console.log(`Indexed to block ${progress.lastBlock}/${progress.head}, ${progress.newLogs} new logs${rewound}`);
+    },
+  };
+
+  console.log(`Indexing chain ${chainId} via ${rpcUrl} into ${file}`);
+  if (watch) {
+    const stop = startIndexer(options);
+    process.on("SIGINT", () => {
+      stop();
+      process.exit(0);
+    });
+  } else {
+    await syncOnce(options);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
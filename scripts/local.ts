@@ -0,0 +1,162 @@
+// scripts/local.ts
+//
+// Deploys the contracts to a local Hardhat node running the FHEVM mock, seeds
+// substations, encrypted readings, predictions and tickets, and points the
+// frontend at it.
+//
+//   npm run node          # terminal 1: hardhat node on 127.0.0.1:8545
+//   npm run local:setup   # terminal 2: deploy + seed, exports frontend/web/src/deployments.json
+//
+// Import Hardhat account #0 (admin and operator everywhere) and #1 (technician)
+// into the wallet; the dashboard switches it to chain 31337.
+import { ethers, fhevm, network } from "hardhat";
+
+import { syncAbis } from "../deploy/abi";
+import { buildChainDeployment, gitCommit, selectFrontendNetwork, writeBundle } from "../deploy/bundle";
+import { deployAll } from "../deploy/deployments";
+import { BUILTIN_CHANNELS, CHANNEL_TYPES, SensorChannel } from "../frontend/web/src/channels";
+import { encryptAlarmThreshold, encryptChannelReadings } from "../frontend/web/src/fhe";
+
+const OPERATOR = 1;
+const TECHNICIAN = 2;
+const TRANSFORMER = 0;
+const BREAKER = 1;
+const LINE = 2;
+const MEDIUM = 1;
+const HIGH = 2;
+
+const SUBSTATIONS = [
+  { id: "sub-north", name: "North Substation", location: "Grid sector 7" },
+  { id: "sub-east", name: "East Substation", location: "Riverside" },
+  { id: "sub-south", name: "South Substation", location: "Industrial park" },
+];
+
+const EQUIPMENT = [
+  { id: "tr-north-1", substationId: "sub-north", name: "Main transformer", kind: TRANSFORMER },
+  { id: "br-north-1", substationId: "sub-north", name: "Feeder breaker", kind: BREAKER },
+  { id: "tr-east-1", substationId: "sub-east", name: "Step-down transformer", kind: TRANSFORMER },
+  { id: "ln-south-1", substationId: "sub-south", name: "Overhead line A", kind: LINE },
+];
+
+// Registered on top of the built-in temperature and vibration channels
+const OIL_LEVEL: SensorChannel = { id: "oil_level", name: "Oil level", unit: "%", scale: 10, valueType: "euint16" };
+const CHANNELS = [...BUILTIN_CHANNELS, OIL_LEVEL];
+
+// Warning and critical levels set on every asset before the readings go in
+const ALARM_THRESHOLDS = [
+  { channel: BUILTIN_CHANNELS[0], warning: 70, critical: 85 },
+  { channel: BUILTIN_CHANNELS[1], warning: 5, critical: 8 },
+];
+
+// Oldest first; the last reading of each asset gets a prediction. The values
+// land the assets in the normal, warning and critical bands.
+const READINGS = [
+  { equipmentId: "tr-north-1", values: { temperature: 58.5, vibration: 3.1, oil_level: 96.0 } },
+  { equipmentId: "tr-north-1", values: { temperature: 85.0, vibration: 6.0, oil_level: 88.5 } },
+  { equipmentId: "br-north-1", values: { temperature: 61.0, vibration: 3.8, oil_level: 99.0 } },
+  { equipmentId: "br-north-1", values: { temperature: 95.0, vibration: 8.5, oil_level: 71.2 } },
+  { equipmentId: "tr-east-1", values: { temperature: 55.2, vibration: 2.9, oil_level: 97.4 } },
+  { equipmentId: "ln-south-1", values: { temperature: 72.0, vibration: 5.0, oil_level: 92.0 } },
+];
+
+async function main() {
+  if (network.name !== "localhost") {
+    throw new Error(`Run with --network localhost, not ${network.name}`);
+  }
+  await fhevm.initializeCLIApi();
+
+  const [admin, technician] = await ethers.getSigners();
+  console.log("Admin/operator:", admin.address);
+  console.log("Technician:", technician.address);
+
+  // Always fresh: the seed data below cannot be registered twice
+  const manifest = await deployAll({ signer: admin, network: network.name, force: true });
+  const { FHEPowerMaintenance, MaintenanceTickets } = manifest.contracts;
+  const maintenance = await ethers.getContractAt("FHEPowerMaintenance", FHEPowerMaintenance.address);
+  const tickets = await ethers.getContractAt("MaintenanceTickets", MaintenanceTickets.address);
+  const maintenanceAddress = FHEPowerMaintenance.address;
+
+  for (const sub of SUBSTATIONS) {
+    await (await maintenance.registerSubstation(sub.id, sub.name, sub.location)).wait();
+    await (await maintenance.grantRole(sub.id, admin.address, OPERATOR)).wait();
+    await (await maintenance.grantRole(sub.id, technician.address, TECHNICIAN)).wait();
+  }
+  for (const asset of EQUIPMENT) {
+    await (await maintenance.registerEquipment(asset.id, asset.substationId, asset.name, asset.kind)).wait();
+  }
+
+  const oilLevelType = CHANNEL_TYPES.indexOf(OIL_LEVEL.valueType);
+  await (
+    await maintenance.registerChannel(OIL_LEVEL.id, OIL_LEVEL.name, OIL_LEVEL.unit, OIL_LEVEL.scale, oilLevelType)
+  ).wait();
+
+  for (const asset of EQUIPMENT) {
+    for (const { channel, warning, critical } of ALARM_THRESHOLDS) {
+      const { warning: encryptedWarning, critical: encryptedCritical, inputProof } = await encryptAlarmThreshold(
+        maintenanceAddress,
+        admin.address,
+        channel,
+        warning,
+        critical,
+        fhevm,
+      );
+      await (
+        await maintenance.setAlarmThreshold(asset.id, channel.id, encryptedWarning, encryptedCritical, inputProof)
+      ).wait();
+    }
+  }
+
+  // All readings go in one transaction under a single input proof
+  const encrypted = await encryptChannelReadings(
+    maintenanceAddress,
+    admin.address,
+    CHANNELS,
+    READINGS.map((r) => r.values),
+    fhevm,
+  );
+  const receipt = await (
+    await maintenance.submitEncryptedChannelData(
+      READINGS.map((r) => r.equipmentId),
+      CHANNELS.map((c) => c.id),
+      encrypted.handles,
+      encrypted.inputProof,
+    )
+  ).wait();
+  const dataIds = receipt!.logs
+    .map((log) => maintenance.interface.parseLog(log))
+    .filter((parsed) => parsed?.name === "DataSubmitted")
+    .map((parsed) => Number(parsed!.args.id));
+
+  // The dashboard lists readings from the contract; plaintext values are not stored anywhere
+  const latest: Record<string, number> = {};
+  for (const [i, reading] of READINGS.entries()) {
+    latest[reading.equipmentId] = dataIds[i];
+  }
+
+  for (const dataId of Object.values(latest)) {
+    await (await maintenance.requestPrediction(dataId)).wait();
+  }
+  await fhevm.awaitDecryptionOracle();
+  console.log(`Seeded ${READINGS.length} encrypted readings, ${Object.keys(latest).length} predictions`);
+
+  await (
+    await tickets.createTicket("sub-north", "br-north-1", latest["br-north-1"], "Breaker overheating under load", HIGH)
+  ).wait();
+  await (await tickets.assignTicket(await tickets.ticketCount(), technician.address)).wait();
+  await (await tickets.connect(technician).startTicket(await tickets.ticketCount())).wait();
+  await (
+    await tickets.createTicket("sub-north", "tr-north-1", latest["tr-north-1"], "Transformer vibration rising", MEDIUM)
+  ).wait();
+  console.log(`Seeded ${await tickets.ticketCount()} tickets`);
+
+  const deployment = buildChainDeployment(manifest, gitCommit());
+  writeBundle(deployment);
+  await syncAbis(deployment);
+  selectFrontendNetwork(manifest.chainId);
+  console.log("Exported the deployment to frontend/web/src/deployments.json and selected the local profile");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+// scripts/sync-abi.ts
+//
+// Checks the contracts recorded in frontend/web/src/deployments.json for the
+// target network against the code actually deployed there, then exports their
+// ABIs to frontend/web/src/abi. Exits non-zero on any drift.
+//
+//   npm run abi:sync:sepolia
+//   ABI_CHECK=1 npx hardhat run --network sepolia scripts/sync-abi.ts   # verify only, write nothing
+import { ethers, network } from "hardhat";
+
+import { getDeployment } from "../frontend/web/src/deployment";
+import { syncAbis } from "../deploy/abi";
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const deployment = getDeployment(Number(chainId));
+  if (!deployment) {
+    throw new Error(`No deployment for ${network.name} (chain ${chainId}) in deployments.json, deploy first`);
+  }
+
+  const check = process.argv.includes("--check") || process.env.ABI_CHECK === "1";
+  const files = await syncAbis(deployment, { check });
+  console.log(`${check ? "Verified" : "Exported"} ${files.join(", ")} against chain ${chainId}`);
+}
+
+main().catch((e) => {
+  console.error(e.message ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,216 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { getDeployment } from "../frontend/web/src/deployment";
+import { encryptSensorReading } from "../frontend/web/src/fhe";
+
+// Operator commands for FHEPowerMaintenance. The contract address comes from
+// frontend/web/src/deployments.json for the selected network unless --address
+// is given; transactions are sent from the network's first account.
+//
+//   npx hardhat --network localhost pm:submit --equipment tr-north-1 --temp 72.5 --vibration 4.1
+//   npx hardhat --network localhost pm:predict --id 7
+//   npx hardhat --network sepolia pm:list-readings --equipment tr-north-1 --json
+
+const DECRYPTION_STATUSES = ["none", "pending", "completed"] as const;
+
+async function getMaintenance(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, network } = hre;
+  if (!address) {
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    address = getDeployment(chainId)?.contracts.FHEPowerMaintenance?.address;
+    if (!address) {
+      throw new Error(`No FHEPowerMaintenance deployment for ${network.name} (chain ${chainId}), pass --address`);
+    }
+  }
+  const [signer] = await ethers.getSigners();
+  return ethers.getContractAt("FHEPowerMaintenance", address, signer);
+}
+
+// Lets the mock answer decryption requests at once; real networks wait for the
+// oracle, so the callers poll instead
+async function fulfillDecryptions(hre: HardhatRuntimeEnvironment) {
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+  }
+}
+
+async function poll<T>(read: () => Promise<T>, done: (value: T) => boolean, timeout: number, what: string) {
+  const deadline = Date.now() + timeout * 1000;
+  while (true) {
+    const value = await read();
+    if (done(value)) return value;
+    if (Date.now() > deadline) {
+      throw new Error(`${what} not answered within ${timeout}s`);
+    }
+    await new Promise((res) => setTimeout(res, 5000));
+  }
+}
+
+// JSON for scripts, a console table for humans
+function print(result: Record<string, unknown> | Record<string, unknown>[], json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.table(Array.isArray(result) ? result : [result]);
+  }
+}
+
+async function readPrediction(contract: Awaited<ReturnType<typeof getMaintenance>>, dataId: number) {
+  const [equipmentId, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+  return { dataId, equipmentId, processed: isProcessed, predictedRUL: isProcessed ? Number(predictedRUL) : null };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost pm:submit --equipment tr-north-1 --temp 72.5 --vibration 4.1
+ */
+task("pm:submit", "Encrypts and submits a sensor reading")
+  .addParam("equipment", "Equipment id")
+  .addParam("temp", "Temperature in °C", undefined, types.float)
+  .addParam("vibration", "Vibration in mm/s", undefined, types.float)
+  .addOptionalParam("address", "FHEPowerMaintenance address")
+  .addFlag("json", "Print JSON instead of a table")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const contract = await getMaintenance(hre, taskArguments.address);
+    const contractAddress = await contract.getAddress();
+    const [signer] = await hre.ethers.getSigners();
+
+    const encrypted = await encryptSensorReading(
+      contractAddress,
+      signer.address,
+      { temperature: taskArguments.temp, vibration: taskArguments.vibration },
+      hre.fhevm,
+    );
+    const tx = await contract.submitEncryptedSensorData(
+      taskArguments.equipment,
+      encrypted.temperature,
+      encrypted.vibration,
+      encrypted.inputProof,
+    );
+    const receipt = await tx.wait();
+
+    const submitted = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DataSubmitted");
+    print(
+      { dataId: Number(submitted!.args.id), equipmentId: taskArguments.equipment, transactionHash: receipt!.hash },
+      taskArguments.json,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost pm:predict --id 7
+ */
+task("pm:predict", "Requests the RUL prediction of a reading and waits for the oracle")
+  .addParam("id", "Reading (data) id", undefined, types.int)
+  .addOptionalParam("address", "FHEPowerMaintenance address")
+  .addOptionalParam("timeout", "Seconds to wait for the oracle callback", 120, types.int)
+  .addFlag("json", "Print JSON instead of a table")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const contract = await getMaintenance(hre, taskArguments.address);
+
+    await (await contract.requestPrediction(taskArguments.id)).wait();
+    await fulfillDecryptions(hre);
+
+    const prediction = await poll(
+      () => readPrediction(contract, taskArguments.id),
+      (p) => p.processed,
+      taskArguments.timeout,
+      `Prediction for reading #${taskArguments.id}`,
+    );
+    print(prediction, taskArguments.json);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost pm:prediction --id 7
+ */
+task("pm:prediction", "Prints the decrypted RUL prediction of a reading")
+  .addParam("id", "Reading (data) id", undefined, types.int)
+  .addOptionalParam("address", "FHEPowerMaintenance address")
+  .addFlag("json", "Print JSON instead of a table")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getMaintenance(hre, taskArguments.address);
+    print(await readPrediction(contract, taskArguments.id), taskArguments.json);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost pm:equipment-count --equipment tr-north-1
+ *   - npx hardhat --network localhost pm:equipment-count --equipment tr-north-1 --cached
+ */
+task("pm:equipment-count", "Reveals how many predictions an asset has")
+  .addParam("equipment", "Equipment id")
+  .addOptionalParam("address", "FHEPowerMaintenance address")
+  .addOptionalParam("timeout", "Seconds to wait for the oracle callback", 120, types.int)
+  .addFlag("cached", "Print the last revealed count without requesting a new one")
+  .addFlag("json", "Print JSON instead of a table")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const contract = await getMaintenance(hre, taskArguments.address);
+    const equipmentId: string = taskArguments.equipment;
+
+    if (!taskArguments.cached) {
+      await (await contract.requestEquipmentCountDecryption(equipmentId)).wait();
+      await fulfillDecryptions(hre);
+    }
+
+    const reveal = await poll(
+      async () => {
+        const [status, requestId, count, revealedAt] = await contract.getEquipmentCountReveal(equipmentId);
+        return {
+          equipmentId,
+          status: DECRYPTION_STATUSES[Number(status)],
+          requestId: requestId.toString(),
+          count: Number(count),
+          revealedAt: revealedAt > 0n ? new Date(Number(revealedAt) * 1000).toISOString() : null,
+        };
+      },
+      (r) => taskArguments.cached || r.status !== "pending",
+      taskArguments.timeout,
+      `Equipment count for ${equipmentId}`,
+    );
+    print(reveal, taskArguments.json);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost pm:list-readings
+ *   - npx hardhat --network localhost pm:list-readings --equipment tr-north-1 --json
+ */
+task("pm:list-readings", "Lists submitted readings with their predictions")
+  .addOptionalParam("equipment", "Only list this equipment's readings")
+  .addOptionalParam("address", "FHEPowerMaintenance address")
+  .addFlag("json", "Print JSON instead of a table")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await getMaintenance(hre, taskArguments.address);
+
+    const ids: number[] = taskArguments.equipment
+      ? (await contract.getEquipmentReadings(taskArguments.equipment)).map(Number)
+      : Array.from({ length: Number(await contract.dataCount()) }, (_, i) => i + 1);
+
+    const rows = await Promise.all(
+      ids.map(async (id) => {
+        const data = await contract.encryptedData(id);
+        const [channelIds] = await contract.getReadingChannels(id);
+        const prediction = await readPrediction(contract, id);
+        return {
+          dataId: id,
+          equipmentId: data.equipmentId,
+          submittedAt: new Date(Number(data.timestamp) * 1000).toISOString(),
+          channels: channelIds.join(","),
+          processed: prediction.processed,
+          predictedRUL: prediction.predictedRUL,
+        };
+      }),
+    );
+    if (rows.length === 0 && !taskArguments.json) {
+      console.log("No readings");
+    } else {
+      print(rows, taskArguments.json);
+    }
+  });
@@ -0,0 +1,844 @@
+import { FhevmType, FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import { BUILTIN_CHANNELS, ChannelValues, SensorChannel } from "../frontend/web/src/channels";
+import {
+  encryptAlarmThreshold,
+  encryptChannelReadings,
+  encryptSensorReading,
+  encryptSensorReadings,
+  SensorReadingInput,
+  setMockEncryptor,
+  userDecryptHandles,
+} from "../frontend/web/src/fhe";
+import { decryptAlarmLevels } from "../frontend/web/src/maintenance";
+import { FHEPowerMaintenance, FHEPowerMaintenance__factory } from "../types";
+
+const TRANSFORMER = 0;
+const OPERATOR = 1;
+const TECHNICIAN = 2;
+
+// Emitted by the decryption oracle for every FHE.requestDecryption
+const decryptionOracle = new ethers.Interface([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+]);
+
+// Errors the KMS verifier raises while checking a decryption proof
+const kmsVerifier = new ethers.Contract(ethers.ZeroAddress, [
+  "error KMSInvalidSigner(address invalidSigner)",
+  "error EmptyDecryptionProof()",
+]);
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  operator: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("FHEPowerMaintenance")) as FHEPowerMaintenance__factory;
+  const contract = (await factory.deploy()) as FHEPowerMaintenance;
+  const contractAddress = await contract.getAddress();
+
+  return { contract, contractAddress };
+}
+
+describe("FHEPowerMaintenance", function () {
+  let signers: Signers;
+  let contract: FHEPowerMaintenance;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], operator: ethSigners[1], outsider: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // The RUL assertions rely on the mock decryption oracle
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+
+    await contract.registerSubstation("sub-1", "North substation", "Grid sector 7");
+    await contract.registerEquipment("eq-tr-1", "sub-1", "Main transformer", TRANSFORMER);
+    await contract.grantRole("sub-1", signers.operator.address, OPERATOR);
+  });
+
+  async function submitReading(reading: SensorReadingInput, equipmentId = "eq-tr-1"): Promise<bigint> {
+    const encrypted = await encryptSensorReading(contractAddress, signers.operator.address, reading, fhevm);
+    const tx = await contract
+      .connect(signers.operator)
+      .submitEncryptedSensorData(equipmentId, encrypted.temperature, encrypted.vibration, encrypted.inputProof);
+    await tx.wait();
+
+    return contract.dataCount();
+  }
+
+  async function predict(dataId: bigint) {
+    const tx = await contract.connect(signers.operator).requestPrediction(dataId);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function predictRUL(reading: SensorReadingInput): Promise<bigint> {
+    const dataId = await submitReading(reading);
+    await predict(dataId);
+
+    const [, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+    expect(isProcessed).to.eq(true);
+
+    return predictedRUL;
+  }
+
+  // Request id the contract handed to the decryption oracle in `tx`
+  async function requestIdOf(tx: ContractTransactionResponse): Promise<bigint> {
+    const receipt = await tx.wait();
+    for (const log of receipt!.logs) {
+      const parsed = decryptionOracle.parseLog(log);
+      if (parsed) return parsed.args.requestID;
+    }
+    throw new Error("No decryption request in transaction");
+  }
+
+  // Arguments of the oracle's most recent callback into the contract
+  async function lastCallback(name: "processPrediction" | "decryptEquipmentCount") {
+    const block = await ethers.provider.getBlock("latest", true);
+    const tx = block!.prefetchedTransactions.at(-1)!;
+    const [requestId, cleartexts, proof] = contract.interface.decodeFunctionData(name, tx.data);
+    return { requestId: requestId as bigint, cleartexts: cleartexts as string, proof: proof as string };
+  }
+
+  const encodeUint32 = (value: number) => ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [value]);
+
+  describe("RUL model", function () {
+    const vectors: { name: string; reading: SensorReadingInput; expectedRUL: bigint }[] = [
+      { name: "healthy equipment keeps the full RUL", reading: { temperature: 60, vibration: 2 }, expectedRUL: 10000n },
+      { name: "readings exactly at the thresholds", reading: { temperature: 65, vibration: 4.5 }, expectedRUL: 10000n },
+      { name: "overheating only", reading: { temperature: 90, vibration: 4.5 }, expectedRUL: 5000n },
+      { name: "excess vibration only", reading: { temperature: 50, vibration: 7.5 }, expectedRUL: 7000n },
+      { name: "both readings above threshold", reading: { temperature: 75, vibration: 5.5 }, expectedRUL: 7000n },
+      { name: "penalty equal to the base RUL", reading: { temperature: 115, vibration: 1 }, expectedRUL: 0n },
+      { name: "capped excess floors at zero", reading: { temperature: 120, vibration: 15 }, expectedRUL: 0n },
+    ];
+
+    for (const vector of vectors) {
+      it(vector.name, async function () {
+        expect(await predictRUL(vector.reading)).to.eq(vector.expectedRUL);
+      });
+    }
+  });
+
+  it("grants the submitter and the contract access to the readings", async function () {
+    const dataId = await submitReading({ temperature: 72.5, vibration: 3.21 });
+    const temperature = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      await contract.getChannelValue(dataId, "temperature"),
+      contractAddress,
+      signers.operator,
+    );
+    expect(temperature).to.eq(725n);
+  });
+
+  describe("batch submission", function () {
+    async function submitBatch(readings: { equipmentId: string; reading: SensorReadingInput }[]) {
+      const encrypted = await encryptSensorReadings(
+        contractAddress,
+        signers.operator.address,
+        readings.map((r) => r.reading),
+        fhevm,
+      );
+      return contract.connect(signers.operator).submitEncryptedSensorDataBatch(
+        readings.map((r) => r.equipmentId),
+        encrypted.temperatures,
+        encrypted.vibrations,
+        encrypted.inputProof,
+      );
+    }
+
+    it("stores every reading under one proof with one event each", async function () {
+      await contract.registerEquipment("eq-br-1", "sub-1", "Feeder breaker", 1);
+      const tx = await submitBatch([
+        { equipmentId: "eq-tr-1", reading: { temperature: 60, vibration: 2 } },
+        { equipmentId: "eq-br-1", reading: { temperature: 90, vibration: 4.5 } },
+        { equipmentId: "eq-tr-1", reading: { temperature: 75, vibration: 5.5 } },
+      ]);
+      await expect(tx).to.emit(contract, "DataSubmitted").withArgs(1n, "eq-tr-1", anyValue);
+      await expect(tx).to.emit(contract, "DataSubmitted").withArgs(2n, "eq-br-1", anyValue);
+      await expect(tx).to.emit(contract, "DataSubmitted").withArgs(3n, "eq-tr-1", anyValue);
+
+      expect(await contract.dataCount()).to.eq(3n);
+      expect(await contract.getEquipmentReadings("eq-tr-1")).to.deep.eq([1n, 3n]);
+
+      await predict(2n);
+      await predict(3n);
+      expect((await contract.getPrediction(2n))[1]).to.eq(5000n);
+      expect((await contract.getPrediction(3n))[1]).to.eq(7000n);
+    });
+
+    it("rejects empty, oversized and mismatched batches", async function () {
+      const max = Number(await contract.MAX_BATCH_SIZE());
+      const encrypted = await encryptSensorReadings(
+        contractAddress,
+        signers.operator.address,
+        [{ temperature: 60, vibration: 2 }, { temperature: 61, vibration: 2 }],
+        fhevm,
+      );
+      const asOperator = contract.connect(signers.operator);
+
+      await expect(asOperator.submitEncryptedSensorDataBatch([], [], [], encrypted.inputProof)).to.be.revertedWith(
+        "Invalid batch size",
+      );
+      const tooMany = Array(max + 1).fill(encrypted.temperatures[0]);
+      await expect(
+        asOperator.submitEncryptedSensorDataBatch(Array(max + 1).fill("eq-tr-1"), tooMany, tooMany, encrypted.inputProof),
+      ).to.be.revertedWith("Invalid batch size");
+      await expect(
+        asOperator.submitEncryptedSensorDataBatch(
+          ["eq-tr-1", "eq-tr-1"],
+          encrypted.temperatures,
+          encrypted.vibrations.slice(1),
+          encrypted.inputProof,
+        ),
+      ).to.be.revertedWith("Batch length mismatch");
+    });
+
+    it("requires the operator role for every asset in the batch", async function () {
+      await contract.registerSubstation("sub-2", "South substation", "Grid sector 2");
+      await contract.registerEquipment("eq-other", "sub-2", "Other transformer", TRANSFORMER);
+
+      await expect(
+        submitBatch([
+          { equipmentId: "eq-tr-1", reading: { temperature: 60, vibration: 2 } },
+          { equipmentId: "eq-other", reading: { temperature: 60, vibration: 2 } },
+        ]),
+      ).to.be.revertedWith("Only substation operator");
+      expect(await contract.dataCount()).to.eq(0n);
+    });
+
+    it("rejects handles that the proof does not cover", async function () {
+      const other = await encryptSensorReading(
+        contractAddress,
+        signers.operator.address,
+        { temperature: 1, vibration: 1 },
+        fhevm,
+      );
+      const encrypted = await encryptSensorReadings(
+        contractAddress,
+        signers.operator.address,
+        [{ temperature: 60, vibration: 2 }],
+        fhevm,
+      );
+      await expect(
+        contract
+          .connect(signers.operator)
+          .submitEncryptedSensorDataBatch(["eq-tr-1"], [other.temperature], encrypted.vibrations, encrypted.inputProof),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("sensor channels", function () {
+    const OIL_LEVEL: SensorChannel = { id: "oil_level", name: "Oil level", unit: "%", scale: 10, valueType: "euint16" };
+    const HUMIDITY: SensorChannel = { id: "humidity", name: "Humidity", unit: "%", scale: 1, valueType: "euint8" };
+    const DISSOLVED_GAS: SensorChannel = { id: "dga", name: "Dissolved gas", unit: "ppm", scale: 1, valueType: "euint64" };
+    const EXTRA_CHANNELS = [OIL_LEVEL, HUMIDITY, DISSOLVED_GAS];
+    const CHANNEL_TYPES = ["euint8", "euint16", "euint32", "euint64"];
+
+    async function registerChannel(channel: SensorChannel) {
+      const valueType = CHANNEL_TYPES.indexOf(channel.valueType);
+      return contract.registerChannel(channel.id, channel.name, channel.unit, channel.scale, valueType);
+    }
+
+    async function submitChannels(channels: SensorChannel[], readings: ChannelValues[], equipmentId = "eq-tr-1") {
+      const encrypted = await encryptChannelReadings(contractAddress, signers.operator.address, channels, readings, fhevm);
+      return contract.connect(signers.operator).submitEncryptedChannelData(
+        readings.map(() => equipmentId),
+        channels.map((c) => c.id),
+        encrypted.handles,
+        encrypted.inputProof,
+      );
+    }
+
+    it("registers temperature and vibration at deployment", async function () {
+      expect(await contract.getChannelIds()).to.deep.eq(["temperature", "vibration"]);
+      for (const channel of BUILTIN_CHANNELS) {
+        const [name, unit, scale, valueType] = await contract.getChannel(channel.id);
+        expect([name, unit, Number(scale), CHANNEL_TYPES[Number(valueType)]]).to.deep.eq([
+          channel.name,
+          channel.unit,
+          channel.scale,
+          channel.valueType,
+        ]);
+      }
+    });
+
+    it("lets admins register channels and rejects invalid ones", async function () {
+      await expect(registerChannel(OIL_LEVEL)).to.emit(contract, "ChannelRegistered").withArgs("oil_level");
+      expect(await contract.getChannelIds()).to.deep.eq(["temperature", "vibration", "oil_level"]);
+
+      await expect(registerChannel(OIL_LEVEL)).to.be.revertedWith("Channel already registered");
+      await expect(registerChannel({ ...HUMIDITY, id: "" })).to.be.revertedWith("Empty channel id");
+      await expect(registerChannel({ ...HUMIDITY, scale: 0 })).to.be.revertedWith("Invalid scale");
+      await expect(
+        contract.connect(signers.operator).registerChannel("humidity", "Humidity", "%", 1, 0),
+      ).to.be.revertedWith("Only admin");
+      await expect(contract.getChannel("humidity")).to.be.revertedWith("Channel not registered");
+    });
+
+    it("stores one ciphertext per channel with the channel's encrypted type", async function () {
+      for (const channel of EXTRA_CHANNELS) {
+        await registerChannel(channel);
+      }
+      const channels = [...BUILTIN_CHANNELS, ...EXTRA_CHANNELS];
+      await submitChannels(channels, [
+        { temperature: 70, vibration: 3, oil_level: 87.5, humidity: 40, dga: 5_000_000_000 },
+        { temperature: 90, vibration: 4.5, oil_level: 60, humidity: 300, dga: 12 },
+      ]);
+
+      const [ids, handles] = await contract.getReadingChannels(2n);
+      expect(ids).to.deep.eq(channels.map((c) => c.id));
+      expect(handles[4]).to.eq(await contract.getChannelValue(2n, "dga"));
+
+      const decrypt = async (type: FhevmTypeEuint, dataId: bigint, channelId: string) =>
+        fhevm.userDecryptEuint(type, await contract.getChannelValue(dataId, channelId), contractAddress, signers.operator);
+      expect(await decrypt(FhevmType.euint16, 1n, "oil_level")).to.eq(875n);
+      expect(await decrypt(FhevmType.euint8, 1n, "humidity")).to.eq(40n);
+      expect(await decrypt(FhevmType.euint64, 1n, "dga")).to.eq(5_000_000_000n);
+      // Values beyond the channel type are clamped before encryption
+      expect(await decrypt(FhevmType.euint8, 2n, "humidity")).to.eq(255n);
+
+      await predict(2n);
+      expect((await contract.getPrediction(2n))[1]).to.eq(5000n);
+    });
+
+    it("rejects unregistered, duplicate and missing channels", async function () {
+      await registerChannel(OIL_LEVEL);
+      const encrypted = await encryptChannelReadings(
+        contractAddress,
+        signers.operator.address,
+        [OIL_LEVEL, OIL_LEVEL],
+        [{ oil_level: 90 }],
+        fhevm,
+      );
+      const asOperator = contract.connect(signers.operator);
+
+      await expect(
+        asOperator.submitEncryptedChannelData(["eq-tr-1"], ["oil_level", "humidity"], encrypted.handles, encrypted.inputProof),
+      ).to.be.revertedWith("Channel not registered");
+      await expect(
+        asOperator.submitEncryptedChannelData(["eq-tr-1"], ["oil_level", "oil_level"], encrypted.handles, encrypted.inputProof),
+      ).to.be.revertedWith("Duplicate channel");
+      await expect(
+        asOperator.submitEncryptedChannelData(["eq-tr-1"], ["oil_level"], encrypted.handles, encrypted.inputProof),
+      ).to.be.revertedWith("Batch length mismatch");
+      await expect(
+        asOperator.submitEncryptedChannelData([], ["oil_level"], [], encrypted.inputProof),
+      ).to.be.revertedWith("Invalid batch size");
+    });
+
+    it("refuses predictions for readings without the RUL channels", async function () {
+      await registerChannel(OIL_LEVEL);
+      await submitChannels([OIL_LEVEL], [{ oil_level: 90 }]);
+
+      await expect(contract.getChannelValue(1n, "temperature")).to.be.revertedWith("Channel not in reading");
+      await expect(contract.connect(signers.operator).requestPrediction(1n)).to.be.revertedWith(
+        "Reading lacks RUL channels",
+      );
+    });
+  });
+
+  describe("alarm thresholds", function () {
+    const [TEMPERATURE, VIBRATION] = BUILTIN_CHANNELS;
+    const ALARM_LEVELS = ["normal", "warning", "critical"];
+
+    async function setThreshold(channel: SensorChannel, warning: number, critical: number, equipmentId = "eq-tr-1") {
+      const encrypted = await encryptAlarmThreshold(
+        contractAddress,
+        signers.operator.address,
+        channel,
+        warning,
+        critical,
+        fhevm,
+      );
+      return contract
+        .connect(signers.operator)
+        .setAlarmThreshold(equipmentId, channel.id, encrypted.warning, encrypted.critical, encrypted.inputProof);
+    }
+
+    async function alarmLevels(dataIds: bigint[], signer = signers.operator) {
+      const handles = await Promise.all(dataIds.map((id) => contract.getAlarmLevel(id)));
+      const levels = await userDecryptHandles(contractAddress, handles, signer, fhevm);
+      return levels.map((level) => ALARM_LEVELS[Number(level)]);
+    }
+
+    beforeEach(async function () {
+      await setThreshold(TEMPERATURE, 70, 85);
+      await setThreshold(VIBRATION, 5, 8);
+    });
+
+    it("evaluates every submission against the asset's thresholds", async function () {
+      const encrypted = await encryptSensorReadings(
+        contractAddress,
+        signers.operator.address,
+        [
+          { temperature: 60, vibration: 2 },
+          { temperature: 70, vibration: 2 },
+          { temperature: 60, vibration: 5.5 },
+          { temperature: 90, vibration: 2 },
+          { temperature: 75, vibration: 8 },
+        ],
+        fhevm,
+      );
+      await contract
+        .connect(signers.operator)
+        .submitEncryptedSensorDataBatch(
+          Array(5).fill("eq-tr-1"),
+          encrypted.temperatures,
+          encrypted.vibrations,
+          encrypted.inputProof,
+        );
+
+      // A level is the highest one reached by any channel, thresholds included
+      expect(await alarmLevels([1n, 2n, 3n, 4n, 5n])).to.deep.eq(["normal", "warning", "warning", "critical", "critical"]);
+    });
+
+    it("compares channels of any type and skips channels without thresholds", async function () {
+      const oilLevel: SensorChannel = { id: "oil_level", name: "Oil level", unit: "%", scale: 10, valueType: "euint16" };
+      const humidity: SensorChannel = { id: "humidity", name: "Humidity", unit: "%", scale: 1, valueType: "euint8" };
+      await contract.registerChannel(oilLevel.id, oilLevel.name, oilLevel.unit, oilLevel.scale, 1);
+      await contract.registerChannel(humidity.id, humidity.name, humidity.unit, humidity.scale, 0);
+      await setThreshold(humidity, 60, 80);
+
+      const channels = [oilLevel, humidity];
+      const encrypted = await encryptChannelReadings(
+        contractAddress,
+        signers.operator.address,
+        channels,
+        [
+          { oil_level: 99, humidity: 40 },
+          { oil_level: 99, humidity: 85 },
+        ],
+        fhevm,
+      );
+      await contract
+        .connect(signers.operator)
+        .submitEncryptedChannelData(
+          ["eq-tr-1", "eq-tr-1"],
+          channels.map((c) => c.id),
+          encrypted.handles,
+          encrypted.inputProof,
+        );
+
+      expect(await alarmLevels([1n, 2n])).to.deep.eq(["normal", "critical"]);
+    });
+
+    it("leaves readings of assets without thresholds unevaluated", async function () {
+      await contract.registerEquipment("eq-br-1", "sub-1", "Feeder breaker", 1);
+      const dataId = await submitReading({ temperature: 99, vibration: 9 }, "eq-br-1");
+
+      expect(await contract.getAlarmLevel(dataId)).to.eq(ethers.ZeroHash);
+      expect(await contract.canDecryptAlarmLevel(dataId, signers.operator.address)).to.eq(false);
+      await expect(contract.connect(signers.operator).allowAlarmLevels([dataId])).to.be.revertedWith(
+        "No alarm level",
+      );
+    });
+
+    it("shares only the alarm level with other operators of the substation", async function () {
+      const dataId = await submitReading({ temperature: 90, vibration: 2 });
+      await contract.grantRole("sub-1", signers.deployer.address, OPERATOR);
+
+      expect(await contract.canDecryptAlarmLevel(dataId, signers.operator.address)).to.eq(true);
+      expect(await contract.canDecryptAlarmLevel(dataId, signers.deployer.address)).to.eq(false);
+      await expect(contract.connect(signers.outsider).allowAlarmLevels([dataId])).to.be.revertedWith(
+        "Only substation operator",
+      );
+
+      await contract.connect(signers.deployer).allowAlarmLevels([dataId]);
+      expect(await alarmLevels([dataId], signers.deployer)).to.deep.eq(["critical"]);
+
+      const temperature = await contract.getChannelValue(dataId, "temperature");
+      const error = await fhevm
+        .userDecryptEuint(FhevmType.euint32, temperature, contractAddress, signers.deployer)
+        .then(
+          () => "",
+          (e: Error) => e.message,
+        );
+      expect(error).to.not.eq("");
+    });
+
+    it("reveals only the levels of readings from substations the caller operates", async function () {
+      await contract.registerSubstation("sub-2", "South substation", "Grid sector 2");
+      await contract.registerEquipment("eq-tr-2", "sub-2", "Backup transformer", TRANSFORMER);
+      await contract.registerEquipment("eq-br-1", "sub-1", "Feeder breaker", 1);
+      await contract.grantRole("sub-2", signers.operator.address, OPERATOR);
+      await setThreshold(TEMPERATURE, 70, 85, "eq-tr-2");
+      const own = await submitReading({ temperature: 90, vibration: 2 });
+      const other = await submitReading({ temperature: 90, vibration: 2 }, "eq-tr-2");
+      const unevaluated = await submitReading({ temperature: 90, vibration: 2 }, "eq-br-1");
+      await contract.grantRole("sub-1", signers.deployer.address, OPERATOR);
+
+      setMockEncryptor(fhevm);
+      try {
+        const levels = await decryptAlarmLevels(
+          contract.connect(signers.deployer),
+          [own, other, unevaluated].map(Number),
+        );
+        expect(levels).to.deep.eq({ [Number(own)]: "critical", [Number(unevaluated)]: null });
+      } finally {
+        setMockEncryptor(null);
+      }
+      expect(await contract.canDecryptAlarmLevel(other, signers.deployer.address)).to.eq(false);
+    });
+
+    it("restricts thresholds to registered channels and the substation's operators", async function () {
+      await expect(setThreshold({ ...TEMPERATURE, id: "oil_level" }, 1, 2)).to.be.revertedWith(
+        "Channel not registered",
+      );
+
+      const encrypted = await encryptAlarmThreshold(
+        contractAddress,
+        signers.outsider.address,
+        TEMPERATURE,
+        70,
+        85,
+        fhevm,
+      );
+      await expect(
+        contract
+          .connect(signers.outsider)
+          .setAlarmThreshold("eq-tr-1", "temperature", encrypted.warning, encrypted.critical, encrypted.inputProof),
+      ).to.be.revertedWith("Only substation operator");
+
+      const error = await setThreshold(TEMPERATURE, 85, 70).then(
+        () => "",
+        (e: Error) => e.message,
+      );
+      expect(error).to.eq("Temperature critical threshold is below the warning threshold");
+    });
+
+    it("evaluates alarms for a full batch within one transaction", async function () {
+      const max = Number(await contract.MAX_BATCH_SIZE());
+      const readings = Array.from({ length: max }, (_, i) => ({ temperature: 60 + i, vibration: 2 }));
+      const encrypted = await encryptSensorReadings(contractAddress, signers.operator.address, readings, fhevm);
+      await contract
+        .connect(signers.operator)
+        .submitEncryptedSensorDataBatch(
+          Array(max).fill("eq-tr-1"),
+          encrypted.temperatures,
+          encrypted.vibrations,
+          encrypted.inputProof,
+        );
+
+      const levels = await alarmLevels([1n, 11n, BigInt(max)]);
+      expect(levels).to.deep.eq(["normal", "warning", "critical"]);
+    });
+  });
+
+  describe("decryption callbacks", function () {
+    it("runs submit, request, callback and read end to end", async function () {
+      const dataId = await submitReading({ temperature: 75, vibration: 5.5 });
+
+      const tx = await contract.connect(signers.operator).requestPrediction(dataId);
+      await expect(tx).to.emit(contract, "PredictionRequested").withArgs(dataId);
+      const requestId = await requestIdOf(tx);
+
+      let [, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+      expect(isProcessed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const callback = await lastCallback("processPrediction");
+      expect(callback.requestId).to.eq(requestId);
+      expect(await contract.queryFilter(contract.filters.PredictionProcessed(dataId))).to.have.length(1);
+
+      [, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+      expect(isProcessed).to.eq(true);
+      expect(predictedRUL).to.eq(7000n);
+      expect(await contract.latestPredictionId("eq-tr-1")).to.eq(dataId);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, await contract.getEncryptedEquipmentCount("eq-tr-1")),
+      ).to.eq(1n);
+    });
+
+    it("rejects unknown request ids, including ones issued for the other callback", async function () {
+      await expect(contract.processPrediction(42, encodeUint32(10000), "0x")).to.be.revertedWith("Invalid request");
+
+      const countTx = await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+      const countRequestId = await requestIdOf(countTx);
+      await expect(contract.processPrediction(countRequestId, encodeUint32(10000), "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+
+      const dataId = await submitReading({ temperature: 60, vibration: 2 });
+      const predictionRequestId = await requestIdOf(
+        await contract.connect(signers.operator).requestPrediction(dataId),
+      );
+      await expect(contract.decryptEquipmentCount(predictionRequestId, encodeUint32(5), "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+
+    it("rejects processing a prediction twice", async function () {
+      const dataId = await submitReading({ temperature: 90, vibration: 4.5 });
+      await predict(dataId);
+      const callback = await lastCallback("processPrediction");
+
+      // Replaying the oracle's own, correctly signed callback
+      await expect(
+        contract.processPrediction(callback.requestId, callback.cleartexts, callback.proof),
+      ).to.be.revertedWith("Already processed");
+      await expect(contract.connect(signers.operator).requestPrediction(dataId)).to.be.revertedWith(
+        "Already processed",
+      );
+
+      const [, predictedRUL] = await contract.getPrediction(dataId);
+      expect(predictedRUL).to.eq(5000n);
+    });
+
+    it("rejects revealing an equipment count twice", async function () {
+      await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+      await fhevm.awaitDecryptionOracle();
+      const callback = await lastCallback("decryptEquipmentCount");
+
+      await expect(
+        contract.decryptEquipmentCount(callback.requestId, encodeUint32(99), callback.proof),
+      ).to.be.revertedWith("Invalid request");
+      const [, , count] = await contract.getEquipmentCountReveal("eq-tr-1");
+      expect(count).to.eq(0n);
+    });
+
+    it("rejects results that are not signed by the KMS for the request", async function () {
+      await predict(await submitReading({ temperature: 60, vibration: 2 }));
+      const signed = await lastCallback("processPrediction");
+
+      const dataId = await submitReading({ temperature: 120, vibration: 15 });
+      const requestId = await requestIdOf(await contract.connect(signers.operator).requestPrediction(dataId));
+
+      // A valid proof for another request, a forged cleartext and no proof at all
+      await expect(
+        contract.processPrediction(requestId, signed.cleartexts, signed.proof),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+      await expect(
+        contract.processPrediction(requestId, encodeUint32(10000), signed.proof),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+      await expect(contract.processPrediction(requestId, encodeUint32(10000), "0x")).to.be.revertedWithCustomError(
+        kmsVerifier,
+        "EmptyDecryptionProof",
+      );
+
+      let [, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+      expect(isProcessed).to.eq(false);
+
+      // The genuine callback still goes through afterwards
+      await fhevm.awaitDecryptionOracle();
+      [, predictedRUL, isProcessed] = await contract.getPrediction(dataId);
+      expect(isProcessed).to.eq(true);
+      expect(predictedRUL).to.eq(0n);
+    });
+
+    it("rejects an equipment count signed for another request", async function () {
+      await predict(await submitReading({ temperature: 60, vibration: 2 }));
+      const signed = await lastCallback("processPrediction");
+
+      const requestId = await requestIdOf(
+        await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1"),
+      );
+      await expect(
+        contract.decryptEquipmentCount(requestId, encodeUint32(99), signed.proof),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+
+      const [status] = await contract.getEquipmentCountReveal("eq-tr-1");
+      expect(status).to.eq(1n);
+    });
+  });
+
+  describe("equipment", function () {
+    it("rejects readings for unregistered equipment", async function () {
+      await expect(submitReading({ temperature: 60, vibration: 2 }, "eq-unknown")).to.be.revertedWith(
+        "Equipment not registered",
+      );
+    });
+
+    it("rejects duplicate registrations", async function () {
+      await expect(contract.registerEquipment("eq-tr-1", "sub-1", "Duplicate", TRANSFORMER)).to.be.revertedWith(
+        "Equipment already registered",
+      );
+    });
+
+    it("aggregates readings, predictions and counts per asset", async function () {
+      await contract.registerEquipment("eq-br-1", "sub-1", "Feeder breaker", 1);
+
+      const first = await submitReading({ temperature: 60, vibration: 2 });
+      const other = await submitReading({ temperature: 60, vibration: 2 }, "eq-br-1");
+      const second = await submitReading({ temperature: 75, vibration: 5.5 });
+
+      expect(await contract.getEquipmentReadings("eq-tr-1")).to.deep.eq([first, second]);
+      expect(await contract.getEquipmentReadings("eq-br-1")).to.deep.eq([other]);
+      expect(await contract.getEquipmentIds()).to.deep.eq(["eq-tr-1", "eq-br-1"]);
+
+      await predict(second);
+      await predict(first);
+
+      const [equipmentId] = await contract.getPrediction(first);
+      expect(equipmentId).to.eq("eq-tr-1");
+      expect(await contract.latestPredictionId("eq-tr-1")).to.eq(second);
+
+      const count = await fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        await contract.getEncryptedEquipmentCount("eq-tr-1"),
+      );
+      expect(count).to.eq(2n);
+
+      const [substationId, , kind, readingCount] = await contract.getEquipment("eq-tr-1");
+      expect(substationId).to.eq("sub-1");
+      expect(kind).to.eq(TRANSFORMER);
+      expect(readingCount).to.eq(2n);
+    });
+  });
+
+  describe("equipment count reveal", function () {
+    const PENDING = 1n;
+    const COMPLETED = 2n;
+
+    it("stores and emits the revealed count", async function () {
+      await predict(await submitReading({ temperature: 60, vibration: 2 }));
+      await predict(await submitReading({ temperature: 70, vibration: 2 }));
+
+      const tx = await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+      await expect(tx).to.emit(contract, "EquipmentCountRequested");
+
+      let [status, requestId] = await contract.getEquipmentCountReveal("eq-tr-1");
+      expect(status).to.eq(PENDING);
+
+      await fhevm.awaitDecryptionOracle();
+
+      let count: bigint;
+      [status, , count] = await contract.getEquipmentCountReveal("eq-tr-1");
+      expect(status).to.eq(COMPLETED);
+      expect(count).to.eq(2n);
+
+      const revealed = await contract.queryFilter(contract.filters.EquipmentCountRevealed(undefined, requestId));
+      expect(revealed).to.have.length(1);
+      expect(revealed[0].args.equipmentId).to.eq("eq-tr-1");
+      expect(revealed[0].args.count).to.eq(2n);
+    });
+
+    it("rejects a second request while one is pending", async function () {
+      await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+      await expect(
+        contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1"),
+      ).to.be.revertedWith("Decryption already pending");
+
+      await fhevm.awaitDecryptionOracle();
+      await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+    });
+
+    it("allows a new request once the pending one timed out", async function () {
+      await predict(await submitReading({ temperature: 60, vibration: 2 }));
+      await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+      const [, stalled] = await contract.getEquipmentCountReveal("eq-tr-1");
+
+      await ethers.provider.send("evm_increaseTime", [Number(await contract.COUNT_DECRYPTION_TIMEOUT()) - 60]);
+      await expect(
+        contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1"),
+      ).to.be.revertedWith("Decryption already pending");
+
+      await ethers.provider.send("evm_increaseTime", [60]);
+      await contract.connect(signers.operator).requestEquipmentCountDecryption("eq-tr-1");
+      const [status, requestId, , , requestedAt] = await contract.getEquipmentCountReveal("eq-tr-1");
+      expect(status).to.eq(PENDING);
+      expect(requestId).to.not.eq(stalled);
+      expect(requestedAt).to.eq((await ethers.provider.getBlock("latest"))!.timestamp);
+
+      // The abandoned request no longer maps to the asset. The oracle's late
+      // callback for it reverts too; draining it here keeps it out of later tests.
+      await expect(contract.decryptEquipmentCount(stalled, "0x", "0x")).to.be.revertedWith("Invalid request");
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Invalid request");
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(contract.decryptEquipmentCount(42, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+
+    it("restricts requests to the substation's operators", async function () {
+      await expect(
+        contract.connect(signers.outsider).requestEquipmentCountDecryption("eq-tr-1"),
+      ).to.be.revertedWith("Only substation operator");
+    });
+  });
+
+  describe("roles", function () {
+    it("only lets the owner appoint admins", async function () {
+      await expect(
+        contract.connect(signers.operator).setAdmin(signers.operator.address, true),
+      ).to.be.revertedWith("Only owner");
+
+      await contract.setAdmin(signers.outsider.address, true);
+      expect(await contract.isAdmin(signers.outsider.address)).to.eq(true);
+      await contract.connect(signers.outsider).registerSubstation("sub-2", "South substation", "Grid sector 2");
+    });
+
+    it("only lets admins register assets and grant roles", async function () {
+      const asOperator = contract.connect(signers.operator);
+      await expect(asOperator.registerSubstation("sub-2", "South", "Sector 2")).to.be.revertedWith("Only admin");
+      await expect(asOperator.registerEquipment("eq-2", "sub-1", "Line", 2)).to.be.revertedWith("Only admin");
+      await expect(asOperator.grantRole("sub-1", signers.outsider.address, OPERATOR)).to.be.revertedWith(
+        "Only admin",
+      );
+      await expect(contract.registerEquipment("eq-2", "sub-missing", "Line", 2)).to.be.revertedWith(
+        "Substation not registered",
+      );
+    });
+
+    it("restricts submissions and predictions to the substation's operators", async function () {
+      const dataId = await submitReading({ temperature: 60, vibration: 2 });
+
+      const encrypted = await encryptSensorReading(
+        contractAddress,
+        signers.outsider.address,
+        { temperature: 60, vibration: 2 },
+        fhevm,
+      );
+      await expect(
+        contract
+          .connect(signers.outsider)
+          .submitEncryptedSensorData("eq-tr-1", encrypted.temperature, encrypted.vibration, encrypted.inputProof),
+      ).to.be.revertedWith("Only substation operator");
+      await expect(contract.connect(signers.outsider).requestPrediction(dataId)).to.be.revertedWith(
+        "Only substation operator",
+      );
+
+      // Technicians belong to the substation but cannot operate it
+      await contract.grantRole("sub-1", signers.outsider.address, TECHNICIAN);
+      await expect(contract.connect(signers.outsider).requestPrediction(dataId)).to.be.revertedWith(
+        "Only substation operator",
+      );
+    });
+
+    it("tracks members as roles are granted and revoked", async function () {
+      await contract.grantRole("sub-1", signers.outsider.address, TECHNICIAN);
+
+      let [accounts, roles] = await contract.getSubstationMembers("sub-1");
+      expect(accounts).to.deep.eq([signers.operator.address, signers.outsider.address]);
+      expect(roles).to.deep.eq([BigInt(OPERATOR), BigInt(TECHNICIAN)]);
+
+      await contract.revokeRole("sub-1", signers.operator.address);
+      [accounts, roles] = await contract.getSubstationMembers("sub-1");
+      expect(accounts).to.deep.eq([signers.outsider.address]);
+      expect(roles).to.deep.eq([BigInt(TECHNICIAN)]);
+
+      await expect(submitReading({ temperature: 60, vibration: 2 })).to.be.revertedWith("Only substation operator");
+      await expect(contract.revokeRole("sub-1", signers.operator.address)).to.be.revertedWith("Role not granted");
+    });
+  });
+
+  it("rejects predictions for unknown readings", async function () {
+    await expect(contract.connect(signers.operator).requestPrediction(1)).to.be.revertedWith("Data not found");
+  });
+});
@@ -0,0 +1,141 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { FHEPowerMaintenance, MaintenanceTickets } from "../types";
+
+const OPERATOR = 1;
+const TECHNICIAN = 2;
+const HIGH = 2;
+const TRANSFORMER = 0;
+
+// MaintenanceTickets.TicketStatus
+const PENDING = 0n;
+const ASSIGNED = 1n;
+const IN_PROGRESS = 2n;
+const COMPLETED = 3n;
+const CANCELLED = 4n;
+
+describe("MaintenanceTickets", function () {
+  let operator: HardhatEthersSigner;
+  let technician: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let registry: FHEPowerMaintenance;
+  let contract: MaintenanceTickets;
+
+  before(async function () {
+    [, operator, technician, outsider] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    registry = (await (await ethers.getContractFactory("FHEPowerMaintenance")).deploy()) as FHEPowerMaintenance;
+    const factory = await ethers.getContractFactory("MaintenanceTickets");
+    contract = (await factory.deploy(await registry.getAddress())) as MaintenanceTickets;
+
+    await registry.registerSubstation("sub-1", "North substation", "Grid sector 7");
+    await registry.registerSubstation("sub-2", "South substation", "Grid sector 2");
+    await registry.registerEquipment("eq-tr-1", "sub-1", "Main transformer", TRANSFORMER);
+    await registry.registerEquipment("eq-tr-2", "sub-2", "Backup transformer", TRANSFORMER);
+    await registry.grantRole("sub-1", operator.address, OPERATOR);
+    await registry.grantRole("sub-1", technician.address, TECHNICIAN);
+  });
+
+  async function openTicket(): Promise<bigint> {
+    await contract.connect(operator).createTicket("sub-1", "eq-tr-1", 7, "Oil leak", HIGH);
+    return contract.ticketCount();
+  }
+
+  it("runs a ticket from creation to completion", async function () {
+    const ticketId = await openTicket();
+    const opened = await contract.getTicket(ticketId);
+    expect(opened.status).to.eq(PENDING);
+    expect(opened.equipmentId).to.eq("eq-tr-1");
+    expect(opened.dataId).to.eq(7n);
+
+    await expect(contract.connect(operator).assignTicket(ticketId, technician.address))
+      .to.emit(contract, "TicketAssigned")
+      .withArgs(ticketId, technician.address, operator.address);
+    expect((await contract.getTicket(ticketId)).status).to.eq(ASSIGNED);
+
+    await contract.connect(technician).startTicket(ticketId);
+    expect((await contract.getTicket(ticketId)).status).to.eq(IN_PROGRESS);
+
+    await contract.connect(technician).addWorkNote(ticketId, "Gasket replaced");
+    await contract.connect(operator).addWorkNote(ticketId, "Parts approved");
+    await contract.connect(technician).completeTicket(ticketId, "Leak fixed, oil topped up");
+
+    const ticket = await contract.getTicket(ticketId);
+    expect(ticket.status).to.eq(COMPLETED);
+    expect(ticket.resolution).to.eq("Leak fixed, oil topped up");
+
+    const notes = await contract.getWorkNotes(ticketId);
+    expect(notes.map((note) => note.text)).to.deep.eq(["Gasket replaced", "Parts approved"]);
+    expect(await contract.getSubstationTickets("sub-1")).to.deep.eq([ticketId]);
+  });
+
+  it("enforces transition order", async function () {
+    const ticketId = await openTicket();
+
+    await expect(contract.connect(technician).startTicket(ticketId)).to.be.revertedWith("Only assigned technician");
+    await contract.connect(operator).assignTicket(ticketId, technician.address);
+    await expect(contract.connect(technician).completeTicket(ticketId, "Done")).to.be.revertedWith(
+      "Ticket not in progress",
+    );
+
+    await contract.connect(technician).startTicket(ticketId);
+    await expect(contract.connect(operator).assignTicket(ticketId, technician.address)).to.be.revertedWith(
+      "Ticket not assignable",
+    );
+    await expect(contract.connect(technician).completeTicket(ticketId, "")).to.be.revertedWith(
+      "Resolution required",
+    );
+  });
+
+  it("cancels open tickets with a reason", async function () {
+    const ticketId = await openTicket();
+
+    await expect(contract.connect(operator).cancelTicket(ticketId, "")).to.be.revertedWith("Reason required");
+    await contract.connect(operator).cancelTicket(ticketId, "Duplicate of #1");
+
+    const ticket = await contract.getTicket(ticketId);
+    expect(ticket.status).to.eq(CANCELLED);
+    expect(ticket.resolution).to.eq("Duplicate of #1");
+
+    await expect(contract.connect(operator).cancelTicket(ticketId, "Again")).to.be.revertedWith("Ticket closed");
+    await expect(contract.connect(operator).addWorkNote(ticketId, "Late note")).to.be.revertedWith("Ticket closed");
+  });
+
+  it("only accepts equipment of the ticket's substation", async function () {
+    await expect(
+      contract.connect(operator).createTicket("sub-1", "eq-tr-2", 0, "Noise", HIGH),
+    ).to.be.revertedWith("Equipment not in substation");
+    await expect(
+      contract.connect(operator).createTicket("sub-1", "eq-missing", 0, "Noise", HIGH),
+    ).to.be.revertedWith("Equipment not registered");
+
+    // Substation-wide tickets name no equipment
+    await contract.connect(operator).createTicket("sub-1", "", 0, "Fence damaged", HIGH);
+    expect((await contract.getTicket(await contract.ticketCount())).equipmentId).to.eq("");
+  });
+
+  it("checks registry roles", async function () {
+    await expect(
+      contract.connect(outsider).createTicket("sub-1", "", 0, "Noise", HIGH),
+    ).to.be.revertedWith("Only substation operator");
+    await expect(
+      contract.connect(operator).createTicket("sub-missing", "", 0, "Noise", HIGH),
+    ).to.be.revertedWith("Substation not registered");
+
+    const ticketId = await openTicket();
+    await expect(contract.connect(operator).assignTicket(ticketId, outsider.address)).to.be.revertedWith(
+      "Not a substation technician",
+    );
+    await expect(contract.connect(outsider).cancelTicket(ticketId, "Spam")).to.be.revertedWith(
+      "Only substation operator",
+    );
+    await expect(contract.connect(outsider).addWorkNote(ticketId, "Hi")).to.be.revertedWith(
+      "Not a ticket participant",
+    );
+    await expect(contract.getTicket(99)).to.be.revertedWith("Ticket not found");
+  });
+});
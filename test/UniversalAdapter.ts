@@ -0,0 +1,78 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { UniversalAdapter, UniversalAdapter__factory } from "../types";
+
+const TICKETS = "maintenance_tickets";
+
+const encode = (value: object) => ethers.toUtf8Bytes(JSON.stringify(value));
+
+describe("UniversalAdapter", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: UniversalAdapter;
+
+  before(async function () {
+    [alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory("UniversalAdapter")) as UniversalAdapter__factory;
+    contract = (await factory.deploy()) as UniversalAdapter;
+  });
+
+  it("keeps the key/value interface", async function () {
+    await expect(contract.setData("sensor_data", "0x1234"))
+      .to.emit(contract, "DataStored")
+      .withArgs(alice.address, "sensor_data", "0x1234");
+    expect(await contract.getData("sensor_data")).to.eq("0x1234");
+    expect(await contract.isAvailable()).to.eq(true);
+  });
+
+  it("appends records independently", async function () {
+    await contract.connect(alice).appendRecord(TICKETS, "t-1", encode({ issue: "Oil leak" }));
+    await contract.connect(bob).appendRecord(TICKETS, "t-2", encode({ issue: "Breaker trip" }));
+
+    const [ids, values, versions] = await contract.getRecords(TICKETS);
+    expect(ids).to.deep.eq(["t-1", "t-2"]);
+    expect(ethers.toUtf8String(values[1])).to.eq(JSON.stringify({ issue: "Breaker trip" }));
+    expect(versions).to.deep.eq([1n, 1n]);
+
+    await expect(contract.appendRecord(TICKETS, "t-1", "0x")).to.be.revertedWith("Record already exists");
+  });
+
+  it("rejects updates based on a stale version", async function () {
+    await contract.appendRecord(TICKETS, "t-1", encode({ status: "pending" }));
+
+    await expect(contract.connect(alice).updateRecord(TICKETS, "t-1", encode({ status: "in-progress" }), 1))
+      .to.emit(contract, "RecordStored")
+      .withArgs(TICKETS, "t-1", 2, ethers.hexlify(encode({ status: "in-progress" })), alice.address);
+
+    // Bob read version 1 before Alice's write landed
+    await expect(
+      contract.connect(bob).updateRecord(TICKETS, "t-1", encode({ status: "completed" }), 1),
+    ).to.be.revertedWith("Stale record version");
+
+    const [value, version] = await contract.getRecord(TICKETS, "t-1");
+    expect(ethers.toUtf8String(value)).to.eq(JSON.stringify({ status: "in-progress" }));
+    expect(version).to.eq(2n);
+  });
+
+  it("deletes records and keeps versions increasing", async function () {
+    await contract.appendRecord(TICKETS, "t-1", "0x01");
+    await contract.appendRecord(TICKETS, "t-2", "0x02");
+    await contract.appendRecord(TICKETS, "t-3", "0x03");
+
+    await expect(contract.deleteRecord(TICKETS, "t-1", 0)).to.be.revertedWith("Stale record version");
+    await contract.deleteRecord(TICKETS, "t-1", 1);
+
+    expect(await contract.getRecordIds(TICKETS)).to.deep.eq(["t-3", "t-2"]);
+    await expect(contract.getRecord(TICKETS, "t-1")).to.be.revertedWith("Record not found");
+    await expect(contract.updateRecord(TICKETS, "t-1", "0x", 2)).to.be.revertedWith("Record not found");
+
+    await contract.appendRecord(TICKETS, "t-1", "0x04");
+    const [, version] = await contract.getRecord(TICKETS, "t-1");
+    expect(version).to.eq(3n);
+  });
+});
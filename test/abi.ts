@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+
+import { abiFile, stripMetadata, syncAbis } from "../deploy/abi";
+import { buildChainDeployment } from "../deploy/bundle";
+import { deployAll } from "../deploy/deployments";
+import { ChainDeployment } from "../frontend/web/src/deployment";
+
+describe("ABI sync", function () {
+  let dir: string;
+  let abiDir: string;
+  let deployment: ChainDeployment;
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "abi-"));
+    abiDir = path.join(dir, "abi");
+    const [signer] = await ethers.getSigners();
+    const manifest = await deployAll({ signer, network: "hardhat", dir, log: () => {} });
+    deployment = buildChainDeployment(manifest, "abc123");
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const syncError = (options = {}) =>
+    syncAbis(deployment, { dir: abiDir, ...options }).then(
+      () => "",
+      (error: Error) => error.message
+    );
+
+  it("exports only the ABI of every deployed contract and removes stray files", async function () {
+    fs.mkdirSync(abiDir);
+    fs.writeFileSync(path.join(abiDir, "UniversalAdapter-cc98.json"), "{}");
+
+    const files = await syncAbis(deployment, { dir: abiDir });
+    expect(files).to.deep.eq(["UniversalAdapter.json", "FHEPowerMaintenance.json", "MaintenanceTickets.json"]);
+    expect(fs.existsSync(path.join(abiDir, "UniversalAdapter-cc98.json"))).to.eq(false);
+
+    // MaintenanceTickets has an immutable, so this also covers the masking
+    const abi = JSON.parse(fs.readFileSync(abiFile("MaintenanceTickets", abiDir), "utf8"));
+    expect(abi).to.be.an("array");
+    expect(abi.some((fragment: { name?: string }) => fragment.name === "createTicket")).to.eq(true);
+
+    expect(await syncAbis(deployment, { dir: abiDir, check: true })).to.have.length(3);
+  });
+
+  it("fails when the code at an address is a different contract", async function () {
+    const tickets = deployment.contracts.MaintenanceTickets!;
+    deployment.contracts.UniversalAdapter = { ...deployment.contracts.UniversalAdapter!, address: tickets.address };
+
+    expect(await syncError()).to.include(
+      `UniversalAdapter: code at ${tickets.address} does not match the compiled contract`
+    );
+    expect(fs.existsSync(abiDir)).to.eq(false);
+  });
+
+  it("fails on a stale bundle ABI, a missing contract or an empty address", async function () {
+    deployment.contracts.FHEPowerMaintenance!.abi = deployment.contracts.FHEPowerMaintenance!.abi.slice(1);
+    deployment.contracts.MaintenanceTickets = { ...deployment.contracts.MaintenanceTickets!, address: ethers.ZeroAddress };
+    delete deployment.contracts.UniversalAdapter;
+
+    expect(await syncError())
+      .to.include("UniversalAdapter: not in the deployment bundle for chain 31337")
+      .and.include("FHEPowerMaintenance: ABI in the deployment bundle differs")
+      .and.include(`MaintenanceTickets: no code at ${ethers.ZeroAddress}`);
+  });
+
+  it("reports out-of-date files in check mode", async function () {
+    await syncAbis(deployment, { dir: abiDir });
+    fs.writeFileSync(abiFile("UniversalAdapter", abiDir), "[]\n");
+
+    expect(await syncError({ check: true })).to.include("UniversalAdapter.json: out of date");
+  });
+
+  it("ignores the metadata hash", function () {
+    // Three bytes of metadata followed by their two-byte length
+    expect(stripMetadata("0x6080aabbcc0003")).to.eq("6080");
+  });
+});
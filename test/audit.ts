@@ -0,0 +1,182 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  AuditContracts,
+  diffFields,
+  getSubstationHistory,
+  getTicketHistory,
+  isHistoryBounded,
+} from "../frontend/web/src/audit";
+import { FHEPowerMaintenance, MaintenanceTickets, UniversalAdapter } from "../types";
+
+const OPERATOR = 1;
+const TECHNICIAN = 2;
+const HIGH = 2;
+const TRANSFORMER = 0;
+
+// Spreads events over more than one getLogs page of the history queries
+const mineBlocks = (count: number) => ethers.provider.send("hardhat_mine", [ethers.toQuantity(count)]);
+
+const encodeJson = (value: unknown) => ethers.toUtf8Bytes(JSON.stringify(value));
+
+describe("audit history", function () {
+  describe("diffFields", function () {
+    it("reports changed, added and removed fields", function () {
+      expect(diffFields({ status: "pending", assignee: "a" }, { status: "assigned", note: "n" })).to.deep.eq([
+        { field: "status", before: "pending", after: "assigned" },
+        { field: "assignee", before: "a", after: undefined },
+        { field: "note", before: undefined, after: "n" },
+      ]);
+    });
+
+    it("compares nested values by content", function () {
+      expect(diffFields({ tags: ["a", "b"], meta: { x: 1 } }, { tags: ["a", "b"], meta: { x: 1 } })).to.deep.eq([]);
+      expect(diffFields({ tags: ["a"] }, { tags: ["a", "b"] })).to.deep.eq([
+        { field: "tags", before: ["a"], after: ["a", "b"] },
+      ]);
+    });
+
+    it("treats a missing version as empty", function () {
+      expect(diffFields(undefined, { name: "North" })).to.deep.eq([{ field: "name", before: undefined, after: "North" }]);
+      expect(diffFields({ name: "North" }, undefined)).to.deep.eq([{ field: "name", before: "North", after: undefined }]);
+      expect(diffFields(undefined, undefined)).to.deep.eq([]);
+    });
+  });
+
+  describe("isHistoryBounded", function () {
+    it("only bounds public chains without a recorded deploy block", function () {
+      expect(isHistoryBounded(0, 11155111)).to.eq(true);
+      expect(isHistoryBounded(4_200_000, 11155111)).to.eq(false);
+      expect(isHistoryBounded(0, 31337)).to.eq(false);
+    });
+  });
+
+  describe("history from events", function () {
+    let operator: HardhatEthersSigner;
+    let technician: HardhatEthersSigner;
+    let maintenance: FHEPowerMaintenance;
+    let tickets: MaintenanceTickets;
+    let adapter: UniversalAdapter;
+    let contracts: AuditContracts;
+    let deployBlock: number;
+
+    before(async function () {
+      [, operator, technician] = await ethers.getSigners();
+    });
+
+    beforeEach(async function () {
+      deployBlock = (await ethers.provider.getBlockNumber()) + 1;
+      maintenance = (await (await ethers.getContractFactory("FHEPowerMaintenance")).deploy()) as FHEPowerMaintenance;
+      tickets = (await (
+        await ethers.getContractFactory("MaintenanceTickets")
+      ).deploy(await maintenance.getAddress())) as MaintenanceTickets;
+      adapter = (await (await ethers.getContractFactory("UniversalAdapter")).deploy()) as UniversalAdapter;
+
+      // Read-only, like the dashboard's own contracts
+      contracts = {
+        maintenance: maintenance.connect(ethers.provider),
+        tickets: new ethers.Contract(await tickets.getAddress(), tickets.interface, ethers.provider),
+        adapter: new ethers.Contract(await adapter.getAddress(), adapter.interface, ethers.provider),
+      };
+
+      await maintenance.registerSubstation("sub-1", "North substation", "Grid sector 7");
+      await maintenance.registerSubstation("sub-2", "South substation", "Grid sector 2");
+      await maintenance.grantRole("sub-1", operator.address, OPERATOR);
+      await maintenance.grantRole("sub-1", technician.address, TECHNICIAN);
+      await maintenance.grantRole("sub-2", operator.address, OPERATOR);
+    });
+
+    it("rebuilds a ticket's lifecycle as field changes", async function () {
+      await maintenance.registerEquipment("eq-tr-1", "sub-1", "Main transformer", TRANSFORMER);
+      await tickets.connect(operator).createTicket("sub-1", "eq-tr-1", 7, "Oil leak", HIGH);
+      await mineBlocks(2500);
+      await tickets.connect(operator).assignTicket(1, technician.address);
+      await tickets.connect(technician).startTicket(1);
+      await tickets.connect(technician).addWorkNote(1, "Gasket replaced");
+      await tickets.connect(technician).completeTicket(1, "Leak fixed");
+
+      const history = await getTicketHistory(contracts, 1, deployBlock);
+
+      expect(history.map((entry) => entry.event)).to.deep.eq([
+        "TicketCreated",
+        "TicketAssigned",
+        "TicketStarted",
+        "WorkNoteAdded",
+        "TicketCompleted",
+      ]);
+      expect(history.map((entry) => entry.author)).to.deep.eq([
+        operator.address,
+        operator.address,
+        technician.address,
+        technician.address,
+        technician.address,
+      ]);
+      expect(history[0].changes).to.deep.include({ field: "priority", before: undefined, after: "high" });
+      expect(history[1].changes).to.deep.eq([
+        { field: "status", before: "pending", after: "assigned" },
+        { field: "assignee", before: undefined, after: technician.address },
+      ]);
+      // A note is an addition of its own, not a state the next change overwrites
+      expect(history[3].changes).to.deep.eq([{ field: "note", before: undefined, after: "Gasket replaced" }]);
+      expect(history[4].changes).to.deep.eq([
+        { field: "status", before: "in-progress", after: "completed" },
+        { field: "resolution", before: undefined, after: "Leak fixed" },
+      ]);
+      expect(history[4].timestamp).to.be.greaterThanOrEqual(history[0].timestamp);
+    });
+
+    it("only includes the requested ticket", async function () {
+      await maintenance.registerEquipment("eq-tr-1", "sub-1", "Main transformer", TRANSFORMER);
+      await maintenance.registerEquipment("eq-tr-2", "sub-2", "Backup transformer", TRANSFORMER);
+      await tickets.connect(operator).createTicket("sub-1", "eq-tr-1", 7, "Oil leak", HIGH);
+      await tickets.connect(operator).createTicket("sub-2", "eq-tr-2", 8, "Noise", HIGH);
+      await tickets.connect(operator).cancelTicket(2, "Duplicate");
+
+      const history = await getTicketHistory(contracts, 2, deployBlock);
+      expect(history.map((entry) => entry.subject)).to.deep.eq(["ticket #2", "ticket #2"]);
+      expect(history[1].changes).to.deep.include({ field: "status", before: "pending", after: "cancelled" });
+    });
+
+    it("collects a substation's registry, ticket and adapter changes newest first", async function () {
+      await maintenance.registerEquipment("eq-tr-1", "sub-1", "Main transformer", TRANSFORMER);
+      await maintenance.registerEquipment("eq-tr-2", "sub-2", "Backup transformer", TRANSFORMER);
+      await adapter.setData("crews", encodeJson([{ id: "c1", substationId: "sub-1", size: 3 }]));
+      await mineBlocks(2500);
+      await tickets.connect(operator).createTicket("sub-1", "eq-tr-1", 7, "Oil leak", HIGH);
+      await tickets.connect(operator).createTicket("sub-2", "eq-tr-2", 8, "Noise", HIGH);
+      await adapter.setData("crews", encodeJson([{ id: "c1", substationId: "sub-1", size: 4 }]));
+      await adapter.setData("crews", encodeJson([]));
+
+      const history = await getSubstationHistory(contracts, "sub-1", deployBlock);
+
+      expect(history.map((entry) => `${entry.event} ${entry.subject}`)).to.deep.eq([
+        "DataStored crews/c1",
+        "DataStored crews/c1",
+        "TicketCreated ticket #1",
+        "DataStored crews/c1",
+        "EquipmentRegistered eq-tr-1",
+        "RoleGranted " + technician.address,
+        "RoleGranted " + operator.address,
+        "SubstationRegistered sub-1",
+      ]);
+      expect(history[0].changes).to.deep.eq([
+        { field: "id", before: "c1", after: undefined },
+        { field: "substationId", before: "sub-1", after: undefined },
+        { field: "size", before: 4, after: undefined },
+      ]);
+      expect(history[1].changes).to.deep.eq([{ field: "size", before: 3, after: 4 }]);
+      expect(history[5].changes).to.deep.eq([{ field: "role", before: undefined, after: "technician" }]);
+    });
+
+    it("starts at the given block", async function () {
+      await maintenance.registerEquipment("eq-tr-1", "sub-1", "Main transformer", TRANSFORMER);
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await tickets.connect(operator).createTicket("sub-1", "eq-tr-1", 7, "Oil leak", HIGH);
+
+      const history = await getSubstationHistory(contracts, "sub-1", fromBlock);
+      expect(history.map((entry) => entry.event)).to.deep.eq(["TicketCreated"]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+
+import { buildChainDeployment, writeBundle } from "../deploy/bundle";
+import { deployAll, DeploymentManifest } from "../deploy/deployments";
+import { BUNDLE_VERSION } from "../frontend/web/src/deployment";
+
+describe("deployment bundle", function () {
+  let dir: string;
+  let file: string;
+  let manifest: DeploymentManifest;
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "bundle-"));
+    file = path.join(dir, "deployments.json");
+    const [signer] = await ethers.getSigners();
+    manifest = await deployAll({ signer, network: "hardhat", dir, log: () => {} });
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("exports ABIs, addresses, deploy blocks and the commit", function () {
+    const deployment = buildChainDeployment(manifest, "abc123");
+
+    expect(deployment.chainId).to.eq(31337);
+    expect(deployment.gitCommit).to.eq("abc123");
+    expect(Object.keys(deployment.contracts)).to.deep.eq(["FHEPowerMaintenance", "MaintenanceTickets", "UniversalAdapter"]);
+    expect(deployment.deployBlock).to.eq(manifest.contracts.UniversalAdapter.blockNumber);
+
+    const tickets = deployment.contracts.MaintenanceTickets!;
+    expect(tickets.address).to.eq(manifest.contracts.MaintenanceTickets.address);
+    expect(tickets.abi.some((fragment: { name?: string }) => fragment.name === "createTicket")).to.eq(true);
+    expect(tickets).to.not.have.property("bytecode");
+  });
+
+  it("writes the same bytes for the same deployment and keeps other chains", function () {
+    const deployment = buildChainDeployment(manifest, "abc123");
+    writeBundle({ ...deployment, chainId: 11155111, network: "sepolia" }, file);
+    writeBundle(deployment, file);
+    const first = fs.readFileSync(file, "utf8");
+
+    writeBundle(buildChainDeployment(manifest, "abc123"), file);
+    expect(fs.readFileSync(file, "utf8")).to.eq(first);
+
+    const bundle = JSON.parse(first);
+    expect(bundle.version).to.eq(BUNDLE_VERSION);
+    expect(Object.keys(bundle.chains)).to.deep.eq(["31337", "11155111"]);
+  });
+
+  it("drops a bundle written with another version", function () {
+    fs.writeFileSync(file, JSON.stringify({ version: 0, chains: { 1: {} } }));
+    const bundle = writeBundle(buildChainDeployment(manifest, "abc123"), file);
+    expect(Object.keys(bundle.chains)).to.deep.eq(["31337"]);
+  });
+});
@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+
+import { deployAll, DeployOptions, loadManifest, manifestPath, saveManifest } from "../deploy/deployments";
+
+describe("deployments", function () {
+  let dir: string;
+  let options: DeployOptions;
+  let logs: string[];
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    logs = [];
+    const [signer] = await ethers.getSigners();
+    options = { signer, network: "hardhat", dir, log: (message) => logs.push(message) };
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const addresses = (manifest: { contracts: Record<string, { address: string }> }) =>
+    Object.fromEntries(Object.entries(manifest.contracts).map(([name, record]) => [name, record.address]));
+
+  it("records every contract in a per-chain manifest", async function () {
+    const manifest = await deployAll(options);
+
+    expect(manifest.chainId).to.eq(31337);
+    expect(Object.keys(manifest.contracts)).to.deep.eq(["UniversalAdapter", "FHEPowerMaintenance", "MaintenanceTickets"]);
+    expect(manifest.contracts.MaintenanceTickets.args).to.deep.eq([manifest.contracts.FHEPowerMaintenance.address]);
+    expect(loadManifest(31337, "hardhat", dir)).to.deep.eq(manifest);
+  });
+
+  it("skips unchanged contracts and redeploys when forced", async function () {
+    const first = await deployAll(options);
+    const second = await deployAll(options);
+    expect(addresses(second)).to.deep.eq(addresses(first));
+    expect(logs.filter((line) => line.includes("unchanged"))).to.have.length(3);
+
+    const forced = await deployAll({ ...options, force: true });
+    for (const name of Object.keys(first.contracts)) {
+      expect(forced.contracts[name].address).to.not.eq(first.contracts[name].address);
+    }
+  });
+
+  it("redeploys dependents when a dependency changes", async function () {
+    const first = await deployAll(options);
+
+    // Pretend FHEPowerMaintenance was compiled from different sources
+    const edited = loadManifest(31337, "hardhat", dir);
+    edited.contracts.FHEPowerMaintenance.bytecodeHash = ethers.ZeroHash;
+    saveManifest(edited, dir);
+
+    const second = await deployAll(options);
+    expect(second.contracts.UniversalAdapter.address).to.eq(first.contracts.UniversalAdapter.address);
+    expect(second.contracts.FHEPowerMaintenance.address).to.not.eq(first.contracts.FHEPowerMaintenance.address);
+    expect(second.contracts.MaintenanceTickets.args).to.deep.eq([second.contracts.FHEPowerMaintenance.address]);
+    expect(second.contracts.MaintenanceTickets.address).to.not.eq(first.contracts.MaintenanceTickets.address);
+  });
+
+  it("keeps the contracts deployed before a failure", async function () {
+    const failing: DeployOptions = {
+      ...options,
+      log: (message) => {
+        if (message.startsWith("FHEPowerMaintenance:")) throw new Error("node went away");
+      },
+    };
+    await expect(deployAll(failing)).to.be.rejectedWith("node went away");
+
+    const saved = loadManifest(31337, "hardhat", dir);
+    expect(Object.keys(saved.contracts)).to.deep.eq(["UniversalAdapter"]);
+
+    const manifest = await deployAll(options);
+    expect(manifest.contracts.UniversalAdapter.address).to.eq(saved.contracts.UniversalAdapter.address);
+    expect(logs).to.include(`UniversalAdapter: unchanged, reusing ${saved.contracts.UniversalAdapter.address}`);
+  });
+
+  it("rejects a manifest recorded for another chain", function () {
+    fs.writeFileSync(manifestPath(31337, dir), JSON.stringify({ chainId: 1, network: "mainnet", contracts: {} }));
+    expect(() => loadManifest(31337, "hardhat", dir)).to.throw("records chain 1");
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+
+import { createMemoryStore, IndexedContract, IndexerStore, syncOnce } from "../frontend/web/src/indexer/core";
+import { UniversalAdapter, UniversalAdapter__factory } from "../types";
+
+describe("indexer", function () {
+  let adapter: UniversalAdapter;
+  let contracts: IndexedContract[];
+  let startBlock: number;
+  let store: IndexerStore;
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory("UniversalAdapter")) as UniversalAdapter__factory;
+    adapter = (await factory.deploy()) as UniversalAdapter;
+    startBlock = await ethers.provider.getBlockNumber();
+    contracts = [{ address: await adapter.getAddress(), abi: factory.interface.formatJson(), events: ["DataStored"] }];
+    store = createMemoryStore();
+  });
+
+  const sync = (batchSize = 2) => syncOnce({ provider: ethers.provider, store, contracts, startBlock, batchSize });
+
+  const storedKeys = async () => (await store.getLogs()).map((log) => log.args.key);
+
+  it("backfills in block ranges and resumes from the last block", async function () {
+    for (const key of ["a", "b", "c"]) {
+      await adapter.setData(key, "0x01");
+    }
+
+    const first = await sync();
+    expect(first.newLogs).to.eq(3);
+    expect(await storedKeys()).to.deep.eq(["a", "b", "c"]);
+
+    const [log] = await store.getLogs();
+    expect(log.event).to.eq("DataStored");
+    expect(log.args.value).to.eq("0x01");
+
+    await adapter.setData("d", "0x02");
+    const second = await sync();
+    expect(second.newLogs).to.eq(1);
+    expect(await storedKeys()).to.deep.eq(["a", "b", "c", "d"]);
+    expect((await store.loadState())!.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+  });
+
+  it("rewinds logs from blocks that were reorged away", async function () {
+    await adapter.setData("kept", "0x01");
+    await sync();
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await adapter.setData("orphaned", "0x02");
+    await sync();
+    expect(await storedKeys()).to.deep.eq(["kept", "orphaned"]);
+
+    // Replace the last block with a different one at the same height
+    await network.provider.send("evm_revert", [snapshot]);
+    await adapter.setData("canonical", "0x03");
+
+    const progress = await sync();
+    expect(progress.rewoundTo).to.be.lessThan(progress.head);
+    expect(await storedKeys()).to.deep.eq(["kept", "canonical"]);
+  });
+});
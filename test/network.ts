@@ -0,0 +1,54 @@
+import { expect } from "chai";
+
+import { EndpointHealth, rankEndpoints, resolveNetworkProfile } from "../frontend/web/src/network";
+
+describe("network profiles", function () {
+  const config = {
+    network: "sepolia",
+    networks: { local: { rpcUrls: ["http://127.0.0.1:9545"] } },
+  };
+
+  it("resolves the configured profile and applies env overrides", function () {
+    const sepolia = resolveNetworkProfile({}, config);
+    expect(sepolia.id).to.eq("sepolia");
+    expect(sepolia.chainId).to.eq(11155111);
+    expect(sepolia.rpcUrls.length).to.be.greaterThan(1);
+
+    const local = resolveNetworkProfile({ NETWORK_PROFILE: "local" }, config);
+    expect(local.chainId).to.eq(31337);
+    expect(local.rpcUrls).to.deep.eq(["http://127.0.0.1:9545"]);
+
+    const custom = resolveNetworkProfile(
+      { NETWORK_PROFILE: "custom", NETWORK_CHAIN_ID: "8009", NETWORK_RPC_URLS: "https://a.example, https://b.example" },
+      config
+    );
+    expect(custom.chainId).to.eq(8009);
+    expect(custom.rpcUrls).to.deep.eq(["https://a.example", "https://b.example"]);
+  });
+
+  it("rejects unknown profiles, missing chain ids and bad URLs", function () {
+    expect(() => resolveNetworkProfile({ NETWORK_PROFILE: "mainnet" }, config)).to.throw("Unknown network profile");
+    expect(() => resolveNetworkProfile({ NETWORK_PROFILE: "custom", NETWORK_RPC_URLS: "https://a.example" }, config)).to.throw(
+      "positive chain id"
+    );
+    expect(() => resolveNetworkProfile({ NETWORK_PROFILE: "custom", NETWORK_CHAIN_ID: "8009" }, config)).to.throw("no RPC URLs");
+    expect(() => resolveNetworkProfile({ NETWORK_RPC_URLS: "sepolia.example" }, config)).to.throw("Invalid RPC URL");
+  });
+
+  it("ranks endpoints by score, then latency, then configured order", function () {
+    const endpoints: EndpointHealth[] = [
+      { url: "https://a.example", score: 50, failures: 0 },
+      { url: "https://b.example", score: 90, latency: 400, failures: 0 },
+      { url: "https://c.example", score: 90, latency: 100, failures: 0 },
+      { url: "https://d.example", score: 50, failures: 0 },
+      { url: "https://e.example", score: 0, failures: 3 },
+    ];
+    expect(rankEndpoints(endpoints).map((e) => e.url)).to.deep.eq([
+      "https://c.example",
+      "https://b.example",
+      "https://a.example",
+      "https://d.example",
+      "https://e.example",
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+
+import { MAX_BATCH_SIZE } from "../frontend/web/src/fhe";
+import type { ChannelReading } from "../frontend/web/src/maintenance";
+import { createReadingQueue } from "../frontend/web/src/readingQueue";
+
+const values = { temperature: 60, vibration: 2 };
+const reading = (equipmentId: string, readingValues: Record<string, number> = values) => ({
+  equipmentId,
+  values: readingValues,
+});
+const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+describe("reading queue", function () {
+  let batches: ChannelReading[][];
+  let nextId: number;
+
+  // Stands in for submitEncryptedChannelReadings: hands out consecutive data ids
+  const submit = async (readings: ChannelReading[]) => {
+    batches.push(readings);
+    return readings.map(() => ++nextId);
+  };
+
+  beforeEach(function () {
+    batches = [];
+    nextId = 0;
+  });
+
+  it("flushes as soon as a batch is full", async function () {
+    const queue = createReadingQueue({ submit, maxBatchSize: 3, maxWait: 60000 });
+    const ids = await Promise.all(["a", "b", "c"].map((id) => queue.add(reading(id))));
+
+    expect(ids).to.deep.eq([1, 2, 3]);
+    expect(batches.map((batch) => batch.map((r) => r.equipmentId))).to.deep.eq([["a", "b", "c"]]);
+    expect(queue.size()).to.eq(0);
+    await queue.stop();
+  });
+
+  it("flushes a partial batch once the time window closes", async function () {
+    const queue = createReadingQueue({ submit, maxBatchSize: 10, maxWait: 20 });
+    const first = queue.add(reading("a"));
+    queue.add(reading("b"));
+
+    await sleep(5);
+    expect(batches).to.have.length(0);
+    expect(queue.size()).to.eq(2);
+
+    expect(await first).to.eq(1);
+    expect(batches).to.have.length(1);
+    await queue.stop();
+  });
+
+  it("never exceeds the proof limit and sends batches in order", async function () {
+    const flushed: number[][] = [];
+    const queue = createReadingQueue({
+      submit,
+      maxBatchSize: 1000,
+      maxWait: 60000,
+      onFlushed: (_, ids) => flushed.push(ids),
+    });
+    const pending = Array.from({ length: MAX_BATCH_SIZE + 5 }, (_, i) => queue.add(reading(`eq-${i}`)));
+    await queue.stop();
+
+    expect(batches.map((batch) => batch.length)).to.deep.eq([MAX_BATCH_SIZE, 5]);
+    expect(flushed[1][0]).to.eq(MAX_BATCH_SIZE + 1);
+    expect(await Promise.all(pending)).to.deep.eq(Array.from({ length: MAX_BATCH_SIZE + 5 }, (_, i) => i + 1));
+  });
+
+  it("only batches readings of the same channels", async function () {
+    const queue = createReadingQueue({
+      submit,
+      maxWait: 60000,
+      batchLimit: (ids) => (ids.includes("humidity") ? 1 : 32),
+    });
+    const humid = { ...values, humidity: 40 };
+    const pending = [
+      queue.add(reading("a")),
+      queue.add(reading("b", humid)),
+      queue.add(reading("c")),
+      queue.add(reading("d", humid)),
+    ];
+    await queue.stop();
+
+    expect(batches.map((batch) => batch.map((r) => r.equipmentId))).to.deep.eq([["a", "c"], ["b"], ["d"]]);
+    expect(await Promise.all(pending)).to.deep.eq([1, 3, 2, 4]);
+  });
+
+  it("retries a failed batch until it is mined", async function () {
+    let failures = 2;
+    const errors: string[] = [];
+    const queue = createReadingQueue({
+      submit: async (readings) => {
+        if (failures-- > 0) throw new Error("could not detect network");
+        return submit(readings);
+      },
+      maxBatchSize: 2,
+      retryDelay: 10,
+      onError: (error) => errors.push(error.message),
+    });
+
+    const added = [queue.add(reading("a")), queue.add(reading("b"))];
+    await sleep(5);
+    expect(queue.size()).to.eq(2);
+
+    expect(await Promise.all(added)).to.deep.eq([1, 2]);
+    expect(errors).to.deep.eq(["could not detect network", "could not detect network"]);
+    expect(batches.map((batch) => batch.map((r) => r.equipmentId))).to.deep.eq([["a", "b"]]);
+    expect(queue.size()).to.eq(0);
+    await queue.stop();
+  });
+
+  it("rejects the readings of a batch that is not worth retrying", async function () {
+    let fail = true;
+    const errors: string[] = [];
+    const queue = createReadingQueue({
+      submit: async (readings) => {
+        if (fail) {
+          fail = false;
+          throw new Error("user rejected transaction");
+        }
+        return submit(readings);
+      },
+      maxBatchSize: 2,
+      isRetryable: (error) => !error.message.includes("user rejected transaction"),
+      onError: (error) => errors.push(error.message),
+    });
+
+    const failed = [queue.add(reading("a")), queue.add(reading("b"))].map((p) => p.catch((e: Error) => e.message));
+    expect(await Promise.all(failed)).to.deep.eq(["user rejected transaction", "user rejected transaction"]);
+    expect(errors).to.deep.eq(["user rejected transaction"]);
+    expect(queue.size()).to.eq(0);
+
+    expect(await Promise.all([queue.add(reading("c")), queue.add(reading("d"))])).to.deep.eq([1, 2]);
+    await queue.stop();
+    await queue.add(reading("e")).then(
+      () => expect.fail("queue accepted a reading after stop"),
+      (e: Error) => expect(e.message).to.eq("Reading queue is stopped"),
+    );
+  });
+});
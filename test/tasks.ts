@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+
+const OPERATOR = 1;
+
+describe("pm tasks", function () {
+  let address: string;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    const [deployer] = await ethers.getSigners();
+    const contract = await (await ethers.getContractFactory("FHEPowerMaintenance")).deploy();
+    address = await contract.getAddress();
+
+    await contract.registerSubstation("sub-1", "North substation", "Grid sector 7");
+    await contract.registerEquipment("eq-tr-1", "sub-1", "Main transformer", 0);
+    await contract.grantRole("sub-1", deployer.address, OPERATOR);
+  });
+
+  // Runs a task with --json and parses what it printed
+  async function runJson(name: string, args: Record<string, unknown>) {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (line: string) => lines.push(line);
+    try {
+      await hre.run(name, { ...args, address, json: true });
+    } finally {
+      console.log = log;
+    }
+    return JSON.parse(lines.join("\n"));
+  }
+
+  it("submits, predicts and reads back a reading", async function () {
+    const submitted = await runJson("pm:submit", { equipment: "eq-tr-1", temp: 90, vibration: 4.5 });
+    expect(submitted).to.include({ dataId: 1, equipmentId: "eq-tr-1" });
+
+    expect(await runJson("pm:prediction", { id: 1 })).to.deep.eq({
+      dataId: 1,
+      equipmentId: "eq-tr-1",
+      processed: false,
+      predictedRUL: null,
+    });
+    expect(await runJson("pm:predict", { id: 1, timeout: 1 })).to.include({ processed: true, predictedRUL: 5000 });
+  });
+
+  it("reveals equipment counts and lists readings", async function () {
+    await runJson("pm:submit", { equipment: "eq-tr-1", temp: 60, vibration: 2 });
+    await runJson("pm:submit", { equipment: "eq-tr-1", temp: 75, vibration: 5.5 });
+    await runJson("pm:predict", { id: 2, timeout: 1 });
+
+    expect(await runJson("pm:equipment-count", { equipment: "eq-tr-1", timeout: 1 })).to.include({
+      status: "completed",
+      count: 1,
+    });
+    expect(await runJson("pm:equipment-count", { equipment: "eq-tr-1", cached: true })).to.include({ count: 1 });
+
+    const readings = await runJson("pm:list-readings", { equipment: "eq-tr-1" });
+    expect(readings.map((r: { dataId: number; predictedRUL: number | null }) => [r.dataId, r.predictedRUL])).to.deep.eq([
+      [1, null],
+      [2, 7000],
+    ]);
+  });
+});
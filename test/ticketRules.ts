@@ -0,0 +1,112 @@
+import { expect } from "chai";
+
+import { Equipment, Prediction, RUL_THRESHOLDS } from "../frontend/web/src/maintenance";
+import { MaintenanceTicket } from "../frontend/web/src/tickets";
+import { draftTicket, draftTickets, priorityForRUL } from "../frontend/web/src/ticketRules";
+
+const transformer: Equipment = {
+  id: "eq-tr-1",
+  substationId: "sub-1",
+  name: "Main transformer",
+  kind: "transformer",
+  readingCount: 1,
+};
+const breaker: Equipment = { ...transformer, id: "eq-br-1", name: "Feeder breaker", kind: "breaker" };
+
+const prediction = (dataId: number, predictedRUL: number, equipmentId = transformer.id): Prediction => ({
+  dataId,
+  equipmentId,
+  predictedRUL,
+  isProcessed: true,
+});
+
+const ticket = (changes: Partial<MaintenanceTicket>): MaintenanceTicket => ({
+  id: 1,
+  substationId: "sub-1",
+  equipmentId: transformer.id,
+  dataId: 0,
+  issue: "Inspect",
+  priority: "medium",
+  status: "pending",
+  creator: "",
+  assignee: "",
+  resolution: "",
+  created: 0,
+  updated: 0,
+  ...changes,
+});
+
+describe("ticket rules", function () {
+  describe("priorityForRUL", function () {
+    const { warning, critical } = RUL_THRESHOLDS.transformer;
+    const midpoint = (warning + critical) / 2;
+
+    it("drafts nothing at or above the warning threshold", function () {
+      expect(priorityForRUL(transformer, warning)).to.eq(null);
+      expect(priorityForRUL(transformer, warning + 1)).to.eq(null);
+    });
+
+    it("splits the warning band at its midpoint", function () {
+      expect(priorityForRUL(transformer, warning - 1)).to.eq("low");
+      expect(priorityForRUL(transformer, midpoint)).to.eq("low");
+      expect(priorityForRUL(transformer, midpoint - 1)).to.eq("medium");
+      expect(priorityForRUL(transformer, critical)).to.eq("medium");
+    });
+
+    it("is high priority below the critical threshold", function () {
+      expect(priorityForRUL(transformer, critical - 1)).to.eq("high");
+      expect(priorityForRUL(transformer, 0)).to.eq("high");
+    });
+
+    it("uses the thresholds of the asset's class", function () {
+      const rul = RUL_THRESHOLDS.breaker.warning;
+      expect(priorityForRUL(breaker, rul)).to.eq(null);
+      expect(priorityForRUL(transformer, rul)).to.eq("medium");
+    });
+  });
+
+  describe("draftTicket", function () {
+    it("drafts a ticket for a processed prediction below the warning threshold", function () {
+      expect(draftTicket(prediction(7, 1500), transformer, [])).to.deep.eq({
+        dataId: 7,
+        equipmentId: transformer.id,
+        substationId: "sub-1",
+        issue: "Main transformer: predicted RUL 1500 h (reading #7)",
+        priority: "high",
+        predictedRUL: 1500,
+      });
+      expect(draftTicket({ ...prediction(7, 1500), isProcessed: false }, transformer, [])).to.eq(null);
+    });
+
+    it("skips readings that already have a ticket, open or not", function () {
+      const closed = ticket({ dataId: 7, status: "completed" });
+      expect(draftTicket(prediction(7, 1500), transformer, [closed])).to.eq(null);
+      expect(draftTicket(prediction(8, 1500), transformer, [closed])).to.not.eq(null);
+    });
+
+    it("skips assets with an open ticket until it is closed", function () {
+      for (const status of ["pending", "assigned", "in-progress"] as const) {
+        expect(draftTicket(prediction(8, 1500), transformer, [ticket({ status })])).to.eq(null);
+      }
+      for (const status of ["completed", "cancelled"] as const) {
+        expect(draftTicket(prediction(8, 1500), transformer, [ticket({ status })])).to.not.eq(null);
+      }
+      const otherAsset = ticket({ equipmentId: breaker.id });
+      expect(draftTicket(prediction(8, 1500), transformer, [otherAsset])).to.not.eq(null);
+    });
+  });
+
+  describe("draftTickets", function () {
+    it("drafts the latest prediction of every asset, most urgent first", function () {
+      const drafts = draftTickets(
+        { [transformer.id]: prediction(3, 4000), [breaker.id]: prediction(4, 100, breaker.id) },
+        [transformer, breaker, { ...transformer, id: "eq-tr-2" }],
+        [],
+      );
+      expect(drafts.map((d) => [d.equipmentId, d.priority])).to.deep.eq([
+        [breaker.id, "high"],
+        [transformer.id, "low"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+
+import { deployAll, DeploymentManifest, loadManifest } from "../deploy/deployments";
+import { Explorer, verifyDeployments } from "../deploy/verify";
+
+// Offline stand-in for Etherscan: rejects each contract until it has been
+// "indexed" after `pending` attempts, and records every submission
+function stubExplorer(pending: Record<string, number> = {}) {
+  const calls: { name: string; address: string; args: string[] }[] = [];
+  const explorer: Explorer = {
+    async verify(name, address, args) {
+      calls.push({ name, address, args });
+      if ((pending[name] ?? 0) > 0) {
+        pending[name]--;
+        throw new Error(`Address ${address} does not have bytecode`);
+      }
+    },
+  };
+  return { explorer, calls };
+}
+
+describe("verification", function () {
+  let dir: string;
+  let manifest: DeploymentManifest;
+  let logs: string[];
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-"));
+    logs = [];
+    const [signer] = await ethers.getSigners();
+    manifest = await deployAll({ signer, network: "hardhat", dir, log: () => {} });
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const options = (explorer: Explorer) => ({ explorer, dir, delayMs: 0, log: (line: string) => logs.push(line) });
+
+  it("submits every contract with its constructor arguments and records the result", async function () {
+    const { explorer, calls } = stubExplorer();
+    expect(await verifyDeployments(manifest, options(explorer))).to.deep.eq([]);
+
+    expect(calls.map((call) => call.name)).to.deep.eq(["UniversalAdapter", "FHEPowerMaintenance", "MaintenanceTickets"]);
+    expect(calls[2].args).to.deep.eq([manifest.contracts.FHEPowerMaintenance.address]);
+
+    const saved = loadManifest(31337, "hardhat", dir);
+    for (const record of Object.values(saved.contracts)) {
+      expect(record.verification).to.include({ status: "verified", attempts: 1 });
+    }
+  });
+
+  it("retries while the explorer is still indexing", async function () {
+    const { explorer } = stubExplorer({ MaintenanceTickets: 2 });
+    await verifyDeployments(manifest, options(explorer));
+
+    expect(manifest.contracts.MaintenanceTickets.verification).to.include({ status: "verified", attempts: 3 });
+    expect(logs.filter((line) => line.includes("retrying"))).to.have.length(2);
+  });
+
+  it("records failures and only resubmits unverified contracts", async function () {
+    const first = stubExplorer({ FHEPowerMaintenance: 10 });
+    expect(await verifyDeployments(manifest, { ...options(first.explorer), attempts: 2 })).to.deep.eq([
+      "FHEPowerMaintenance",
+    ]);
+    expect(loadManifest(31337, "hardhat", dir).contracts.FHEPowerMaintenance.verification).to.include({
+      status: "failed",
+      attempts: 2,
+      error: `Address ${manifest.contracts.FHEPowerMaintenance.address} does not have bytecode`,
+    });
+
+    const second = stubExplorer();
+    expect(await verifyDeployments(loadManifest(31337, "hardhat", dir), options(second.explorer))).to.deep.eq([]);
+    expect(second.calls.map((call) => call.name)).to.deep.eq(["FHEPowerMaintenance"]);
+  });
+
+  it("keeps the verification of unchanged contracts across deploys", async function () {
+    await verifyDeployments(manifest, options(stubExplorer().explorer));
+    const [signer] = await ethers.getSigners();
+    const redeployed = await deployAll({ signer, network: "hardhat", dir, log: () => {} });
+
+    expect(redeployed.contracts.UniversalAdapter.verification?.status).to.eq("verified");
+  });
+});
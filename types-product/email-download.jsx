@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function adaptive-database-shared() { return <div>Component</div>; }
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\types-product\layouts-spec\upload-product.py
-// Generated at: 2025-10-07T11:19:19.352Z
\ No newline at end of file
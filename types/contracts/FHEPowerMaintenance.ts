@@ -0,0 +1,1626 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface FHEPowerMaintenanceInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ALARM_CRITICAL"
+      | "ALARM_WARNING"
+      | "BASE_RUL"
+      | "COUNT_DECRYPTION_TIMEOUT"
+      | "MAX_BATCH_SIZE"
+      | "MAX_TEMPERATURE_EXCESS"
+      | "MAX_VIBRATION_EXCESS"
+      | "TEMPERATURE_CHANNEL"
+      | "TEMPERATURE_THRESHOLD"
+      | "TEMPERATURE_WEIGHT"
+      | "VIBRATION_CHANNEL"
+      | "VIBRATION_THRESHOLD"
+      | "VIBRATION_WEIGHT"
+      | "allowAlarmLevels"
+      | "canDecryptAlarmLevel"
+      | "dataCount"
+      | "decryptEquipmentCount"
+      | "encryptedData"
+      | "getAlarmLevel"
+      | "getAlarmThreshold"
+      | "getChannel"
+      | "getChannelIds"
+      | "getChannelValue"
+      | "getEncryptedEquipmentCount"
+      | "getEquipment"
+      | "getEquipmentCountReveal"
+      | "getEquipmentIds"
+      | "getEquipmentReadings"
+      | "getPrediction"
+      | "getReadingChannels"
+      | "getRole"
+      | "getSubstation"
+      | "getSubstationIds"
+      | "getSubstationMembers"
+      | "grantRole"
+      | "hasRole"
+      | "isAdmin"
+      | "latestPredictionId"
+      | "owner"
+      | "predictions"
+      | "processPrediction"
+      | "protocolId"
+      | "registerChannel"
+      | "registerEquipment"
+      | "registerSubstation"
+      | "requestEquipmentCountDecryption"
+      | "requestPrediction"
+      | "revokeRole"
+      | "setAdmin"
+      | "setAlarmThreshold"
+      | "submitEncryptedChannelData"
+      | "submitEncryptedSensorData"
+      | "submitEncryptedSensorDataBatch"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AdminUpdated"
+      | "AlarmThresholdSet"
+      | "ChannelRegistered"
+      | "DataSubmitted"
+      | "DecryptionFulfilled"
+      | "EquipmentCountRequested"
+      | "EquipmentCountRevealed"
+      | "EquipmentRegistered"
+      | "PredictionProcessed"
+      | "PredictionRequested"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SubstationRegistered"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ALARM_CRITICAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ALARM_WARNING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "BASE_RUL", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "COUNT_DECRYPTION_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TEMPERATURE_EXCESS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VIBRATION_EXCESS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TEMPERATURE_CHANNEL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TEMPERATURE_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TEMPERATURE_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VIBRATION_CHANNEL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VIBRATION_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VIBRATION_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowAlarmLevels",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canDecryptAlarmLevel",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "dataCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "decryptEquipmentCount",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedData",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAlarmLevel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAlarmThreshold",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "getChannel", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getChannelIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChannelValue",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedEquipmentCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEquipment",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEquipmentCountReveal",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEquipmentIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEquipmentReadings",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPrediction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReadingChannels",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRole",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstation",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstationIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstationMembers",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestPredictionId",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "predictions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processPrediction",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerChannel",
+    values: [string, string, string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerEquipment",
+    values: [string, string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerSubstation",
+    values: [string, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestEquipmentCountDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestPrediction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAdmin",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAlarmThreshold",
+    values: [string, string, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedChannelData",
+    values: [string[], string[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedSensorData",
+    values: [string, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedSensorDataBatch",
+    values: [string[], BytesLike[], BytesLike[], BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "ALARM_CRITICAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ALARM_WARNING",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "BASE_RUL", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "COUNT_DECRYPTION_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TEMPERATURE_EXCESS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VIBRATION_EXCESS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TEMPERATURE_CHANNEL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TEMPERATURE_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TEMPERATURE_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VIBRATION_CHANNEL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VIBRATION_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VIBRATION_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowAlarmLevels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "canDecryptAlarmLevel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dataCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptEquipmentCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAlarmLevel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAlarmThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getChannel", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getChannelIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChannelValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedEquipmentCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEquipment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEquipmentCountReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEquipmentIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEquipmentReadings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReadingChannels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstationIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstationMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isAdmin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "latestPredictionId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "predictions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerChannel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerEquipment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerSubstation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestEquipmentCountDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setAdmin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setAlarmThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedChannelData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedSensorData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedSensorDataBatch",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AdminUpdatedEvent {
+  export type InputTuple = [account: AddressLike, isAdmin: boolean];
+  export type OutputTuple = [account: string, isAdmin: boolean];
+  export interface OutputObject {
+    account: string;
+    isAdmin: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AlarmThresholdSetEvent {
+  export type InputTuple = [equipmentId: string, channelId: string];
+  export type OutputTuple = [equipmentId: string, channelId: string];
+  export interface OutputObject {
+    equipmentId: string;
+    channelId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChannelRegisteredEvent {
+  export type InputTuple = [channelId: string];
+  export type OutputTuple = [channelId: string];
+  export interface OutputObject {
+    channelId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DataSubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    equipmentId: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    equipmentId: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    equipmentId: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EquipmentCountRequestedEvent {
+  export type InputTuple = [equipmentId: string, requestId: BigNumberish];
+  export type OutputTuple = [equipmentId: string, requestId: bigint];
+  export interface OutputObject {
+    equipmentId: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EquipmentCountRevealedEvent {
+  export type InputTuple = [
+    equipmentId: string,
+    requestId: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    equipmentId: string,
+    requestId: bigint,
+    count: bigint
+  ];
+  export interface OutputObject {
+    equipmentId: string;
+    requestId: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EquipmentRegisteredEvent {
+  export type InputTuple = [
+    equipmentId: string,
+    substationId: string,
+    kind: BigNumberish
+  ];
+  export type OutputTuple = [
+    equipmentId: string,
+    substationId: string,
+    kind: bigint
+  ];
+  export interface OutputObject {
+    equipmentId: string;
+    substationId: string;
+    kind: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionProcessedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionRequestedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    substationId: string,
+    account: AddressLike,
+    role: BigNumberish,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    substationId: string,
+    account: string,
+    role: bigint,
+    sender: string
+  ];
+  export interface OutputObject {
+    substationId: string;
+    account: string;
+    role: bigint;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    substationId: string,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    substationId: string,
+    account: string,
+    sender: string
+  ];
+  export interface OutputObject {
+    substationId: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubstationRegisteredEvent {
+  export type InputTuple = [
+    substationId: string,
+    name: string,
+    location: string
+  ];
+  export type OutputTuple = [
+    substationId: string,
+    name: string,
+    location: string
+  ];
+  export interface OutputObject {
+    substationId: string;
+    name: string;
+    location: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHEPowerMaintenance extends BaseContract {
+  connect(runner?: ContractRunner | null): FHEPowerMaintenance;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHEPowerMaintenanceInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ALARM_CRITICAL: TypedContractMethod<[], [bigint], "view">;
+
+  ALARM_WARNING: TypedContractMethod<[], [bigint], "view">;
+
+  BASE_RUL: TypedContractMethod<[], [bigint], "view">;
+
+  COUNT_DECRYPTION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TEMPERATURE_EXCESS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VIBRATION_EXCESS: TypedContractMethod<[], [bigint], "view">;
+
+  TEMPERATURE_CHANNEL: TypedContractMethod<[], [string], "view">;
+
+  TEMPERATURE_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  TEMPERATURE_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  VIBRATION_CHANNEL: TypedContractMethod<[], [string], "view">;
+
+  VIBRATION_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  VIBRATION_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  allowAlarmLevels: TypedContractMethod<
+    [dataIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  canDecryptAlarmLevel: TypedContractMethod<
+    [dataId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  dataCount: TypedContractMethod<[], [bigint], "view">;
+
+  decryptEquipmentCount: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedData: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint] & {
+        id: bigint;
+        equipmentId: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAlarmLevel: TypedContractMethod<[dataId: BigNumberish], [string], "view">;
+
+  getAlarmThreshold: TypedContractMethod<
+    [equipmentId: string, channelId: string],
+    [[string, string] & { warning: string; critical: string }],
+    "view"
+  >;
+
+  getChannel: TypedContractMethod<
+    [channelId: string],
+    [
+      [string, string, bigint, bigint] & {
+        name: string;
+        unit: string;
+        scale: bigint;
+        valueType: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getChannelIds: TypedContractMethod<[], [string[]], "view">;
+
+  getChannelValue: TypedContractMethod<
+    [dataId: BigNumberish, channelId: string],
+    [string],
+    "view"
+  >;
+
+  getEncryptedEquipmentCount: TypedContractMethod<
+    [equipmentId: string],
+    [string],
+    "view"
+  >;
+
+  getEquipment: TypedContractMethod<
+    [equipmentId: string],
+    [
+      [string, string, bigint, bigint] & {
+        substationId: string;
+        name: string;
+        kind: bigint;
+        readingCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEquipmentCountReveal: TypedContractMethod<
+    [equipmentId: string],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        status: bigint;
+        requestId: bigint;
+        count: bigint;
+        revealedAt: bigint;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEquipmentIds: TypedContractMethod<[], [string[]], "view">;
+
+  getEquipmentReadings: TypedContractMethod<
+    [equipmentId: string],
+    [bigint[]],
+    "view"
+  >;
+
+  getPrediction: TypedContractMethod<
+    [dataId: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        equipmentId: string;
+        predictedRUL: bigint;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getReadingChannels: TypedContractMethod<
+    [dataId: BigNumberish],
+    [[string[], string[]] & { ids: string[]; handles: string[] }],
+    "view"
+  >;
+
+  getRole: TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getSubstation: TypedContractMethod<
+    [substationId: string],
+    [[string, string] & { name: string; location: string }],
+    "view"
+  >;
+
+  getSubstationIds: TypedContractMethod<[], [string[]], "view">;
+
+  getSubstationMembers: TypedContractMethod<
+    [substationId: string],
+    [[string[], bigint[]] & { accounts: string[]; roles: bigint[] }],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isAdmin: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  latestPredictionId: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  predictions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        equipmentId: string;
+        predictedRUL: bigint;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  processPrediction: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registerChannel: TypedContractMethod<
+    [
+      channelId: string,
+      name: string,
+      unit: string,
+      scale: BigNumberish,
+      valueType: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  registerEquipment: TypedContractMethod<
+    [
+      equipmentId: string,
+      substationId: string,
+      name: string,
+      kind: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  registerSubstation: TypedContractMethod<
+    [substationId: string, name: string, location: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestEquipmentCountDecryption: TypedContractMethod<
+    [equipmentId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestPrediction: TypedContractMethod<
+    [dataId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setAdmin: TypedContractMethod<
+    [account: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setAlarmThreshold: TypedContractMethod<
+    [
+      equipmentId: string,
+      channelId: string,
+      externalWarning: BytesLike,
+      externalCritical: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedChannelData: TypedContractMethod<
+    [
+      equipmentIds: string[],
+      readingChannelIds: string[],
+      externalHandles: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedSensorData: TypedContractMethod<
+    [
+      equipmentId: string,
+      externalTemperature: BytesLike,
+      externalVibration: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedSensorDataBatch: TypedContractMethod<
+    [
+      equipmentIds: string[],
+      externalTemperatures: BytesLike[],
+      externalVibrations: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ALARM_CRITICAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ALARM_WARNING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "BASE_RUL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COUNT_DECRYPTION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TEMPERATURE_EXCESS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VIBRATION_EXCESS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "TEMPERATURE_CHANNEL"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "TEMPERATURE_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "TEMPERATURE_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "VIBRATION_CHANNEL"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "VIBRATION_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "VIBRATION_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "allowAlarmLevels"
+  ): TypedContractMethod<[dataIds: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "canDecryptAlarmLevel"
+  ): TypedContractMethod<
+    [dataId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "dataCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptEquipmentCount"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint] & {
+        id: bigint;
+        equipmentId: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAlarmLevel"
+  ): TypedContractMethod<[dataId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getAlarmThreshold"
+  ): TypedContractMethod<
+    [equipmentId: string, channelId: string],
+    [[string, string] & { warning: string; critical: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChannel"
+  ): TypedContractMethod<
+    [channelId: string],
+    [
+      [string, string, bigint, bigint] & {
+        name: string;
+        unit: string;
+        scale: bigint;
+        valueType: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChannelIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getChannelValue"
+  ): TypedContractMethod<
+    [dataId: BigNumberish, channelId: string],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedEquipmentCount"
+  ): TypedContractMethod<[equipmentId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEquipment"
+  ): TypedContractMethod<
+    [equipmentId: string],
+    [
+      [string, string, bigint, bigint] & {
+        substationId: string;
+        name: string;
+        kind: bigint;
+        readingCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEquipmentCountReveal"
+  ): TypedContractMethod<
+    [equipmentId: string],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        status: bigint;
+        requestId: bigint;
+        count: bigint;
+        revealedAt: bigint;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEquipmentIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEquipmentReadings"
+  ): TypedContractMethod<[equipmentId: string], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getPrediction"
+  ): TypedContractMethod<
+    [dataId: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        equipmentId: string;
+        predictedRUL: bigint;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReadingChannels"
+  ): TypedContractMethod<
+    [dataId: BigNumberish],
+    [[string[], string[]] & { ids: string[]; handles: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubstation"
+  ): TypedContractMethod<
+    [substationId: string],
+    [[string, string] & { name: string; location: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubstationIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getSubstationMembers"
+  ): TypedContractMethod<
+    [substationId: string],
+    [[string[], bigint[]] & { accounts: string[]; roles: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAdmin"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "latestPredictionId"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "predictions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        equipmentId: string;
+        predictedRUL: bigint;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "processPrediction"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerChannel"
+  ): TypedContractMethod<
+    [
+      channelId: string,
+      name: string,
+      unit: string,
+      scale: BigNumberish,
+      valueType: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerEquipment"
+  ): TypedContractMethod<
+    [
+      equipmentId: string,
+      substationId: string,
+      name: string,
+      kind: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerSubstation"
+  ): TypedContractMethod<
+    [substationId: string, name: string, location: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestEquipmentCountDecryption"
+  ): TypedContractMethod<[equipmentId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestPrediction"
+  ): TypedContractMethod<[dataId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAdmin"
+  ): TypedContractMethod<
+    [account: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAlarmThreshold"
+  ): TypedContractMethod<
+    [
+      equipmentId: string,
+      channelId: string,
+      externalWarning: BytesLike,
+      externalCritical: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedChannelData"
+  ): TypedContractMethod<
+    [
+      equipmentIds: string[],
+      readingChannelIds: string[],
+      externalHandles: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedSensorData"
+  ): TypedContractMethod<
+    [
+      equipmentId: string,
+      externalTemperature: BytesLike,
+      externalVibration: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedSensorDataBatch"
+  ): TypedContractMethod<
+    [
+      equipmentIds: string[],
+      externalTemperatures: BytesLike[],
+      externalVibrations: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AdminUpdated"
+  ): TypedContractEvent<
+    AdminUpdatedEvent.InputTuple,
+    AdminUpdatedEvent.OutputTuple,
+    AdminUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AlarmThresholdSet"
+  ): TypedContractEvent<
+    AlarmThresholdSetEvent.InputTuple,
+    AlarmThresholdSetEvent.OutputTuple,
+    AlarmThresholdSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChannelRegistered"
+  ): TypedContractEvent<
+    ChannelRegisteredEvent.InputTuple,
+    ChannelRegisteredEvent.OutputTuple,
+    ChannelRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DataSubmitted"
+  ): TypedContractEvent<
+    DataSubmittedEvent.InputTuple,
+    DataSubmittedEvent.OutputTuple,
+    DataSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EquipmentCountRequested"
+  ): TypedContractEvent<
+    EquipmentCountRequestedEvent.InputTuple,
+    EquipmentCountRequestedEvent.OutputTuple,
+    EquipmentCountRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EquipmentCountRevealed"
+  ): TypedContractEvent<
+    EquipmentCountRevealedEvent.InputTuple,
+    EquipmentCountRevealedEvent.OutputTuple,
+    EquipmentCountRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EquipmentRegistered"
+  ): TypedContractEvent<
+    EquipmentRegisteredEvent.InputTuple,
+    EquipmentRegisteredEvent.OutputTuple,
+    EquipmentRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionProcessed"
+  ): TypedContractEvent<
+    PredictionProcessedEvent.InputTuple,
+    PredictionProcessedEvent.OutputTuple,
+    PredictionProcessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionRequested"
+  ): TypedContractEvent<
+    PredictionRequestedEvent.InputTuple,
+    PredictionRequestedEvent.OutputTuple,
+    PredictionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubstationRegistered"
+  ): TypedContractEvent<
+    SubstationRegisteredEvent.InputTuple,
+    SubstationRegisteredEvent.OutputTuple,
+    SubstationRegisteredEvent.OutputObject
+  >;
+
+  filters: {
+    "AdminUpdated(address,bool)": TypedContractEvent<
+      AdminUpdatedEvent.InputTuple,
+      AdminUpdatedEvent.OutputTuple,
+      AdminUpdatedEvent.OutputObject
+    >;
+    AdminUpdated: TypedContractEvent<
+      AdminUpdatedEvent.InputTuple,
+      AdminUpdatedEvent.OutputTuple,
+      AdminUpdatedEvent.OutputObject
+    >;
+
+    "AlarmThresholdSet(string,string)": TypedContractEvent<
+      AlarmThresholdSetEvent.InputTuple,
+      AlarmThresholdSetEvent.OutputTuple,
+      AlarmThresholdSetEvent.OutputObject
+    >;
+    AlarmThresholdSet: TypedContractEvent<
+      AlarmThresholdSetEvent.InputTuple,
+      AlarmThresholdSetEvent.OutputTuple,
+      AlarmThresholdSetEvent.OutputObject
+    >;
+
+    "ChannelRegistered(string)": TypedContractEvent<
+      ChannelRegisteredEvent.InputTuple,
+      ChannelRegisteredEvent.OutputTuple,
+      ChannelRegisteredEvent.OutputObject
+    >;
+    ChannelRegistered: TypedContractEvent<
+      ChannelRegisteredEvent.InputTuple,
+      ChannelRegisteredEvent.OutputTuple,
+      ChannelRegisteredEvent.OutputObject
+    >;
+
+    "DataSubmitted(uint256,string,uint256)": TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+    DataSubmitted: TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "EquipmentCountRequested(string,uint256)": TypedContractEvent<
+      EquipmentCountRequestedEvent.InputTuple,
+      EquipmentCountRequestedEvent.OutputTuple,
+      EquipmentCountRequestedEvent.OutputObject
+    >;
+    EquipmentCountRequested: TypedContractEvent<
+      EquipmentCountRequestedEvent.InputTuple,
+      EquipmentCountRequestedEvent.OutputTuple,
+      EquipmentCountRequestedEvent.OutputObject
+    >;
+
+    "EquipmentCountRevealed(string,uint256,uint32)": TypedContractEvent<
+      EquipmentCountRevealedEvent.InputTuple,
+      EquipmentCountRevealedEvent.OutputTuple,
+      EquipmentCountRevealedEvent.OutputObject
+    >;
+    EquipmentCountRevealed: TypedContractEvent<
+      EquipmentCountRevealedEvent.InputTuple,
+      EquipmentCountRevealedEvent.OutputTuple,
+      EquipmentCountRevealedEvent.OutputObject
+    >;
+
+    "EquipmentRegistered(string,string,uint8)": TypedContractEvent<
+      EquipmentRegisteredEvent.InputTuple,
+      EquipmentRegisteredEvent.OutputTuple,
+      EquipmentRegisteredEvent.OutputObject
+    >;
+    EquipmentRegistered: TypedContractEvent<
+      EquipmentRegisteredEvent.InputTuple,
+      EquipmentRegisteredEvent.OutputTuple,
+      EquipmentRegisteredEvent.OutputObject
+    >;
+
+    "PredictionProcessed(uint256)": TypedContractEvent<
+      PredictionProcessedEvent.InputTuple,
+      PredictionProcessedEvent.OutputTuple,
+      PredictionProcessedEvent.OutputObject
+    >;
+    PredictionProcessed: TypedContractEvent<
+      PredictionProcessedEvent.InputTuple,
+      PredictionProcessedEvent.OutputTuple,
+      PredictionProcessedEvent.OutputObject
+    >;
+
+    "PredictionRequested(uint256)": TypedContractEvent<
+      PredictionRequestedEvent.InputTuple,
+      PredictionRequestedEvent.OutputTuple,
+      PredictionRequestedEvent.OutputObject
+    >;
+    PredictionRequested: TypedContractEvent<
+      PredictionRequestedEvent.InputTuple,
+      PredictionRequestedEvent.OutputTuple,
+      PredictionRequestedEvent.OutputObject
+    >;
+
+    "RoleGranted(string,address,uint8,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(string,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SubstationRegistered(string,string,string)": TypedContractEvent<
+      SubstationRegisteredEvent.InputTuple,
+      SubstationRegisteredEvent.OutputTuple,
+      SubstationRegisteredEvent.OutputObject
+    >;
+    SubstationRegistered: TypedContractEvent<
+      SubstationRegisteredEvent.InputTuple,
+      SubstationRegisteredEvent.OutputTuple,
+      SubstationRegisteredEvent.OutputObject
+    >;
+  };
+}
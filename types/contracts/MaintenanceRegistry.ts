@@ -0,0 +1,527 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface MaintenanceRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "getEquipmentIds"
+      | "getRole"
+      | "getSubstation"
+      | "getSubstationIds"
+      | "getSubstationMembers"
+      | "grantRole"
+      | "hasRole"
+      | "isAdmin"
+      | "owner"
+      | "registerEquipment"
+      | "registerSubstation"
+      | "revokeRole"
+      | "setAdmin"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AdminUpdated"
+      | "EquipmentRegistered"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SubstationRegistered"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "getEquipmentIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRole",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstation",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstationIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstationMembers",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "registerEquipment",
+    values: [string, string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerSubstation",
+    values: [string, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAdmin",
+    values: [AddressLike, boolean]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getEquipmentIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstationIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstationMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isAdmin", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerEquipment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerSubstation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setAdmin", data: BytesLike): Result;
+}
+
+export namespace AdminUpdatedEvent {
+  export type InputTuple = [account: AddressLike, isAdmin: boolean];
+  export type OutputTuple = [account: string, isAdmin: boolean];
+  export interface OutputObject {
+    account: string;
+    isAdmin: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EquipmentRegisteredEvent {
+  export type InputTuple = [
+    equipmentId: string,
+    substationId: string,
+    kind: BigNumberish
+  ];
+  export type OutputTuple = [
+    equipmentId: string,
+    substationId: string,
+    kind: bigint
+  ];
+  export interface OutputObject {
+    equipmentId: string;
+    substationId: string;
+    kind: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    substationId: string,
+    account: AddressLike,
+    role: BigNumberish,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    substationId: string,
+    account: string,
+    role: bigint,
+    sender: string
+  ];
+  export interface OutputObject {
+    substationId: string;
+    account: string;
+    role: bigint;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    substationId: string,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    substationId: string,
+    account: string,
+    sender: string
+  ];
+  export interface OutputObject {
+    substationId: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubstationRegisteredEvent {
+  export type InputTuple = [
+    substationId: string,
+    name: string,
+    location: string
+  ];
+  export type OutputTuple = [
+    substationId: string,
+    name: string,
+    location: string
+  ];
+  export interface OutputObject {
+    substationId: string;
+    name: string;
+    location: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MaintenanceRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): MaintenanceRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: MaintenanceRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getEquipmentIds: TypedContractMethod<[], [string[]], "view">;
+
+  getRole: TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getSubstation: TypedContractMethod<
+    [substationId: string],
+    [[string, string] & { name: string; location: string }],
+    "view"
+  >;
+
+  getSubstationIds: TypedContractMethod<[], [string[]], "view">;
+
+  getSubstationMembers: TypedContractMethod<
+    [substationId: string],
+    [[string[], bigint[]] & { accounts: string[]; roles: bigint[] }],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isAdmin: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  registerEquipment: TypedContractMethod<
+    [
+      equipmentId: string,
+      substationId: string,
+      name: string,
+      kind: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  registerSubstation: TypedContractMethod<
+    [substationId: string, name: string, location: string],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setAdmin: TypedContractMethod<
+    [account: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getEquipmentIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubstation"
+  ): TypedContractMethod<
+    [substationId: string],
+    [[string, string] & { name: string; location: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubstationIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getSubstationMembers"
+  ): TypedContractMethod<
+    [substationId: string],
+    [[string[], bigint[]] & { accounts: string[]; roles: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAdmin"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerEquipment"
+  ): TypedContractMethod<
+    [
+      equipmentId: string,
+      substationId: string,
+      name: string,
+      kind: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerSubstation"
+  ): TypedContractMethod<
+    [substationId: string, name: string, location: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAdmin"
+  ): TypedContractMethod<
+    [account: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AdminUpdated"
+  ): TypedContractEvent<
+    AdminUpdatedEvent.InputTuple,
+    AdminUpdatedEvent.OutputTuple,
+    AdminUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EquipmentRegistered"
+  ): TypedContractEvent<
+    EquipmentRegisteredEvent.InputTuple,
+    EquipmentRegisteredEvent.OutputTuple,
+    EquipmentRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubstationRegistered"
+  ): TypedContractEvent<
+    SubstationRegisteredEvent.InputTuple,
+    SubstationRegisteredEvent.OutputTuple,
+    SubstationRegisteredEvent.OutputObject
+  >;
+
+  filters: {
+    "AdminUpdated(address,bool)": TypedContractEvent<
+      AdminUpdatedEvent.InputTuple,
+      AdminUpdatedEvent.OutputTuple,
+      AdminUpdatedEvent.OutputObject
+    >;
+    AdminUpdated: TypedContractEvent<
+      AdminUpdatedEvent.InputTuple,
+      AdminUpdatedEvent.OutputTuple,
+      AdminUpdatedEvent.OutputObject
+    >;
+
+    "EquipmentRegistered(string,string,uint8)": TypedContractEvent<
+      EquipmentRegisteredEvent.InputTuple,
+      EquipmentRegisteredEvent.OutputTuple,
+      EquipmentRegisteredEvent.OutputObject
+    >;
+    EquipmentRegistered: TypedContractEvent<
+      EquipmentRegisteredEvent.InputTuple,
+      EquipmentRegisteredEvent.OutputTuple,
+      EquipmentRegisteredEvent.OutputObject
+    >;
+
+    "RoleGranted(string,address,uint8,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(string,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SubstationRegistered(string,string,string)": TypedContractEvent<
+      SubstationRegisteredEvent.InputTuple,
+      SubstationRegisteredEvent.OutputTuple,
+      SubstationRegisteredEvent.OutputObject
+    >;
+    SubstationRegistered: TypedContractEvent<
+      SubstationRegisteredEvent.InputTuple,
+      SubstationRegisteredEvent.OutputTuple,
+      SubstationRegisteredEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,151 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IMaintenanceRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature: "getEquipment" | "getSubstation" | "hasRole"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "getEquipment",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstation",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [string, AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getEquipment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+}
+
+export interface IMaintenanceRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): IMaintenanceRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: IMaintenanceRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getEquipment: TypedContractMethod<
+    [equipmentId: string],
+    [
+      [string, string, bigint, bigint] & {
+        substationId: string;
+        name: string;
+        kind: bigint;
+        readingCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSubstation: TypedContractMethod<
+    [substationId: string],
+    [[string, string]],
+    "view"
+  >;
+
+  hasRole: TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getEquipment"
+  ): TypedContractMethod<
+    [equipmentId: string],
+    [
+      [string, string, bigint, bigint] & {
+        substationId: string;
+        name: string;
+        kind: bigint;
+        readingCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubstation"
+  ): TypedContractMethod<[substationId: string], [[string, string]], "view">;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [substationId: string, account: AddressLike, role: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  filters: {};
+}
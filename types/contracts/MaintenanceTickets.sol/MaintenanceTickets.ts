@@ -0,0 +1,600 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace MaintenanceTickets {
+  export type TicketStruct = {
+    id: BigNumberish;
+    substationId: string;
+    equipmentId: string;
+    dataId: BigNumberish;
+    issue: string;
+    priority: BigNumberish;
+    status: BigNumberish;
+    creator: AddressLike;
+    assignee: AddressLike;
+    resolution: string;
+    createdAt: BigNumberish;
+    updatedAt: BigNumberish;
+  };
+
+  export type TicketStructOutput = [
+    id: bigint,
+    substationId: string,
+    equipmentId: string,
+    dataId: bigint,
+    issue: string,
+    priority: bigint,
+    status: bigint,
+    creator: string,
+    assignee: string,
+    resolution: string,
+    createdAt: bigint,
+    updatedAt: bigint
+  ] & {
+    id: bigint;
+    substationId: string;
+    equipmentId: string;
+    dataId: bigint;
+    issue: string;
+    priority: bigint;
+    status: bigint;
+    creator: string;
+    assignee: string;
+    resolution: string;
+    createdAt: bigint;
+    updatedAt: bigint;
+  };
+
+  export type WorkNoteStruct = {
+    author: AddressLike;
+    text: string;
+    timestamp: BigNumberish;
+  };
+
+  export type WorkNoteStructOutput = [
+    author: string,
+    text: string,
+    timestamp: bigint
+  ] & { author: string; text: string; timestamp: bigint };
+}
+
+export interface MaintenanceTicketsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addWorkNote"
+      | "assignTicket"
+      | "cancelTicket"
+      | "completeTicket"
+      | "createTicket"
+      | "getSubstationTickets"
+      | "getTicket"
+      | "getWorkNotes"
+      | "registry"
+      | "startTicket"
+      | "ticketCount"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "TicketAssigned"
+      | "TicketCancelled"
+      | "TicketCompleted"
+      | "TicketCreated"
+      | "TicketStarted"
+      | "WorkNoteAdded"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addWorkNote",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignTicket",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelTicket",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeTicket",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createTicket",
+    values: [string, string, BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubstationTickets",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTicket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWorkNotes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "registry", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "startTicket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ticketCount",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "addWorkNote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assignTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubstationTickets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTicket", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getWorkNotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "registry", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "startTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ticketCount",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace TicketAssignedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    technician: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [id: bigint, technician: string, sender: string];
+  export interface OutputObject {
+    id: bigint;
+    technician: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketCancelledEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    sender: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [id: bigint, sender: string, reason: string];
+  export interface OutputObject {
+    id: bigint;
+    sender: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketCompletedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    technician: AddressLike,
+    resolution: string
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    technician: string,
+    resolution: string
+  ];
+  export interface OutputObject {
+    id: bigint;
+    technician: string;
+    resolution: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketCreatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    substationId: string,
+    equipmentId: string,
+    dataId: BigNumberish,
+    priority: BigNumberish,
+    creator: AddressLike
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    substationId: string,
+    equipmentId: string,
+    dataId: bigint,
+    priority: bigint,
+    creator: string
+  ];
+  export interface OutputObject {
+    id: bigint;
+    substationId: string;
+    equipmentId: string;
+    dataId: bigint;
+    priority: bigint;
+    creator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketStartedEvent {
+  export type InputTuple = [id: BigNumberish, technician: AddressLike];
+  export type OutputTuple = [id: bigint, technician: string];
+  export interface OutputObject {
+    id: bigint;
+    technician: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WorkNoteAddedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    author: AddressLike,
+    text: string
+  ];
+  export type OutputTuple = [id: bigint, author: string, text: string];
+  export interface OutputObject {
+    id: bigint;
+    author: string;
+    text: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MaintenanceTickets extends BaseContract {
+  connect(runner?: ContractRunner | null): MaintenanceTickets;
+  waitForDeployment(): Promise<this>;
+
+  interface: MaintenanceTicketsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addWorkNote: TypedContractMethod<
+    [ticketId: BigNumberish, text: string],
+    [void],
+    "nonpayable"
+  >;
+
+  assignTicket: TypedContractMethod<
+    [ticketId: BigNumberish, technician: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelTicket: TypedContractMethod<
+    [ticketId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  completeTicket: TypedContractMethod<
+    [ticketId: BigNumberish, resolution: string],
+    [void],
+    "nonpayable"
+  >;
+
+  createTicket: TypedContractMethod<
+    [
+      substationId: string,
+      equipmentId: string,
+      dataId: BigNumberish,
+      issue: string,
+      priority: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getSubstationTickets: TypedContractMethod<
+    [substationId: string],
+    [bigint[]],
+    "view"
+  >;
+
+  getTicket: TypedContractMethod<
+    [ticketId: BigNumberish],
+    [MaintenanceTickets.TicketStructOutput],
+    "view"
+  >;
+
+  getWorkNotes: TypedContractMethod<
+    [ticketId: BigNumberish],
+    [MaintenanceTickets.WorkNoteStructOutput[]],
+    "view"
+  >;
+
+  registry: TypedContractMethod<[], [string], "view">;
+
+  startTicket: TypedContractMethod<
+    [ticketId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  ticketCount: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addWorkNote"
+  ): TypedContractMethod<
+    [ticketId: BigNumberish, text: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "assignTicket"
+  ): TypedContractMethod<
+    [ticketId: BigNumberish, technician: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelTicket"
+  ): TypedContractMethod<
+    [ticketId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "completeTicket"
+  ): TypedContractMethod<
+    [ticketId: BigNumberish, resolution: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createTicket"
+  ): TypedContractMethod<
+    [
+      substationId: string,
+      equipmentId: string,
+      dataId: BigNumberish,
+      issue: string,
+      priority: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getSubstationTickets"
+  ): TypedContractMethod<[substationId: string], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getTicket"
+  ): TypedContractMethod<
+    [ticketId: BigNumberish],
+    [MaintenanceTickets.TicketStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getWorkNotes"
+  ): TypedContractMethod<
+    [ticketId: BigNumberish],
+    [MaintenanceTickets.WorkNoteStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "startTicket"
+  ): TypedContractMethod<[ticketId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "ticketCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "TicketAssigned"
+  ): TypedContractEvent<
+    TicketAssignedEvent.InputTuple,
+    TicketAssignedEvent.OutputTuple,
+    TicketAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketCancelled"
+  ): TypedContractEvent<
+    TicketCancelledEvent.InputTuple,
+    TicketCancelledEvent.OutputTuple,
+    TicketCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketCompleted"
+  ): TypedContractEvent<
+    TicketCompletedEvent.InputTuple,
+    TicketCompletedEvent.OutputTuple,
+    TicketCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketCreated"
+  ): TypedContractEvent<
+    TicketCreatedEvent.InputTuple,
+    TicketCreatedEvent.OutputTuple,
+    TicketCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketStarted"
+  ): TypedContractEvent<
+    TicketStartedEvent.InputTuple,
+    TicketStartedEvent.OutputTuple,
+    TicketStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WorkNoteAdded"
+  ): TypedContractEvent<
+    WorkNoteAddedEvent.InputTuple,
+    WorkNoteAddedEvent.OutputTuple,
+    WorkNoteAddedEvent.OutputObject
+  >;
+
+  filters: {
+    "TicketAssigned(uint256,address,address)": TypedContractEvent<
+      TicketAssignedEvent.InputTuple,
+      TicketAssignedEvent.OutputTuple,
+      TicketAssignedEvent.OutputObject
+    >;
+    TicketAssigned: TypedContractEvent<
+      TicketAssignedEvent.InputTuple,
+      TicketAssignedEvent.OutputTuple,
+      TicketAssignedEvent.OutputObject
+    >;
+
+    "TicketCancelled(uint256,address,string)": TypedContractEvent<
+      TicketCancelledEvent.InputTuple,
+      TicketCancelledEvent.OutputTuple,
+      TicketCancelledEvent.OutputObject
+    >;
+    TicketCancelled: TypedContractEvent<
+      TicketCancelledEvent.InputTuple,
+      TicketCancelledEvent.OutputTuple,
+      TicketCancelledEvent.OutputObject
+    >;
+
+    "TicketCompleted(uint256,address,string)": TypedContractEvent<
+      TicketCompletedEvent.InputTuple,
+      TicketCompletedEvent.OutputTuple,
+      TicketCompletedEvent.OutputObject
+    >;
+    TicketCompleted: TypedContractEvent<
+      TicketCompletedEvent.InputTuple,
+      TicketCompletedEvent.OutputTuple,
+      TicketCompletedEvent.OutputObject
+    >;
+
+    "TicketCreated(uint256,string,string,uint256,uint8,address)": TypedContractEvent<
+      TicketCreatedEvent.InputTuple,
+      TicketCreatedEvent.OutputTuple,
+      TicketCreatedEvent.OutputObject
+    >;
+    TicketCreated: TypedContractEvent<
+      TicketCreatedEvent.InputTuple,
+      TicketCreatedEvent.OutputTuple,
+      TicketCreatedEvent.OutputObject
+    >;
+
+    "TicketStarted(uint256,address)": TypedContractEvent<
+      TicketStartedEvent.InputTuple,
+      TicketStartedEvent.OutputTuple,
+      TicketStartedEvent.OutputObject
+    >;
+    TicketStarted: TypedContractEvent<
+      TicketStartedEvent.InputTuple,
+      TicketStartedEvent.OutputTuple,
+      TicketStartedEvent.OutputObject
+    >;
+
+    "WorkNoteAdded(uint256,address,string)": TypedContractEvent<
+      WorkNoteAddedEvent.InputTuple,
+      WorkNoteAddedEvent.OutputTuple,
+      WorkNoteAddedEvent.OutputObject
+    >;
+    WorkNoteAdded: TypedContractEvent<
+      WorkNoteAddedEvent.InputTuple,
+      WorkNoteAddedEvent.OutputTuple,
+      WorkNoteAddedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IMaintenanceRegistry } from "./IMaintenanceRegistry";
+export type { MaintenanceTickets } from "./MaintenanceTickets";
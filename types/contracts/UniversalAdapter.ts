@@ -0,0 +1,383 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface UniversalAdapterInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "appendRecord"
+      | "deleteRecord"
+      | "getData"
+      | "getRecord"
+      | "getRecordIds"
+      | "getRecords"
+      | "isAvailable"
+      | "setData"
+      | "updateRecord"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "DataStored" | "RecordDeleted" | "RecordStored"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "appendRecord",
+    values: [string, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteRecord",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getData", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getRecord",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecordIds",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "getRecords", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setData",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRecord",
+    values: [string, string, BytesLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "appendRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deleteRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getRecord", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getRecordIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRecords", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRecord",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DataStoredEvent {
+  export type InputTuple = [sender: AddressLike, key: string, value: BytesLike];
+  export type OutputTuple = [sender: string, key: string, value: string];
+  export interface OutputObject {
+    sender: string;
+    key: string;
+    value: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordDeletedEvent {
+  export type InputTuple = [
+    collection: string,
+    id: string,
+    version: BigNumberish,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    collection: string,
+    id: string,
+    version: bigint,
+    sender: string
+  ];
+  export interface OutputObject {
+    collection: string;
+    id: string;
+    version: bigint;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordStoredEvent {
+  export type InputTuple = [
+    collection: string,
+    id: string,
+    version: BigNumberish,
+    value: BytesLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    collection: string,
+    id: string,
+    version: bigint,
+    value: string,
+    sender: string
+  ];
+  export interface OutputObject {
+    collection: string;
+    id: string;
+    version: bigint;
+    value: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface UniversalAdapter extends BaseContract {
+  connect(runner?: ContractRunner | null): UniversalAdapter;
+  waitForDeployment(): Promise<this>;
+
+  interface: UniversalAdapterInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  appendRecord: TypedContractMethod<
+    [collection: string, id: string, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  deleteRecord: TypedContractMethod<
+    [collection: string, id: string, expectedVersion: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getData: TypedContractMethod<[key: string], [string], "view">;
+
+  getRecord: TypedContractMethod<
+    [collection: string, id: string],
+    [[string, bigint] & { value: string; version: bigint }],
+    "view"
+  >;
+
+  getRecordIds: TypedContractMethod<[collection: string], [string[]], "view">;
+
+  getRecords: TypedContractMethod<
+    [collection: string],
+    [
+      [string[], string[], bigint[]] & {
+        ids: string[];
+        values: string[];
+        versions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  setData: TypedContractMethod<
+    [key: string, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRecord: TypedContractMethod<
+    [
+      collection: string,
+      id: string,
+      value: BytesLike,
+      expectedVersion: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "appendRecord"
+  ): TypedContractMethod<
+    [collection: string, id: string, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "deleteRecord"
+  ): TypedContractMethod<
+    [collection: string, id: string, expectedVersion: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getData"
+  ): TypedContractMethod<[key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRecord"
+  ): TypedContractMethod<
+    [collection: string, id: string],
+    [[string, bigint] & { value: string; version: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRecordIds"
+  ): TypedContractMethod<[collection: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRecords"
+  ): TypedContractMethod<
+    [collection: string],
+    [
+      [string[], string[], bigint[]] & {
+        ids: string[];
+        values: string[];
+        versions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "setData"
+  ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateRecord"
+  ): TypedContractMethod<
+    [
+      collection: string,
+      id: string,
+      value: BytesLike,
+      expectedVersion: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "DataStored"
+  ): TypedContractEvent<
+    DataStoredEvent.InputTuple,
+    DataStoredEvent.OutputTuple,
+    DataStoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordDeleted"
+  ): TypedContractEvent<
+    RecordDeletedEvent.InputTuple,
+    RecordDeletedEvent.OutputTuple,
+    RecordDeletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordStored"
+  ): TypedContractEvent<
+    RecordStoredEvent.InputTuple,
+    RecordStoredEvent.OutputTuple,
+    RecordStoredEvent.OutputObject
+  >;
+
+  filters: {
+    "DataStored(address,string,bytes)": TypedContractEvent<
+      DataStoredEvent.InputTuple,
+      DataStoredEvent.OutputTuple,
+      DataStoredEvent.OutputObject
+    >;
+    DataStored: TypedContractEvent<
+      DataStoredEvent.InputTuple,
+      DataStoredEvent.OutputTuple,
+      DataStoredEvent.OutputObject
+    >;
+
+    "RecordDeleted(string,string,uint64,address)": TypedContractEvent<
+      RecordDeletedEvent.InputTuple,
+      RecordDeletedEvent.OutputTuple,
+      RecordDeletedEvent.OutputObject
+    >;
+    RecordDeleted: TypedContractEvent<
+      RecordDeletedEvent.InputTuple,
+      RecordDeletedEvent.OutputTuple,
+      RecordDeletedEvent.OutputObject
+    >;
+
+    "RecordStored(string,string,uint64,bytes,address)": TypedContractEvent<
+      RecordStoredEvent.InputTuple,
+      RecordStoredEvent.OutputTuple,
+      RecordStoredEvent.OutputObject
+    >;
+    RecordStored: TypedContractEvent<
+      RecordStoredEvent.InputTuple,
+      RecordStoredEvent.OutputTuple,
+      RecordStoredEvent.OutputObject
+    >;
+  };
+}
@@ -1,5 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { CuratedListsFHE } from "./CuratedListsFHE";
+import type * as maintenanceTicketsSol from "./MaintenanceTickets.sol";
+export type { maintenanceTicketsSol };
+export type { FHEPowerMaintenance } from "./FHEPowerMaintenance";
+export type { MaintenanceRegistry } from "./MaintenanceRegistry";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,1441 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  FHEPowerMaintenance,
+  FHEPowerMaintenanceInterface,
+} from "../../contracts/FHEPowerMaintenance";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isAdmin",
+        type: "bool",
+      },
+    ],
+    name: "AdminUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+    ],
+    name: "AlarmThresholdSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+    ],
+    name: "ChannelRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DataSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "EquipmentCountRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "EquipmentCountRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "enum MaintenanceRegistry.EquipmentKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "EquipmentRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum MaintenanceRegistry.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+    ],
+    name: "SubstationRegistered",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ALARM_CRITICAL",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ALARM_WARNING",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "BASE_RUL",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "COUNT_DECRYPTION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TEMPERATURE_EXCESS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VIBRATION_EXCESS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TEMPERATURE_CHANNEL",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TEMPERATURE_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TEMPERATURE_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VIBRATION_CHANNEL",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VIBRATION_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VIBRATION_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "dataIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "allowAlarmLevels",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canDecryptAlarmLevel",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dataCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptEquipmentCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedData",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "getAlarmLevel",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+    ],
+    name: "getAlarmThreshold",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "warning",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "critical",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+    ],
+    name: "getChannel",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "unit",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "scale",
+        type: "uint32",
+      },
+      {
+        internalType: "enum FHEPowerMaintenance.ChannelType",
+        name: "valueType",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getChannelIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+    ],
+    name: "getChannelValue",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedEquipmentCount",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+    ],
+    name: "getEquipment",
+    outputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "enum MaintenanceRegistry.EquipmentKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "readingCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+    ],
+    name: "getEquipmentCountReveal",
+    outputs: [
+      {
+        internalType: "enum FHEPowerMaintenance.DecryptionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEquipmentIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+    ],
+    name: "getEquipmentReadings",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "getPrediction",
+    outputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "predictedRUL",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isProcessed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "getReadingChannels",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "ids",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "handles",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getRole",
+    outputs: [
+      {
+        internalType: "enum MaintenanceRegistry.Role",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+    ],
+    name: "getSubstation",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSubstationIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+    ],
+    name: "getSubstationMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "accounts",
+        type: "address[]",
+      },
+      {
+        internalType: "enum MaintenanceRegistry.Role[]",
+        name: "roles",
+        type: "uint8[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "enum MaintenanceRegistry.Role",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "enum MaintenanceRegistry.Role",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAdmin",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "latestPredictionId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "predictions",
+    outputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "predictedRUL",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isProcessed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "unit",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "scale",
+        type: "uint32",
+      },
+      {
+        internalType: "enum FHEPowerMaintenance.ChannelType",
+        name: "valueType",
+        type: "uint8",
+      },
+    ],
+    name: "registerChannel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "enum MaintenanceRegistry.EquipmentKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "registerEquipment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+    ],
+    name: "registerSubstation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+    ],
+    name: "requestEquipmentCountDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+    ],
+    name: "requestPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "channelId",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "externalWarning",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "externalCritical",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setAlarmThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "equipmentIds",
+        type: "string[]",
+      },
+      {
+        internalType: "string[]",
+        name: "readingChannelIds",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "externalHandles",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedChannelData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "externalTemperature",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "externalVibration",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedSensorData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "equipmentIds",
+        type: "string[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "externalTemperatures",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "externalVibrations",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedSensorDataBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000583575f60606200001762000587565b82815282602082015282604082015201526200003262000587565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f556200015d620005c7565b600b8152602081016a74656d706572617475726560a81b815262000180620005c7565b600b81526a54656d706572617475726560a81b6020820152620001a2620005c7565b906003825262c2b04360e81b60208301528351156200054b5760ff60026040516020818851620001d481838b620005e7565b81016014815203019020015460281c166200050657620001f3620005a7565b908152602081019182526040810191600a835263ffffffff600260608401938185526200025e608082019460018652620002536200024060208b8d604051938492839251928391620005e7565b810160148152030190209351846200060a565b51600183016200060a565b019351169083549251916004831015620004f25765ff000000000064ff000000009251151560281b169365ffffffffffff1916179160201b161717905560155468010000000000000000811015620004de576001810180601555811015620004ca57826200030892620002ec5f8051602062005a068339815191529560409460155f5260205f20016200060a565b82519384926020845251809281602086015285850190620005e7565b601f01601f19168101030190a16200031f620005c7565b60098152683b34b13930ba34b7b760b91b60208201526200033f620005c7565b60098152682b34b13930ba34b7b760b91b60208201526200035f620005c7565b9060048252636d6d2f7360e01b60208301528251156200054b5760ff60026040516020818751620003948183858c01620005e7565b81016014815203019020015460281c166200050657620003b3620005a7565b9081526020810191825260408101916064835263ffffffff6002606084019381855262000401608082019460018652620002536200024060208b8160405193828580945193849201620005e7565b019351169083549251916004831015620004f25765ff000000000064ff000000009251151560281b169365ffffffffffff1916179160201b16171790556015549068010000000000000000821015620004de576001820180601555821015620004ca5762000488815f8051602062005a068339815191529360155f5260205f20016200060a565b60408051809260208252620004ad8151809281602086015260208686019101620005e7565b601f01601f19168101030190a16040516152b890816200074e8239f35b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52602160045260245ffd5b60405162461bcd60e51b815260206004820152601a60248201527f4368616e6e656c20616c726561647920726567697374657265640000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f115b5c1d1e4818da185b9b995b081a5960821b6044820152606490fd5b5f80fd5b60405190608082016001600160401b03811183821017620004de57604052565b6040519060a082016001600160401b03811183821017620004de57604052565b60408051919082016001600160401b03811183821017620004de57604052565b5f5b838110620005f95750505f910152565b8181015183820152602001620005e9565b81519091906001600160401b038111620004de57825460019283821691841c821562000744575b602092838210146200073057601f8111620006e5575b5081601f84116001146200068257509282939183925f9462000676575b50501b915f199060031b1c1916179055565b015192505f8062000664565b919083601f198116875f52845f20945f905b88838310620006ca5750505010620006b1575b505050811b019055565b01515f1960f88460031b161c191690555f8080620006a7565b85870151885590960195948501948793509081019062000694565b855f52825f20601f850160051c81019184861062000725575b601f0160051c019085905b8281106200071957505062000647565b5f815501859062000709565b9091508190620006fe565b634e487b7160e01b5f52602260045260245ffd5b607f166200063156fe60806040526004361015610011575f80fd5b5f3560e01c80624fbbb01461389757806301da8c0d1461367257806305af3b00146135ba578063060e91011461352557806306340331146134b25780630e374767146134975780630fe17e351461347b5780631dd515fe1461345f5780631dfe2fe71461344457806321ff84bc146133fb57806324d7806c146133ce5780632d1ad1fa1461334a57806332b30d18146132b05780633ed5dc8b1461319257806345c591bf14612fcc5780634778d03f14612e635780634a6f346614612dce5780634ace926414612db35780634b0bddd214612cec57806355787dce14612c655780635da40c4714612c485780635e246a0e14612b55578063667e0c4a146127c9578063731f21a0146125b35780637cd7ee3d146124e95780637d8136d6146124a05780637f8e334214612484578063864945d0146123f95780638ab693cd146123de5780638da5cb5b146123b7578063903ad59f146123225780639234baf8146122f35780639b6b181d14612267578063a05112fc1461220f578063a22dee531461213c578063b58bae6c14612121578063b6cad96d1461160b578063be59f24a14611225578063c54161811461118e578063c715488c14611172578063cadcfc3014611019578063cc02a3fc14610f53578063cfdbf25414610f39578063d511819d14610f1d578063da1f12ab14610f01578063e3e3ced314610bf5578063eb60473714610895578063ec7df8471461063a578063f0eb13ac146103ea578063f903bf46146103a9578063fa0e7ed41461038d578063fcb539ba146102ad5763fe83bece1461025f575f80fd5b346102a95760203660031901126102a9576004355f52600b60205260405f206001810154906102a561029860ff6002840154169261397d565b9160405193849384613a65565b0390f35b5f80fd5b346102a95760203660031901126102a9576004356001600160401b0381116102a9576102e0610367913690600401613c07565b6040519061033060208251938181818601966102fd81838a613a1f565b810160048152030190209360ff600286015461031d828260081c16614385565b1693604051938492839251928391613a1f565b8101600d81520301902054610375610353600161034c8661397d565b950161397d565b604051958695608087526080870190613a40565b908582036020870152613a40565b9161037f81613c51565b604084015260608301520390f35b346102a9575f3660031901126102a95760206040516127108152f35b346102a95760203660031901126102a957600435805f52600a6020526103d460405f20541515613f83565b5f526019602052602060405f2054604051908152f35b346102a95760603660031901126102a9576004356001600160401b0381116102a95761041a903690600401613ab9565b90610423613c3b565b906044359260038410156102a95761044261043d33613f0b565b61401f565b604051938183863761046960ff6002878581018281526020998a910301902001541661406d565b6001600160a01b0384169361047f851515613fe1565b61048882613c51565b8115610606576040518385823786818581016006815203019020855f52865260ff60405f2054166104b881613c51565b1561053e575b506105297f63bd614a2ada21d0c93a514aa5bd2ef95fada8af9a0deaf6a175f91eadcb9204936040518482823787818681016006815203019020865f52875260405f2061050a84613c51565b60ff1981541660ff851617905560405193604085526040850191613ed4565b9461053382613c51565b8201528033940390a3005b926040518382823786818581016007815203019020908154600160401b8110156105f2577f63bd614a2ada21d0c93a514aa5bd2ef95fada8af9a0deaf6a175f91eadcb92049561059a826105299560016105b895018155614058565b90919060018060a01b038084549260031b9316831b921b1916179055565b6040518482823787818681016007815203019020546040518583823788818781016008815203019020875f52885260405f205593506104be565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260048101879052600c60248201526b496e76616c696420726f6c6560a01b6044820152606490fd5b346102a95761064836613d00565b9091805f5260206013815263ffffffff6106a260405f20549561066c87151561420b565b865f52600b845261069460405f209682600289019761068f60ff8a5416156140b9565b614b74565b838082518301019101614249565b166001908185015560ff199281848254161790556106bf84614265565b548511610885575b6040515f908386546106d8816138db565b908786821691825f1461087357505060011461083d575b508183600f5f955203019020548360018060a01b035f8051602061526c8339815191525416604460405180958193639cd07acb60e01b8352886004840152600460248401525af1908115610832575f91610801575b61074e9250614d44565b936107593086614f05565b6040519384925f92805461076c816138db565b938184169182156107eb5750506001146107b3575b505050600f815203019020557f73bce4a7f5d228ba17e8ddbd99678a75697edac4495e90c501b7dec6c79f88155f80a2005b909192505f52835f2090845f925b8484106107d657505050508101868080610781565b805488850152879550920191859082016107c1565b1686525050508015150282019050868080610781565b90508382813d831161082b575b610818818361395c565b810103126102a95761074e915190610744565b503d61080e565b6040513d5f823e3d90fd5b90919250865f52815f20845f915b83831061085f5750505082019190816106ef565b80548387015287949092019186910161084b565b168452508015150282019250816106ef565b8461088f85614265565b556106c7565b346102a95760603660031901126102a9576001600160401b036004358181116102a9576108c6903690600401613ab9565b60249283358181116102a9576108e0903690600401613ab9565b6044358381116102a9576108f8903690600401613ab9565b92909361090761043d33613f0b565b8515610bb9576040519786888a3760ff60028a89810182815260209c8d9103019020015416610b765787906109b18560028c61099b8c6109926109668e8e61095d8e6040519a6109568c613913565b3691613bc2565b89523691613bc2565b91848701928352604087019460019a8b8752826040519384928337810188815203019020955186614148565b51878501614148565b51151591019060ff801983541691151516179055565b600354600160401b811015610b625782810180600355811015610b4e5760035f527fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b01928811610b3b5750610a1087610a0a84546138db565b846140f9565b5f90601f8811600114610ab0575092610a92927fd90fd6d019145da29744fe9247de83b126d7866f6063135ace644c25159bfbba9992610a6b8980610aa09a99985f91610aa5575b508160011b915f199060031b1c19161790565b90555b610a85604051998a9960608b5260608b0191613ed4565b9288840390890152613ed4565b918483036040860152613ed4565b0390a1005b90508c01358e610a58565b90601f19881690835f528a5f20915f5b818110610b26575092610a9295927fd90fd6d019145da29744fe9247de83b126d7866f6063135ace644c25159bfbba9c95928b610aa09b9a999610610b0d575b505089811b019055610a6e565b8c01355f1960038d901b60f8161c191690558c80610b00565b8b830135845592840192918c01918c01610ac0565b634e487b7160e01b5f9081526041600452fd5b50634e487b7160e01b5f9081526032600452fd5b50634e487b7160e01b5f9081526041600452fd5b88601d6064926040519262461bcd60e51b845260048401528201527f53756273746174696f6e20616c726561647920726567697374657265640000006044820152fd5b60405162461bcd60e51b8152602060048201526015818a015274125b9d985b1a59081cdd589cdd185d1a5bdb881a59605a1b6044820152606490fd5b346102a95760a03660031901126102a9576001600160401b036004358181116102a957610c26903690600401613ab9565b919060249283358381116102a957610c42903690600401613ab9565b936044358181116102a957610c5b903690600401613ab9565b9490936064359463ffffffff928387168097036102a9576084359560048710156102a957610c96610c9e92610ca69561095661043d33613f0b565b993691613bc2565b963691613bc2565b94865115610eca576040519587519360ff6002898b60209b8c80920199610cce81838d613a1f565b81016014815203019020015460281c16610e86578615610e52576040519160a0830191821183831017610e3f57600293610d599260405283528883019081526040830197885260608301968752610d4f610d3d8a608086019860018a528d604051938492839251928391613a1f565b81016014815203019020935184614148565b5160018301614148565b019351169083549251916004831015610e2c5765ff000000000064ff000000009251151560281b169365ffffffffffff19161791851b161717905560155492600160401b841015610b3b576001840180601555841015610e195750610e05827fb19468c822e03c2e0443b26b08c39387d321895fbf348541c66117f3e1d723b59460155f527f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec47501614148565b610aa0604051928284938452830190613a40565b634e487b7160e01b5f9081526032600452fd5b87634e487b7160e01b5f5260216004525ffd5b8a634e487b7160e01b5f5260416004525ffd5b60405162461bcd60e51b815260048101899052600d818c01526c496e76616c6964207363616c6560981b6044820152606490fd5b60405162461bcd60e51b815260048101899052601a818c01527f4368616e6e656c20616c726561647920726567697374657265640000000000006044820152606490fd5b60405162461bcd60e51b8152602060048201526010818a01526f115b5c1d1e4818da185b9b995b081a5960821b6044820152606490fd5b346102a9575f3660031901126102a95760206040516127118152f35b346102a9575f3660031901126102a9576020604051610e108152f35b346102a9575f3660031901126102a9576020604051818152f35b346102a95760403660031901126102a957610f6c613c3b565b6004355f52601960205260405f2054908115159081610f93575b6020826040519015158152f35b5f8051602061528c833981519152546040516382027b6d60e01b815260048101949094526001600160a01b0391821660248501526020925083916044918391165afa8015610832576020915f91610fec575b5082610f86565b61100c9150823d8411611012575b611004818361395c565b810190614f6c565b82610fe5565b503d610ffa565b346102a95761102736613d00565b825f5260206012815260405f205461104081151561420b565b5f526011815261105260405f2061397d565b92604051828186516110678183858b01613a1f565b81016010815203019020928584541480611159575b1561111e57916110c5826110b77fd35f7b0fd4e8a0d72da1977c8c8f2b0a339d0841e9bf1e617a2922d19d8be6fb979561111397958a614b74565b828082518301019101614249565b9160026001820191825490824291015564ffffffff008560081b169064ffffffffff191617179055855f52601281525f604081205563ffffffff604051948594604086526040860190613a40565b9216908301520390a2005b60405162461bcd60e51b815260048101849052601360248201527252657175657374206e6f742070656e64696e6760681b6044820152606490fd5b50600160ff818601541661116c81613c51565b1461107c565b346102a9575f3660031901126102a95760206040516101f48152f35b346102a95760403660031901126102a9576024356001600160401b0381116102a9576111c16111d5913690600401613c07565b6004355f52601760205260405f2090613cb5565b5480156111e757602090604051908152f35b60405162461bcd60e51b81526020600482015260166024820152754368616e6e656c206e6f7420696e2072656164696e6760501b6044820152606490fd5b346102a95760803660031901126102a9576001600160401b036004358181116102a957611256903690600401613ab9565b60249283358181116102a957611270903690600401613ab9565b906044358381116102a957611289903690600401613ab9565b9390966064359460038610156102a9576112a561043d33613f0b565b86156115d0576040519885858b376112d260ff60028c89810182815260209e8f910301902001541661406d565b60ff60026040518a8c82378c818c81016004815203019020015460081c1661158c576040519160808301838110868211176115795761132a8b9594938d93600293604052611321368c8c613bc2565b86523691613bc2565b9282810193845261137860408201946113428c613c51565b8b865261136f8d606085019660019a8b895282604051938492833781016004815203019020935184614148565b51878301614148565b0191519061138582613c51565b61138e82613c51565b60ff61ff0084549251151560081b1692169061ffff191617179055600554600160401b811015610b625782810180600555811015610b4e5760055f527f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db001928711610b3b575061140286610a0a84546138db565b5f90601f87116001146114f35750916114d4939161145787807f1ea160883907f7c2b39084fbc7e53e14fd25a6b923c849755099eb69e59c13ea9b965f916114e857508160011b915f199060031b1c19161790565b90555b6114b061146836888a613bc2565b611470614f84565b61147a3082614f05565b60405190825191878181860194611492818388613a1f565b8101600f81520301902055815190205f526011855260405f20614148565b6114c7604051978897606089526060890191613ed4565b9286840390870152613ed4565b906114de81613c51565b60408301520390a1005b90508a01358c610a58565b90601f19871690835f52895f20915f5b8181106115645750917f1ea160883907f7c2b39084fbc7e53e14fd25a6b923c849755099eb69e59c13ea9a959391896114d49896941061154b575b505087811b01905561145a565b8a01355f1960038b901b60f8161c191690558a8061153e565b8a830135845592840192918b01918b01611503565b84634e487b7160e01b5f5260416004525ffd5b60405162461bcd60e51b8152600481018b9052601c818501527f45717569706d656e7420616c72656164792072656769737465726564000000006044820152606490fd5b60405162461bcd60e51b81526020600482015260148184015273125b9d985b1a5908195c5d5a5c1b595b9d081a5960621b6044820152606490fd5b346102a95760203660031901126102a9576004355f52600a60205261163560405f20541515613f83565b6004355f52600a60205261166861166361165c611657600160405f200161397d565b6143d1565b3390613f3b565b613e78565b6004355f52600b60205261168660ff600260405f20015416156140b9565b6004355f5260176020526116a460405f2061169f613c8e565b613cb5565b546004355f5260176020526116be60405f2061169f613cdb565b549080151580612118575b156120d3575f916116d8614f84565b918081156120c1575b5f8051602061526c833981519152546040516385362ee760e01b8152600481019290925261028a6024830152600160f81b6044830152909460209186916064918391906001600160a01b03165af1908115610832575f9161208d575b5f9450801561207b575b5f8051602061526c833981519152546040516303056db360e31b8152600481019290925261028a6024830152600160f81b6044830152909460209186916064918391906001600160a01b03165af1938415610832575f94612047575b50825f946117b0926151c5565b8015612035575b5f8051602061526c833981519152546040516304559f7160e01b815260048101929092526101f46024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af1908115610832575f91612001575b5f9350808115611fef575b5f8051602061526c833981519152546040516385362ee760e01b815260048101929092526101c26024830152600160f81b6044830152909460209186916064918391906001600160a01b03165af1908115610832575f91611fbb575b5f94508015611fa9575b5f8051602061526c833981519152546040516303056db360e31b815260048101929092526101c26024830152600160f81b6044830152909460209186916064918391906001600160a01b03165af1938415610832575f94611f75575b50825f946118ed926151c5565b8015611f63575b5f8051602061526c833981519152546040516304559f7160e01b815260048101929092526103e86024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af1908115610832575f91611f2f575b5f93508015611f1d575b5f8051602061526c83398151915254604051630afe14ad60e31b8152600481019290925260146024830152600160f81b6044830152909360209185916064918391906001600160a01b03165af1928315610832575f93611ee9575b508015611ed5575b5f8051602061526c83398151915254604051630afe14ad60e31b81526004810192909252600a6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610832575f91611ea3575b50611a23905f93614d44565b9081158281611e91575b5f8051602061526c83398151915254604051631391547f60e01b815260048101929092526127106024830152600160f81b6044830152909460209186916064918391906001600160a01b03165af1928315610832575f93611e5d575b5f945090602060018060a01b035f8051602061526c8339815191525416604460405180988193639cd07acb60e01b83526127106004840152600460248401525af1948515610832575f95611e29575b50611e17575b602090606460018060a01b035f8051602061526c8339815191525416955f60405197889485936303056db360e31b8552600485015260248401528160448401525af1918215610832575f92611de1575b611b3893506151c5565b611b423082614f05565b6004355f52600c6020528060405f205560405190611b5f82613941565b6001825260208201906020368337611b7683613fc0565b525f7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549360018060a01b035f8051602061528c8339815191525416803b156102a9575f6040518092637d6e912360e11b825260206004830152818381611be26024820189613c5b565b03925af1801561083257611dce575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b15611dca57836040518092633263b83b60e01b825288600483015260606024830152818381611c516064820189613c5b565b63ec7df84760e01b604483015203925af18015611dbf57908491611da7575b508590527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01806020526040842054611d9557858452602052604083209051916001600160401b038311611d8157600160401b8311611d81578154838355808410611d5b575b5090835260208320835b838110611d4757505050508154905f198214611d33575060010190555f52601360205260043560405f20556004357f531122ee1c5c59235db3d128b7f66f009e770ac694e89e2ce0010044c00045a95f80a2005b634e487b7160e01b81526011600452602490fd5b600190602084519401938184015501611cdf565b828552836020862091820191015b818110611d765750611cd5565b5f8155600101611d69565b634e487b7160e01b84526041600452602484fd5b604051633f06d22b60e01b8152600490fd5b611db09061392e565b611dbb578286611c70565b8280fd5b6040513d86823e3d90fd5b8380fd5b611dd991935061392e565b5f9185611bf1565b91506020833d602011611e0f575b81611dfc6020938361395c565b810103126102a957611b38925191611b2e565b3d9150611def565b506020611e22614f84565b9050611ade565b9094506020813d602011611e55575b81611e456020938361395c565b810103126102a957519385611ad8565b3d9150611e38565b92506020843d602011611e89575b81611e786020938361395c565b810103126102a9575f935192611a89565b3d9150611e6b565b506020611e9c614f84565b9050611a2d565b90506020813d602011611ecd575b81611ebe6020938361395c565b810103126102a957515f611a17565b3d9150611eb1565b505f6020611ee1614f84565b9150506119bd565b9092506020813d602011611f15575b81611f056020938361395c565b810103126102a9575191836119b5565b3d9150611ef8565b506020611f28614f84565b905061195a565b90506020833d602011611f5b575b81611f4a6020938361395c565b810103126102a9575f925190611950565b3d9150611f3d565b506020611f6e614f84565b90506118f4565b93506020843d602011611fa1575b81611f906020938361395c565b810103126102a957925192826118e0565b3d9150611f83565b506020611fb4614f84565b9050611884565b90506020843d602011611fe7575b81611fd66020938361395c565b810103126102a9575f93519061187a565b3d9150611fc9565b506020611ffa614f84565b905061181e565b90506020833d60201161202d575b8161201c6020938361395c565b810103126102a9575f925190611813565b3d915061200f565b506020612040614f84565b90506117b7565b93506020843d602011612073575b816120626020938361395c565b810103126102a957925192826117a3565b3d9150612055565b506020612086614f84565b9050611747565b90506020843d6020116120b9575b816120a86020938361395c565b810103126102a9575f93519061173d565b3d915061209b565b5060206120cc614f84565b90506116e1565b60405162461bcd60e51b815260206004820152601a60248201527f52656164696e67206c61636b732052554c206368616e6e656c730000000000006044820152606490fd5b508115156116c9565b346102a9575f3660031901126102a957602060405160148152f35b346102a9576020806003193601126102a9576004356001600160401b0381116102a95781612171612184923690600401613c07565b8160405193828580945193849201613a1f565b8101600d815203019020604051908183825491828152019081925f52845f20905f5b868282106121fb5786866121bc8288038361395c565b60405192839281840190828552518091526040840192915f5b8281106121e457505050500390f35b8351855286955093810193928101926001016121d5565b8354855290930192600192830192016121a6565b346102a95760203660031901126102a9576004355f52600a60205260405f208054600261223e6001840161397d565b92015461225d6040519384938452606060208501526060840190613a40565b9060408301520390f35b346102a95760203660031901126102a9576004356001600160401b0381116102a95761229f60206121716122e5933690600401613c07565b810160028152030190206122b960ff60028301541661406d565b6102a56122d160016122ca8461397d565b930161397d565b604051938493604085526040850190613a40565b908382036020850152613a40565b346102a9575f3660031901126102a9576102a561230e613cdb565b604051918291602083526020830190613a40565b346102a9575f3660031901126102a95760055461233e81613ef4565b61234b604051918261395c565b8181526020916020820160055f527f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db0935f915b83831061239b57604051602080825281906102a590820188613b66565b60018281926123a98961397d565b81520196019201919461237e565b346102a9575f3660031901126102a9575f546040516001600160a01b039091168152602090f35b346102a9575f3660031901126102a957602060405160028152f35b346102a95760403660031901126102a9576001600160401b036004358181116102a95761242a903690600401613c07565b906024359081116102a957604091612461602061244e612471943690600401613c07565b9281865193828580945193849201613a1f565b8101601881520301902090613cb5565b6001815491015482519182526020820152f35b346102a9575f3660031901126102a95760206040516103e88152f35b346102a95760203660031901126102a9576004356001600160401b0381116102a9576124d6602061217181933690600401613c07565b8101600e81520301902054604051908152f35b346102a95760203660031901126102a9576004356001600160401b0381116102a957602061217161251e923690600401613c07565b81016014815203019020600281015461253c60ff8260281c16613e33565b60ff8160201c169063ffffffff612584612561600161255a8761397d565b960161397d565b61257660405196608088526080880190613a40565b908682036020880152613a40565b91166040840152600482101561259f57829160608301520390f35b634e487b7160e01b5f52602160045260245ffd5b346102a95760403660031901126102a9576004356001600160401b0381116102a9576125e3903690600401613ab9565b6125eb613c3b565b6125f761043d33613f0b565b604051928281853783838101600681526020958691030190209260018060a01b0380931693845f52855260ff60405f20541661263281613c51565b15612791576040518183823785818381016007815203019020926040518284823786818481016008815203019020855f52865260405f2054935f199485810181811161277d57825487810190811161277d5761059a91856126966126a79387614058565b90549060031b1c1692839186614058565b6040518587823789818781016008815203019020905f52885260405f20558054948515612769577ff3a2b91552b535c273a48d8b7453c8b0b287e20e51d74121eb50d975dbaa506d9501916126fc8383614058565b909182549160031b1b19169055556040518183823785818381016008815203019020845f5285525f60408120556040518183823785818381016006815203019020845f52855260405f2060ff1981541690556127646040519283928784523397840191613ed4565b0390a3005b634e487b7160e01b5f52603160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260048101869052601060248201526f149bdb19481b9bdd0819dc985b9d195960821b6044820152606490fd5b346102a9576020806003193601126102a9576001600160401b03906004358281116102a9576127fc903690600401613c07565b61280b61166361165c836143d1565b60405191815192818181850195612823818389613a1f565b810160108152030190206001808201908060ff83541661284281613c51565b14612ae6575b6040519561285587613941565b818752848701968536893760405186818951612872818388613a1f565b8101600f8152030190205461288682613fc0565b525f987f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549960018060a01b03805f8051602061528c8339815191525416803b156102a9575f6040518092637d6e912360e11b82528d60048301528183816128f3602482018b613c5b565b03925af1801561083257612ad3575b508c907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15612acf57818d604051928391633263b83b60e01b835260048301526060602483015281838161295d606482018b613c5b565b630cadcfc360e41b604483015203925af18015612ac457612aac575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808a5260408d2054611d95578b8d52895260408c209151928311612a9857600160401b8311612a98578154838355838a8e838310612a70575b50505050908b52878b20858c5b848110612a5e5750505050508054985f198a14611d335750827f121896374d52cbf7a9c8c8e7b6e16df66c92ef85699c77c6358a5a3d95535494989901905585519020875f526012855260405f205586835560ff19825416179055600342910155612a59604051928284938452830190613a40565b0390a2005b8a8451940193818401550186906129e4565b85815220918201918891015b828110612a8d575050838a8e6129d7565b5f8155018790612a7c565b634e487b7160e01b8c52604160045260248cfd5b612ab59061392e565b612ac0578b8d612979565b8b80fd5b6040513d84823e3d90fd5b5080fd5b612ade919d5061392e565b5f9b8d612902565b6003830154610e10810180911161277d574210612b105782545f52601284525f6040812055612848565b60405162461bcd60e51b815260048101859052601a60248201527f44656372797074696f6e20616c72656164792070656e64696e670000000000006044820152606490fd5b346102a9576020806003193601126102a9576004356001600160401b0381116102a957612b86903690600401613a89565b5f5b818110612b9157005b612b9c818385613ec4565b355f52600a808552612bb360405f20541515613f83565b612bbe828486613ec4565b355f528452612be161166333612bdc611657600160405f200161397d565b613f3b565b612bec818385613ec4565b355f526019845260405f20548015612c125790612c0c6001923390614f05565b01612b88565b60405162461bcd60e51b815260048101869052600e60248201526d139bc8185b185c9b481b195d995b60921b6044820152606490fd5b346102a9575f3660031901126102a9576020600954604051908152f35b346102a95760203660031901126102a9576004356001600160401b0381116102a957612c9c602061217160a0933690600401613c07565b81016010815203019020600181015460ff81169163ffffffff815492600360028401549301549360405195612cd081613c51565b8652602086015260081c16604084015260608301526080820152f35b346102a95760403660031901126102a957612d05613c25565b602435908115158083036102a9575f546001600160a01b03919082163303612d8157612d786020927f235bc17e7930760029e9f4d860a2a8089976de5b381cf8380fc11c1d88a11133941694612d5c861515613fe1565b855f526001845260405f209060ff801983541691151516179055565b604051908152a2005b60405162461bcd60e51b815260206004820152600a60248201526927b7363c9037bbb732b960b11b6044820152606490fd5b346102a9575f3660031901126102a9576102a561230e613c8e565b346102a9575f3660031901126102a957600354612dea81613ef4565b612df7604051918261395c565b8181526020916020820160035f527fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b935f915b838310612e4757604051602080825281906102a590820188613b66565b6001828192612e558961397d565b815201960192019194612e2a565b346102a95760a03660031901126102a9576001600160401b036004358181116102a957612e94903690600401613ab9565b6024358381116102a957612eac903690600401613ab9565b6084358581116102a957612ec4903690600401613ab9565b919092612edb61166361165c61165736898b613bc2565b612f2f6040519383838637600285858101601481526020978891030190200195612f1f82828954612f1160ff8260281c16613e33565b60ff604435918b1c166148ca565b9660ff6064359154881c166148ca565b96604051906040820190828210908211176105f2577fb9b6b7d73943086baa1c009aa75b5286c016220240dac4e3e33587b2b8bf99ab98610aa0966001926040528352858301908152604051888a823786818a8101601881520301902086604051809288888337888201908152030190209251835551910155612fbf604051968796604088526040880191613ed4565b9285840390860152613ed4565b346102a9576020806003193601126102a9576004356001600160401b0381116102a957612ffd903690600401613c07565b9060405191805192828181840195613016818389613a1f565b8101600781520301902091604051938485838654928381520180965f52845f20925f5b86828210613173575050506130509250038661395c565b84519261307561305f85613ef4565b9461306d604051968761395c565b808652613ef4565b84840190601f19013682375f5b87518110156130e257600190604051868186516130a081838b613a1f565b81016006815203019020828060a01b036130ba838c613fcd565b51165f52865260ff60405f2054166130d28289613fcd565b6130db82613c51565b5201613082565b506040805181815297519088018190528796919560608801945092505f5b81811061315357505050848203858401525180825290820192915f5b82811061312b57505050500390f35b9193839550908060019281955161314181613c51565b8152019501910191859493919261311c565b82516001600160a01b031685528897509385019391850191600101613100565b85546001600160a01b031684526001958601958b955093019201613039565b346102a9576020806003193601126102a957600435805f52600a82526131bd60405f20541515613f83565b805f526016825260405f209182546131d481613ef4565b936131e2604051958661395c565b8185525f908152828120838087015b8484106132925787878382519061320782613ef4565b91613215604051938461395c565b808352613224601f1991613ef4565b0136828401375f5b845181101561326857600190845f526017835261325660405f206132508389613fcd565b51613cb5565b546132618286613fcd565b520161322c565b613285856102a58486604051948594604086526040860190613b66565b9184830390850152613c5b565b60019182916132a08561397d565b81520192019201919084906131f1565b346102a95760603660031901126102a9576004356001600160401b0381116102a9576132e0903690600401613c07565b6132e8613c3b565b6044359060038210156102a95761330f602080948160405193828580945193849201613a1f565b810160068152030190209060018060a01b03165f52825260ff60405f2054169061333881613c51565b61334182613c51565b60405191148152f35b346102a95760403660031901126102a9576004356001600160401b0381116102a95761337a903690600401613c07565b61339b6020613387613c3b565b928160405193828580945193849201613a1f565b810160068152030190209060018060a01b03165f52602052602060ff60405f205416604051906133ca81613c51565b8152f35b346102a95760203660031901126102a95760206133f16133ec613c25565b613f0b565b6040519015158152f35b346102a95760203660031901126102a9576004356001600160401b0381116102a957613431602061217181933690600401613c07565b8101600f81520301902054604051908152f35b346102a9575f3660031901126102a9576020604051600a8152f35b346102a9575f3660031901126102a95760206040516101c28152f35b346102a9575f3660031901126102a957602060405161028a8152f35b346102a9575f3660031901126102a957602060405160018152f35b346102a95760803660031901126102a9576001600160401b036004358181116102a9576134e3903690600401613ab9565b906064359283116102a9576134ff613523933690600401613ab9565b92909161351661166361165c611657368686613bc2565b6044359160243591614847565b005b346102a9575f3660031901126102a95760155461354181613ef4565b61354e604051918261395c565b8181526020916020820160155f527f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec475935f915b83831061359e57604051602080825281906102a590820188613b66565b60018281926135ac8961397d565b815201960192019194613581565b346102a9576135c836613ae6565b9386959295939193151580613667575b6135e190613d46565b8681148061365e575b6135f390613d9a565b5f5b8781106135fe57005b806136588787878b878f8f9861364981613641818d8660019f611663611657612bdc6136318761363c956136519e613dde565b929033933691613bc2565b613dde565b959097613ec4565b35938c613ec4565b3592614847565b016135f5565b508587146135ea565b5060208711156135d8565b346102a95761368036613ae6565b908697949695929515158061388c575b61369990613d46565b86151580613875575b6136ab90613d9a565b5f5b8781106137bd57505f5b8881106136c057005b6136d7611663611657612bdc613631858e8c613dde565b6136eb6136e5828b89613dde565b9061440f565b5f5b89811061376057509060019161370e613707838d8b613dde565b90836145a8565b7fe118acf771edf83115772510d35b90dc08ddcff2f1a9b2d960b91568bb97f20b61373a838d8b613dde565b613751604051928392604084526040840191613ed4565b4260208301520390a2016136b7565b613771818b889c959c9b949b613dde565b61377e858d949394613d87565b9282840180941161277d57866137b1928d6137ab8b946137a28f998b60019b613ec4565b35933691613bc2565b9061450f565b019891989790976136ed565b60026137f460ff6137cf848c89613dde565b9390846040519586928337810160148152602095869103019020015460281c16613e33565b5f5b8281106138075750506001016136ad565b613815610956848c89613dde565b828151910120613829610956838d8a613dde565b8381519101201461383c576001016137f6565b60405162461bcd60e51b8152600481018390526011602482015270111d5c1b1a58d85d194818da185b9b995b607a1b6044820152606490fd5b506136ab613883888a613d87565b871490506136a2565b506020881115613690565b346102a95760203660031901126102a9576004355f52600b60205260405f206138bf8161397d565b6102a560ff600260018501549401541660405193849384613a65565b90600182811c92168015613909575b60208310146138f557565b634e487b7160e01b5f52602260045260245ffd5b91607f16916138ea565b606081019081106001600160401b038211176105f257604052565b6001600160401b0381116105f257604052565b604081019081106001600160401b038211176105f257604052565b90601f801991011681019081106001600160401b038211176105f257604052565b9060405191825f825461398f816138db565b908184526020946001916001811690815f146139fd57506001146139bf575b5050506139bd9250038361395c565b565b5f90815285812095935091905b8183106139e55750506139bd93508201015f80806139ae565b855488840185015294850194879450918301916139cc565b925050506139bd94925060ff191682840152151560051b8201015f80806139ae565b5f5b838110613a305750505f910152565b8181015183820152602001613a21565b90602091613a5981518092818552858086019101613a1f565b601f01601f1916010190565b919392613a7c604092606085526060850190613a40565b9460208401521515910152565b9181601f840112156102a9578235916001600160401b0383116102a9576020808501948460051b0101116102a957565b9181601f840112156102a9578235916001600160401b0383116102a957602083818601950101116102a957565b60806003198201126102a9576001600160401b03906004358281116102a95781613b1291600401613a89565b939093926024358181116102a95783613b2d91600401613a89565b939093926044358381116102a95782613b4891600401613a89565b939093926064359182116102a957613b6291600401613ab9565b9091565b90808251908181526020809101926020808460051b8301019501935f915b848310613b945750505050505090565b9091929394958480613bb2600193601f198682030187528a51613a40565b9801930193019194939290613b84565b9291926001600160401b0382116105f25760405191613beb601f8201601f19166020018461395c565b8294818452818301116102a9578281602093845f960137010152565b9080601f830112156102a957816020613c2293359101613bc2565b90565b600435906001600160a01b03821682036102a957565b602435906001600160a01b03821682036102a957565b6003111561259f57565b9081518082526020808093019301915f5b828110613c7a575050505090565b835185529381019392810192600101613c6c565b60405190613c9b82613941565b600b82526a74656d706572617475726560a81b6020830152565b602090613ccf928260405194838680955193849201613a1f565b82019081520301902090565b60405190613ce882613941565b60098252683b34b13930ba34b7b760b91b6020830152565b60606003198201126102a957600435916001600160401b036024358181116102a95783613d2f91600401613c07565b926044359182116102a957613c2291600401613c07565b15613d4d57565b60405162461bcd60e51b8152602060048201526012602482015271496e76616c69642062617463682073697a6560701b6044820152606490fd5b8181029291811591840414171561277d57565b15613da157565b60405162461bcd60e51b8152602060048201526015602482015274084c2e8c6d040d8cadccee8d040dad2e6dac2e8c6d605b1b6044820152606490fd5b9190811015613e1f5760051b81013590601e19813603018212156102a95701908135916001600160401b0383116102a95760200182360381136102a9579190565b634e487b7160e01b5f52603260045260245ffd5b15613e3a57565b60405162461bcd60e51b815260206004820152601660248201527510da185b9b995b081b9bdd081c9959da5cdd195c995960521b6044820152606490fd5b15613e7f57565b60405162461bcd60e51b815260206004820152601860248201527f4f6e6c792073756273746174696f6e206f70657261746f7200000000000000006044820152606490fd5b9190811015613e1f5760051b0190565b908060209392818452848401375f828201840152601f01601f1916010190565b6001600160401b0381116105f25760051b60200190565b5f546001600160a01b0391821691168114908115613f27575090565b90505f52600160205260ff60405f20541690565b6020613f54918160405193828580945193849201613a1f565b810160068152030190209060018060a01b03165f52602052600160ff60405f205416613f7f81613c51565b1490565b15613f8a57565b60405162461bcd60e51b815260206004820152600e60248201526d11185d18481b9bdd08199bdd5b9960921b6044820152606490fd5b805115613e1f5760200190565b8051821015613e1f5760209160051b010190565b15613fe857565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081858d8dbdd5b9d608a1b6044820152606490fd5b1561402657565b60405162461bcd60e51b815260206004820152600a60248201526927b7363c9030b236b4b760b11b6044820152606490fd5b8054821015613e1f575f5260205f2001905f90565b1561407457565b60405162461bcd60e51b815260206004820152601960248201527f53756273746174696f6e206e6f742072656769737465726564000000000000006044820152606490fd5b156140c057565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e481c1c9bd8d95cdcd959607a1b6044820152606490fd5b601f821161410657505050565b5f5260205f20906020601f840160051c8301931061413e575b601f0160051c01905b818110614133575050565b5f8155600101614128565b909150819061411f565b91909182516001600160401b0381116105f25761416981610a0a84546138db565b602080601f83116001146141aa5750819061419b9394955f9261419f575b50508160011b915f199060031b1c19161790565b9055565b015190505f80614187565b90601f19831695845f5260205f20925f905b8882106141f3575050836001959697106141db575b505050811b019055565b01515f1960f88460031b161c191690555f80806141d1565b806001859682949686015181550195019301906141bc565b1561421257565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b908160209103126102a9575163ffffffff811681036102a95790565b60405190815f8254614276816138db565b936001918083169081156142d9575060011461429e575b505060209250600e81520301902090565b9091505f5260209060205f20905f915b8583106142c5575050505060209181015f8061428d565b8054878401528694509183019181016142ae565b92505050602093915060ff191682528015150281015f8061428d565b9060405180925f908054614308816138db565b9160019180831690811561436b575060011461432e575b50505060209281520301902090565b5f9081526020808220969450915b8382106143555750505060209350820190925f8061431f565b865488830152958601958795509082019061433c565b60ff19168652505050801515028201905060205f8061431f565b1561438c57565b60405162461bcd60e51b815260206004820152601860248201527f45717569706d656e74206e6f74207265676973746572656400000000000000006044820152606490fd5b6143ed6020613c22928160405193828580945193849201613a1f565b8101600481520301902061440a60ff600283015460081c16614385565b61397d565b90600954916001830180931161277d5760209083600955826040805161443481613913565b8681526002614444368587613bc2565b86830190815261446c848401914283528a5f52600a8952855f20945185555160018501614148565b519101556144cb815161447e81613913565b614489368587613bc2565b815260028682015f8152848301905f82528a5f52600b89526144af865f20945185614148565b51600184015551151591019060ff801983541691151516179055565b5193849283378101600d8152030190208054600160401b8110156105f2576144f891600182018155614058565b81549060031b9083821b915f19901b191617905590565b926145479294919460ff6002604051602081816145328c83815193849201613a1f565b81016014815203019020015460201c166148ca565b815f52601760205261455c60405f2084613cb5565b555f52601660205260405f208054600160401b8110156105f25761458591600182018155614058565b919091614595576139bd91614148565b634e487b7160e01b5f525f60045260245ffd5b9291835f52602091601683526040805f20905f915f945f945f945b8354861015614706576145f28551848482378a8186810160188152030190206145ec8887614058565b506142f5565b978854156146fa5761461a97988c8b61460b8a89614058565b508951905f9080549d8e6138db565b9060019e8f811690815f146146e257506001146146a9575b50508260ff60028460019a999896614670989686601460179852030190200154821c16925f52526146698a5f206145ec8d8c614058565b5490614df7565b928b156146a3579061468191614e81565b991561469d579061469191614e81565b96955b019495966145c3565b50614691565b50614681565b9091505f52825f208d5f915b8383106146c95750505081018260ff614632565b80959293949554848701520191018f9392918e906146b5565b60ff19168552505080151502820190508260ff614632565b96956001919850614694565b969450505050939195949515614840575f9260018060a01b035f8051602061526c83398151915284828254166044895180998193639cd07acb60e01b835260026004840152600260248401525af1958615614836575f96614800575b5091604485925f9594541691885195869384926307227b9160e21b84526004840152600260248401525af19182156147f6575f926147c6575b50906019936147a9926151c5565b936147b43086614f05565b6147be3386614f05565b5f52525f2055565b91508282813d83116147ef575b6147dd818361395c565b810103126102a957905190601961479b565b503d6147d3565b85513d5f823e3d90fd5b93929095508484813d831161482f575b61481a818361395c565b810103126102a9579251949192916044614762565b503d614810565b87513d5f823e3d90fd5b5050505050565b92947fe118acf771edf83115772510d35b90dc08ddcff2f1a9b2d960b91568bb97f20b9461489d92939661488f8383614880888a61440f565b9a614889613c8e565b8c61450f565b614897613cdb565b8861450f565b6148a88183866145a8565b6148bf604051928392604084526040840191613ed4565b4260208301520390a2565b919260049283811015614b6157806149f757506148ee614937946020923691613bc2565b60018060a01b0392835f8051602061526c8339815191525416905f60405180988195829463196d0b9b60e01b84528a840152336024840152608060448401526084830190613a40565b6002606483015203925af1928315610832575f936149c3575b505f8051602061528c8339815191525416803b156102a95760408051630f8e573b60e21b81529283018481523360208201525f9284929091839185918391015b03925af18015610832576149b4575b506149aa3082614f05565b613c223382614f05565b6149bd9061392e565b5f61499f565b9092506020813d6020116149ef575b816149df6020938361395c565b810103126102a95751915f614950565b3d91506149d2565b60018103614a6d57506148ee614a11946020923691613bc2565b6003606483015203925af1928315610832575f936149c357505f8051602061528c8339815191525416803b156102a95760408051630f8e573b60e21b81529283018481523360208201525f928492909183918591839101614990565b600203614af4576148ee614a85946020923691613bc2565b88606483015203925af1928315610832575f936149c357505f8051602061528c8339815191525416803b156102a95760408051630f8e573b60e21b81529283018481523360208201525f92849290918391859183910103925af18015610832576149b457506149aa3082614f05565b6148ee614b05946020923691613bc2565b6005606483015203925af1928315610832575f936149c357505f8051602061528c8339815191525416803b156102a95760408051630f8e573b60e21b81529283018481523360208201525f928492909183918591839101614990565b602184634e487b7160e01b5f525260245ffd5b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f205415614d3357855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614d1d57505050614be39250038361395c565b80518085019081861161277d57860180911161277d57614c845f8694614c3289614c979681519681614c1e89935180928d8087019101613a1f565b8201908a820152038881018752018561395c565b614ca660018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190613c5b565b6003199384878303016024880152613a40565b91848303016044850152613a40565b03925af1918215614d13575f92614cf6575b505015614ce657507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b614d0c9250803d1061101257611004818361395c565b5f80614cb8565b83513d5f823e3d90fd5b8554845260019586019588955093019201614bcc565b845163d66ca67560e01b8152600490fd5b908115614de7575b8015614dd5575b602090606460018060a01b035f8051602061526c8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610832575f91614da6575090565b90506020813d602011614dcd575b81614dc16020938361395c565b810103126102a9575190565b3d9150614db4565b506020614de0614f84565b9050614d53565b9050614df1614f84565b90614d4c565b929192600481101561259f5780614e235750613c22906001614e1a855483615173565b94015490615173565b60018103614e465750613c22906001614e3d85548361514a565b9401549061514a565b600214614e6757613c22906001614e5e85548361519c565b9401549061519c565b613c22906001614e7885548361511b565b9401549061511b565b908115614ef5575b8015614ee3575b602090606460018060a01b035f8051602061526c8339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115610832575f91614da6575090565b506020614eee614fd6565b9050614e90565b9050614eff614fd6565b90614e89565b5f8051602061528c833981519152546001600160a01b031691823b156102a957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561083257614f635750565b6139bd9061392e565b908160209103126102a9575180151581036102a95790565b5f8051602061526c83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610832575f91614da6575090565b5f602060018060a01b035f8051602061526c8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610832575f91614da6575090565b5f8051602061526c83398151915254604051639cd07acb60e01b81525f60048201819052600360248301529091602091839160449183916001600160a01b03165af1908115610832575f91614da6575090565b5f8051602061526c83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115610832575f91614da6575090565b5f8051602061526c83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610832575f91614da6575090565b90613c2291801561513c575b81615217579050615136614f84565b90615217565b50615145614f84565b615127565b90613c22918015615165575b81615217579050615136615022565b5061516e615022565b615156565b90613c2291801561518e575b81615217579050615136615075565b50615197615075565b61517f565b90613c229180156151b7575b816152175790506151366150c8565b506151c06150c8565b6151a8565b9060646020925f60018060a01b035f8051602061526c83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610832575f91614da6575090565b90602090606460018060a01b035f8051602061526c8339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610832575f91614da657509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000ab19468c822e03c2e0443b26b08c39387d321895fbf348541c66117f3e1d723b5";
+
+type FHEPowerMaintenanceConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FHEPowerMaintenanceConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FHEPowerMaintenance__factory extends ContractFactory {
+  constructor(...args: FHEPowerMaintenanceConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      FHEPowerMaintenance & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): FHEPowerMaintenance__factory {
+    return super.connect(runner) as FHEPowerMaintenance__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FHEPowerMaintenanceInterface {
+    return new Interface(_abi) as FHEPowerMaintenanceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FHEPowerMaintenance {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as FHEPowerMaintenance;
+  }
+}
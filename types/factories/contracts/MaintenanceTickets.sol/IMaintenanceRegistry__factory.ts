@@ -0,0 +1,116 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IMaintenanceRegistry,
+  IMaintenanceRegistryInterface,
+} from "../../../contracts/MaintenanceTickets.sol/IMaintenanceRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+    ],
+    name: "getEquipment",
+    outputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "readingCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+    ],
+    name: "getSubstation",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IMaintenanceRegistry__factory {
+  static readonly abi = _abi;
+  static createInterface(): IMaintenanceRegistryInterface {
+    return new Interface(_abi) as IMaintenanceRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IMaintenanceRegistry {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as IMaintenanceRegistry;
+  }
+}
@@ -0,0 +1,535 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MaintenanceTickets,
+  MaintenanceTicketsInterface,
+} from "../../../contracts/MaintenanceTickets.sol/MaintenanceTickets";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "registryAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "technician",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "TicketAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "TicketCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "technician",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "resolution",
+        type: "string",
+      },
+    ],
+    name: "TicketCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum MaintenanceTickets.Priority",
+        name: "priority",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    name: "TicketCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "technician",
+        type: "address",
+      },
+    ],
+    name: "TicketStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "author",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "text",
+        type: "string",
+      },
+    ],
+    name: "WorkNoteAdded",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "text",
+        type: "string",
+      },
+    ],
+    name: "addWorkNote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "technician",
+        type: "address",
+      },
+    ],
+    name: "assignTicket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "cancelTicket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "resolution",
+        type: "string",
+      },
+    ],
+    name: "completeTicket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "equipmentId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "dataId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "issue",
+        type: "string",
+      },
+      {
+        internalType: "enum MaintenanceTickets.Priority",
+        name: "priority",
+        type: "uint8",
+      },
+    ],
+    name: "createTicket",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "substationId",
+        type: "string",
+      },
+    ],
+    name: "getSubstationTickets",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+    ],
+    name: "getTicket",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "substationId",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "equipmentId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "dataId",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "issue",
+            type: "string",
+          },
+          {
+            internalType: "enum MaintenanceTickets.Priority",
+            name: "priority",
+            type: "uint8",
+          },
+          {
+            internalType: "enum MaintenanceTickets.TicketStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "assignee",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "resolution",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "updatedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MaintenanceTickets.Ticket",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+    ],
+    name: "getWorkNotes",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "author",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "text",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MaintenanceTickets.WorkNote[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "registry",
+    outputs: [
+      {
+        internalType: "contract IMaintenanceRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketId",
+        type: "uint256",
+      },
+    ],
+    name: "startTicket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ticketCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346100c657601f611b8338819003918201601f19168301916001600160401b038311848410176100ca578084926020946040528339810103126100c657516001600160a01b038116908190036100c657801561008e57608052604051611aa490816100df82396080518181816108e601528181610ae001528181610eec0152818161130d0152611a200152f35b60405162461bcd60e51b815260206004820152601060248201526f496e76616c696420726567697374727960801b6044820152606490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063262dbfa71461142d5780635a3886111461133c5780637b103999146112f85780637dc379fa1461108e57806386a5dd7b14610a3a5780638d9ab05b1461080f5780638f66ca32146105d1578063b434a0f2146104ed578063cfbd900f146104d1578063ea892bbd146103875763ef46e48114610092575f80fd5b34610383576100a036611600565b9180151580610378575b6100b39061172f565b805f5260019160209383855260405f2060018060a01b0394856006830154163314801561034e575b15610309576100f26100ec83611a6c565b15611883565b82156102d457845f526002875260405f209560405191610111836116a2565b33835261011f3686886116f9565b918984019283526040840198428a52805490600160401b8210156102ac578382018082558210156102c0575f5260038b5f209102019351166bffffffffffffffffffffffff60a01b8454161783558083019151908151916001600160401b0383116102ac5761019883610192865461176e565b866118bf565b8a91601f84116001146102215750827fe20a72824dd6edb562c15e06e8703fad532fb90b1fb91a831367c58f9139963a999a93600295936101ee935f92610216575b50508160011b915f199060031b1c19161790565b90555b51910155600942910155610211604051928392878452339784019161190e565b0390a3005b015190505f806101da565b9291601f19831691855f528c5f20928d5f905b828210610295575050917fe20a72824dd6edb562c15e06e8703fad532fb90b1fb91a831367c58f9139963a9b9c9593918560029896941061027d575b505050811b0190556101f1565b01515f1960f88460031b161c191690555f8080610270565b808886978294978701518155019601940190610234565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260048101889052600d60248201526c139bdd19481c995c5d5a5c9959609a1b6044820152606490fd5b60405162461bcd60e51b815260048101889052601860248201527f4e6f742061207469636b6574207061727469636970616e7400000000000000006044820152606490fd5b5061037360405161036c81610365818688016117a6565b03826116bd565b33906119d7565b6100db565b505f548111156100aa565b5f80fd5b346103835760208060031936011261038357600435801515806104c6575b6103ae9061172f565b5f52600280825260405f2080546001600160401b0381116102ac5760405193926103de600583901b8501866116bd565b8185525f9283528383208486019391845b84841061047557604080518881528951818a018190525f92600582901b83018101918a918c9085015b8287106104255785850386f35b909192938280600192603f1989820301855287519060408061045f6060888060a01b03865116855286860151908088870152850190611654565b9301519101529601920196019592919092610418565b60038760019260409a999a5161048a816116a2565b848060a01b0387541681526040516104a88161036581898c016117a6565b838201528587015460408201528152019301930192919695966103ef565b505f548111156103a5565b34610383575f3660031901126103835760205f54604051908152f35b3461038357602080600319360112610383576004356001600160401b038111610383573660238201121561038357816105336105469236906024816004013591016116f9565b8160405193828580945193849201611633565b81016003815203019020604051908183825491828152019081925f52845f20905f5b868282106105bd57868661057e828803836116bd565b60405192839281840190828552518091526040840192915f5b8281106105a657505050500390f35b835185528695509381019392810192600101610597565b835485529093019260019283019201610568565b34610383576105df36611600565b9180151580610804575b6105f29061172f565b805f526001916020936001855261061960018060a01b03600660405f20015416331461192e565b825f526001855260405f2060058101805460ff8160081c1660058110156107f0576002036107b25783156107775761ff001916610300179055600781016001600160401b0383116102ac5761067883610672835461176e565b836118bf565b5f95601f84116001146106f257506106c883807ffe80dd07936de20ebbbe6da5480e072a1fa6187f0899865d0de73c0affab472b97985f916106e7575b508160011b915f199060031b1c19161790565b90555b600942910155610211604051928392878452339784019161190e565b90508601358a6106b5565b601f19841696825f52885f20915f905b8a8a831061075f57505050847ffe80dd07936de20ebbbe6da5480e072a1fa6187f0899865d0de73c0affab472b979810610746575b5050600183811b0190556106cb565b8501355f19600386901b60f8161c191690558780610737565b88840135855593810193928301929190910190610702565b60405162461bcd60e51b815260048101899052601360248201527214995cdbdb1d5d1a5bdb881c995c5d5a5c9959606a1b6044820152606490fd5b60405162461bcd60e51b81526004810189905260166024820152755469636b6574206e6f7420696e2070726f677265737360501b6044820152606490fd5b634e487b7160e01b5f52602160045260245ffd5b505f548111156105e9565b34610383576040366003190112610383576004356024356001600160a01b03818116918290036103835782151580610a2f575b61084b9061172f565b825f5260206001815261087861087361036561036c600160405f2001604051928380926117a6565b611837565b835f526001815260405f2091600583019182549160ff8360081c1660058110156107f0578015908115610a24575b50156109e75781604051809263065661a360e31b82526060600483015281806108d56064820160018c016117a6565b8b60248301526002604483015203917f0000000000000000000000000000000000000000000000000000000000000000165afa9081156109dc575f916109af575b501561096b57506006830180546001600160a01b0319168517905561ff0019166101001790554260099091015533917f8d3c7befb49ab350236403d9b04285dc4e50be6876ec1e0998ff7363e4e388b25f80a4005b6064906040519062461bcd60e51b82526004820152601b60248201527f4e6f7420612073756273746174696f6e20746563686e696369616e00000000006044820152fd5b6109cf9150823d84116109d5575b6109c781836116bd565b8101906119bf565b87610916565b503d6109bd565b6040513d5f823e3d90fd5b60405162461bcd60e51b81526004810183905260156024820152745469636b6574206e6f742061737369676e61626c6560581b6044820152606490fd5b6001915014886108a6565b505f54831115610842565b346103835760a0366003190112610383576004356001600160401b03811161038357610a6a9036906004016115d3565b906024356001600160401b03811161038357610a8a9036906004016115d3565b9290916064356001600160401b03811161038357610aac9036906004016115d3565b6003608435101561038357604051639b6b181d60e01b8152602060048201525f8180610adc60248201898961190e565b03817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156109dc5761102b575b50610b2d61087333610b283688886116f9565b6119d7565b8015610ff55785610ec3575b5f545f198114610eaf5760010191825f55825f52600160205260405f209283556001600160401b0385116102ac57610b8185610b78600186015461176e565b600186016118bf565b5f85601f8111600114610e465780610bac925f916106e757508160011b915f199060031b1c19161790565b60018401555b6001600160401b0387116102ac57610bda87610bd1600286015461176e565b600286016118bf565b5f87601f8111600114610ddd5780610c05925f91610dd257508160011b915f199060031b1c19161790565b60028401555b60443560038401556001600160401b0382116102ac57610c3b82610c32600486015461176e565b600486016118bf565b5f90601f8311600114610d6557610c6892915f9183610d5a5750508160011b915f199060031b1c19161790565b60048201555b60058101805461ff01600160b01b03191660843560ff16173360101b62010000600160b01b03161790554260088201819055600990910155604051828282376020818481016003815203019020925f5493805491600160401b8310156102ac57600183018083558310156102c057602096610d27967f3ac951157fdac4aee3bee1caa8c44c2acf6060c6b150bfd579d7fed66b1f48dd94610d34945f52895f2001555f549687956040519760808952608089019161190e565b918683038988015261190e565b926044356040820152610d4c60608201608435611679565b8033940390a3604051908152f35b0135905088806101da565b600484939293015f5260205f20905f935b601f1984168510610dba576001945083601f19811610610da1575b505050811b016004820155610c6e565b01355f19600384901b60f8161c19169055878080610d91565b81810135835560209485019460019093019201610d76565b90508801358a6106b5565b50600284015f5260205f20905f5b601f198a168110610e2e575088601f19811610610e15575b5050600187811b016002840155610c0b565b8701355f1960038a901b60f8161c191690558780610e03565b9091602060018192858c013581550193019101610deb565b50600184015f5260205f20905f5b601f1988168110610e97575086601f19811610610e7e575b5050600185811b016001840155610bb2565b8501355f19600388901b60f8161c191690558780610e6c565b9091602060018192858a013581550193019101610e54565b634e487b7160e01b5f52601160045260245ffd5b604051637e5a9cdd60e11b8152602060048201525f8180610ee8602482018b8b61190e565b03817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156109dc575f91610f88575b5060208151910120610f373686866116f9565b6020815191012014610b395760405162461bcd60e51b815260206004820152601b60248201527f45717569706d656e74206e6f7420696e2073756273746174696f6e00000000006044820152606490fd5b90503d805f833e610f9981836116bd565b81016080828203126103835781516001600160401b0381116103835781610fc191840161197a565b9160208101516001600160401b03811161038357604092610fe391830161197a565b50015160ff8116036103835787610f24565b60405162461bcd60e51b815260206004820152600e60248201526d125cdcdd59481c995c5d5a5c995960921b6044820152606490fd5b3d90815f823e61103b82826116bd565b60408183810103126103835780516001600160401b038111610383576110669083830190830161197a565b5060208101516001600160401b03811161038357611087928201910161197a565b5086610b15565b34610383576020366003190112610383576004355f6101606040516110b281611686565b8281526060602082015260606040820152826060820152606060808201528260a08201528260c08201528260e0820152826101008201526060610120820152826101408201520152801515806112ed575b61110c9061172f565b5f52600160205260405f206040519061112482611686565b8054825260405161113c8161036581600186016117a6565b60208301526040516111558161036581600286016117a6565b6040830152600381015460608301526040516111788161036581600486016117a6565b608083015260058101549060ff821660038110156107f05760a084015260ff8260081c169160058310156107f05760c084019290925260109190911c6001600160a01b0390811660e0840152600682015416610100830152604051600991906111e88161036581600786016117a6565b6101208401526008810154610140840152015461016082015260405190602082528051602083015261122b602082015161018060408501526101a0840190611654565b9061126961124b604083015193601f199485878303016060880152611654565b606083015160808601526080830151848683030160a0870152611654565b9161127c60a083015160c0860190611679565b60c082015160058110156107f0578493610160926112d69260e087015260018060a01b0360e08601511661010087015260018060a01b03610100860151166101208701526101208501519086830301610140870152611654565b916101408101518285015201516101808301520390f35b505f54811115611103565b34610383575f366003190112610383576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346103835760203660031901126103835760043580151580611422575b6113629061172f565b805f52600160205261138460018060a01b03600660405f20015416331461192e565b805f52600160205260405f2060058101805460ff8160081c1660058110156107f0576001036113e7576102009061ff00191617905560094291015533907f77de8c79239e19d1b8a853f76932d5cce6c7a51d53f2e37aec6d381e369b3a895f80a3005b60405162461bcd60e51b8152602060048201526013602482015272151a58dad95d081b9bdd08185cdcda59db9959606a1b6044820152606490fd5b505f54811115611359565b346103835761143b36611600565b91801515806115c8575b61144e9061172f565b805f5260019160209383855261147861087361036561036c8760405f2001604051928380926117a6565b825f5283855260405f2061148e6100ec82611a6c565b81156115915760058101805461ff001916610400179055600781016001600160401b0383116102ac576114c583610672835461176e565b5f95601f841160011461151457506106c883807f93061f6922dac528010583a0af173452723691074a6f1b8fb20db5e94e699a4297985f916106e757508160011b915f199060031b1c19161790565b601f19841696825f52885f20905f5b8a8a821061157d575050857f93061f6922dac528010583a0af173452723691074a6f1b8fb20db5e94e699a42989910611564575b505083811b0190556106cb565b8601355f19600387901b60f8161c191690558880611557565b888301358455928401929182019101611523565b60405162461bcd60e51b815260048101879052600f60248201526e1499585cdbdb881c995c5d5a5c9959608a1b6044820152606490fd5b505f54811115611445565b9181601f84011215610383578235916001600160401b038311610383576020838186019501011161038357565b9060406003198301126103835760043591602435906001600160401b0382116103835761162f916004016115d3565b9091565b5f5b8381106116445750505f910152565b8181015183820152602001611635565b9060209161166d81518092818552858086019101611633565b601f01601f1916010190565b9060038210156107f05752565b61018081019081106001600160401b038211176102ac57604052565b606081019081106001600160401b038211176102ac57604052565b90601f801991011681019081106001600160401b038211176102ac57604052565b6001600160401b0381116102ac57601f01601f191660200190565b929192611705826116de565b9161171360405193846116bd565b829481845281830111610383578281602093845f960137010152565b1561173657565b60405162461bcd60e51b815260206004820152601060248201526f151a58dad95d081b9bdd08199bdd5b9960821b6044820152606490fd5b90600182811c9216801561179c575b602083101461178857565b634e487b7160e01b5f52602260045260245ffd5b91607f169161177d565b80545f93926117b48261176e565b918282526020936001916001811690815f1461181857506001146117da575b5050505050565b90939495505f92919252835f2092845f945b83861061180457505050500101905f808080806117d3565b8054858701830152940193859082016117ec565b60ff19168685015250505090151560051b010191505f808080806117d3565b1561183e57565b60405162461bcd60e51b815260206004820152601860248201527f4f6e6c792073756273746174696f6e206f70657261746f7200000000000000006044820152606490fd5b1561188a57565b60405162461bcd60e51b815260206004820152600d60248201526c151a58dad95d0818db1bdcd959609a1b6044820152606490fd5b601f82116118cc57505050565b5f5260205f20906020601f840160051c83019310611904575b601f0160051c01905b8181106118f9575050565b5f81556001016118ee565b90915081906118e5565b908060209392818452848401375f828201840152601f01601f1916010190565b1561193557565b60405162461bcd60e51b815260206004820152601860248201527f4f6e6c792061737369676e656420746563686e696369616e00000000000000006044820152606490fd5b81601f82011215610383578051611990816116de565b9261199e60405194856116bd565b81845260208284010111610383576119bc9160208085019101611633565b90565b90816020910312610383575180151581036103835790565b60405163065661a360e31b8152606060048201529160209183916001600160a01b0391839182918490611a0e906064850190611654565b911660248301526001604483015203917f0000000000000000000000000000000000000000000000000000000000000000165afa9081156109dc575f91611a53575090565b6119bc915060203d6020116109d5576109c781836116bd565b600560ff91015460081c1660058110156107f05760038114908115611a8f575090565b60049150149056fea164736f6c6343000818000a";
+
+type MaintenanceTicketsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MaintenanceTicketsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MaintenanceTickets__factory extends ContractFactory {
+  constructor(...args: MaintenanceTicketsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    registryAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(registryAddress, overrides || {});
+  }
+  override deploy(
+    registryAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(registryAddress, overrides || {}) as Promise<
+      MaintenanceTickets & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MaintenanceTickets__factory {
+    return super.connect(runner) as MaintenanceTickets__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MaintenanceTicketsInterface {
+    return new Interface(_abi) as MaintenanceTicketsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MaintenanceTickets {
+    return new Contract(address, _abi, runner) as unknown as MaintenanceTickets;
+  }
+}
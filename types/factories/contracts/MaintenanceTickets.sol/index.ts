@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IMaintenanceRegistry__factory } from "./IMaintenanceRegistry__factory";
+export { MaintenanceTickets__factory } from "./MaintenanceTickets__factory";
@@ -0,0 +1,361 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  UniversalAdapter,
+  UniversalAdapterInterface,
+} from "../../contracts/UniversalAdapter";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "id",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RecordDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "id",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RecordStored",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "id",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "appendRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "id",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "expectedVersion",
+        type: "uint64",
+      },
+    ],
+    name: "deleteRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getData",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "id",
+        type: "string",
+      },
+    ],
+    name: "getRecord",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+      {
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+    ],
+    name: "getRecordIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+    ],
+    name: "getRecords",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "ids",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes[]",
+        name: "values",
+        type: "bytes[]",
+      },
+      {
+        internalType: "uint64[]",
+        name: "versions",
+        type: "uint64[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "id",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+      {
+        internalType: "uint64",
+        name: "expectedVersion",
+        type: "uint64",
+      },
+    ],
+    name: "updateRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657611354908161001b8239f35b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c9081631335e1da14610bb05750806333e424ee146109e55780636c67bdfa14610887578063856c71dd1461086c57806386e80b71146106165780638a53ddb91461058e578063ae55c8881461051f578063d567e2de1461013e5763d5bac5101461007f575f80fd5b3461013a5760208060031936011261013a576004356001600160401b03811161013a576100b182913690600401610f57565b9190826040519384928337810160028152030190209081546100d28161126b565b926100e0604051948561124a565b8184525f908152828120838086015b84841061010d57604051828152806101098185018a611014565b0390f35b600191829160405161012a816101238189611282565b038261124a565b81520192019201919084906100ef565b5f80fd5b3461013a57606036600319011261013a576004356001600160401b03811161013a5761016e903690600401610f57565b906024356001600160401b03811161013a5761018e903690600401610f57565b604493919335936001600160401b03851680950361013a576101ec6101c86040518587823760208187810160018152030190208484611070565b956001600160401b0360018801546101e560ff8260401c166111c8565b1614611207565b604051838582376020818581016002815203019020916102216040518587823760208187810160038152030190208284611070565b545f19810181811161050b5784545f19810190811161050b5761025b9161026261024e6102689389611134565b5060405194858092611282565b038461124a565b86611134565b61045b5781516001600160401b0381116104f7576102908161028a8454611089565b846110d7565b6020601f821160011461048d57916102c4826102ee95936020955f91610482575b508160011b915f199060031b1c19161790565b90555b604051888a823782818a810160038152030190208260405194838680955193849201610fce565b820190815203019020558254801561046e575f19019461030e8685611134565b91909161045b577f5431892e053e1ff6919c38f71329381ce23be7d5a73ad92e01e8ec641bf8ccea966103d395836103496103c59554611089565b908161041e575b5050555f610373604051888482376020818a810160038152030190208587611070565b5561037e8854611089565b806103e1575b5060018801549760016001600160401b036103a0818c1661111c565b16809a68ffffffffffffffffff1916179101556040519560608752606087019161115d565b91848303602086015261115d565b9260408201528033930390a2005b601f81116001146103f757505f88555b88610384565b5f90898252610415601f60208420920160051c8201600183016110c1565b818a55556103f1565b81601f5f93116001146104355750555b8a80610350565b908083918252610454601f60208420940160051c8401600185016110c1565b555561042e565b634e487b7160e01b5f525f60045260245ffd5b634e487b7160e01b5f52603160045260245ffd5b90508401518e6102b1565b825f5260205f20905f5b601f19841681106104df575082602094926001926102ee9795601f198116106104c7575b5050811b0190556102c7565b8501515f1960f88460031b161c191690558d806104bb565b90916020600181928589015181550193019101610497565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b3461013a57602036600319011261013a576004356001600160401b03811161013a5761012361057a602061055a610109943690600401610f57565b919082604051938492833781015f81520301902060405192838092611282565b604051918291602083526020830190610fef565b3461013a5761060b6105e86105c460206105a736610f84565b928260409592955193849283378101600181520301902091611070565b6105ef6001820154916105dc60ff8460401c166111c8565b60405193848092611282565b038361124a565b6001600160401b03604051938493604085526040850190610fef565b911660208301520390f35b3461013a5760208060031936011261013a576001600160401b039060043582811161013a57610649903690600401610f57565b90604051828282378381848101600281520301902092835461066a8161126b565b94610678604051968761124a565b8186525f908152828120838088015b8484106108465750505050508351906106b86106a28361126b565b926106b0604051948561124a565b80845261126b565b601f1995908601825f5b828110610836575050508051946106f16106db8761126b565b966106e9604051988961124a565b80885261126b565b8784880191013682375f5b8351811015610786576001908a604051858a82376107428887830192818188958681520301902061072d868b611313565b51908260405194838680955193849201610fce565b82019081520301902060405161075c816101238185611282565b610766858c611313565b52610771848b611313565b5001541661077f828b611313565b52016106fc565b509450509386959291926107a560405196606088526060880190611014565b8681038588015283519081815285810186808460051b8401019601935f925b8484106108075750505050868403604088015250505180825290820192915f5b8281106107f15785850386f35b83518716855293810193928101926001016107e4565b909192939497968780610824838686600196030188528c51610fef565b999a01969591909101930191906107c4565b60608282880101520183906106c2565b600191829160405161085c816101238189611282565b8152019201920191908490610687565b3461013a575f36600319011261013a57602060405160018152f35b3461013a5761089536610f84565b92909160405181838237818101905f8252602081819303019020906001600160401b0386116104f7576108cc8661028a8454611089565b5f90601f871160011461095a57509461094a9161092082807ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578298995f9161094f57508160011b915f199060031b1c19161790565b90555b61093a60405194859460408652604086019161115d565b908382036020850152339661115d565b0390a2005b90508901358a6102b1565b90601f198716835f5260205f20925f905b8282106109cd5750509161094a9391887ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782989994106109b4575b5050600182811b019055610923565b8801355f19600385901b60f8161c1916905587806109a5565b80600185968294968c0135815501950193019061096b565b3461013a57608036600319011261013a576001600160401b0360043581811161013a57610a16903690600401610f57565b60243583811161013a57610a2e903690600401610f57565b60449291923585811161013a57610a49903690600401610f57565b95909160643582811680910361013a5760405185888237858101610a7d60019260018352602081819403019020858a611070565b91610a9860018401948786546101e560ff8260401c166111c8565b858b116104f757610ab38b610aad8554611089565b856110d7565b5f91601f8c11600114610b335750509161094a959391610af98b805f805160206113288339815191529c9d98965f91610b2857508160011b915f199060031b1c19161790565b90555b805492610b0a81851661111c565b1680936001600160401b031916179055604051968796339a8861117d565b90508701358e6102b1565b5f848152602081209392601f198e1692905b838310610b99575050509161094a979593918c5f805160206113288339815191529c9d98969410610b80575b5050600186811b019055610afc565b8601355f19600389901b60f8161c191690558b80610b71565b8a8501358655948501949381019391810191610b45565b3461013a57606036600319011261013a576001600160401b039060043582811161013a57610be2903690600401610f57565b602492919293843581811161013a57610bff903690600401610f57565b60449491943583811161013a57610c1a903690600401610f57565b9390928215610f2257506040519785888a3785890190610c4a8a60019384815260209c8d9103019020858a611070565b918083019260ff845460401c16610ee657848811610ed357610c7688610c708354611089565b836110d7565b875f8d601f8311600114610e7057509080610ca4925f91610e6557508160011b915f199060031b1c19161790565b90555b8254680100000000000000008186610cc18184951661111c565b169068ffffffffffffffffff191617178455604051898c82378c818b81016002815203019020805491821015610e525790610d00918382018155611134565b929092610e4157848611610e2e5750610d1d8561028a8454611089565b5f90601f8611600114610db757509984939291610d638561094a9998975f805160206113288339815191529d9e5f91610dac57508160011b915f199060031b1c19161790565b90555b610d9a8b6040518a82823783818c8101600281520301902054928a604051928337818b81016003815203019020858b611070565b55541690604051968796339a8861117d565b90508c01358f6102b1565b90601f19861690835f528c5f20915f5b818110610e195750915f805160206113288339815191529c9d93918861094a9b9a999897969410610e00575b505085811b019055610d66565b8c01355f19600389901b60f8161c191690558d80610df3565b8c830135845592840192918e01918e01610dc7565b634e487b7160e01b5f9081526041600452fd5b634e487b7160e01b5f525f6004525ffd5b83634e487b7160e01b5f5260416004525ffd5b90508901358f6102b1565b91601f198116845f52835f20935f905b878d848410610eba575050505010610ea1575b50508188811b019055610ca7565b8801355f1960038b901b60f8161c191690558c80610e93565b860135875590950194938401938d935090810190610e80565b82634e487b7160e01b5f5260416004525ffd5b60405162461bcd60e51b8152600481018d9052601581850152745265636f726420616c72656164792065786973747360581b6044820152606490fd5b62461bcd60e51b81526020600482015260118982015270125b9d985b1a59081c9958dbdc99081a59607a1b6044820152606490fd5b9181601f8401121561013a578235916001600160401b03831161013a576020838186019501011161013a57565b604060031982011261013a576001600160401b039160043583811161013a5782610fb091600401610f57565b9390939260243591821161013a57610fca91600401610f57565b9091565b5f5b838110610fdf5750505f910152565b8181015183820152602001610fd0565b9060209161100881518092818552858086019101610fce565b601f01601f1916010190565b90808251908181526020809101926020808460051b8301019501935f915b8483106110425750505050505090565b9091929394958480611060600193601f198682030187528a51610fef565b9801930193019194939290611032565b6020919283604051948593843782019081520301902090565b90600182811c921680156110b7575b60208310146110a357565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611098565b8181106110cc575050565b5f81556001016110c1565b9190601f81116110e657505050565b611110925f5260205f20906020601f840160051c83019310611112575b601f0160051c01906110c1565b565b9091508190611103565b9060016001600160401b038093160191821161050b57565b8054821015611149575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b908060209392818452848401375f828201840152601f01601f1916010190565b926111c5979596946111a36111b1936001600160401b039560808852608088019161115d565b91858303602087015261115d565b94166040820152606081850391015261115d565b90565b156111cf57565b60405162461bcd60e51b815260206004820152601060248201526f149958dbdc99081b9bdd08199bdd5b9960821b6044820152606490fd5b1561120e57565b60405162461bcd60e51b815260206004820152601460248201527329ba30b632903932b1b7b932103b32b939b4b7b760611b6044820152606490fd5b90601f801991011681019081106001600160401b038211176104f757604052565b6001600160401b0381116104f75760051b60200190565b80545f939261129082611089565b918282526020936001916001811690815f146112f457506001146112b6575b5050505050565b90939495505f92919252835f2092845f945b8386106112e057505050500101905f808080806112af565b8054858701830152940193859082016112c8565b60ff19168685015250505090151560051b010191505f808080806112af565b80518210156111495760209160051b01019056feb27473af7194f3dbfe4492416ebb6fb86792906aaf01164111ce15c22284763da164736f6c6343000818000a";
+
+type UniversalAdapterConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: UniversalAdapterConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class UniversalAdapter__factory extends ContractFactory {
+  constructor(...args: UniversalAdapterConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      UniversalAdapter & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): UniversalAdapter__factory {
+    return super.connect(runner) as UniversalAdapter__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): UniversalAdapterInterface {
+    return new Interface(_abi) as UniversalAdapterInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): UniversalAdapter {
+    return new Contract(address, _abi, runner) as unknown as UniversalAdapter;
+  }
+}
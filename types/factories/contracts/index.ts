@@ -1,5 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { CuratedListsFHE__factory } from "./CuratedListsFHE__factory";
+export * as maintenanceTicketsSol from "./MaintenanceTickets.sol";
+export { FHEPowerMaintenance__factory } from "./FHEPowerMaintenance__factory";
+export { MaintenanceRegistry__factory } from "./MaintenanceRegistry__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
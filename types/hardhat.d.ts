@@ -46,9 +46,21 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "CuratedListsFHE",
+      name: "FHEPowerMaintenance",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.CuratedListsFHE__factory>;
+    ): Promise<Contracts.FHEPowerMaintenance__factory>;
+    getContractFactory(
+      name: "MaintenanceRegistry",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MaintenanceRegistry__factory>;
+    getContractFactory(
+      name: "IMaintenanceRegistry",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IMaintenanceRegistry__factory>;
+    getContractFactory(
+      name: "MaintenanceTickets",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MaintenanceTickets__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -95,10 +107,25 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "CuratedListsFHE",
+      name: "FHEPowerMaintenance",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.FHEPowerMaintenance>;
+    getContractAt(
+      name: "MaintenanceRegistry",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MaintenanceRegistry>;
+    getContractAt(
+      name: "IMaintenanceRegistry",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IMaintenanceRegistry>;
+    getContractAt(
+      name: "MaintenanceTickets",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.CuratedListsFHE>;
+    ): Promise<Contracts.MaintenanceTickets>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -138,9 +165,21 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "CuratedListsFHE",
+      name: "FHEPowerMaintenance",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.CuratedListsFHE>;
+    ): Promise<Contracts.FHEPowerMaintenance>;
+    deployContract(
+      name: "MaintenanceRegistry",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaintenanceRegistry>;
+    deployContract(
+      name: "IMaintenanceRegistry",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IMaintenanceRegistry>;
+    deployContract(
+      name: "MaintenanceTickets",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaintenanceTickets>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -187,10 +226,25 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "CuratedListsFHE",
+      name: "FHEPowerMaintenance",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHEPowerMaintenance>;
+    deployContract(
+      name: "MaintenanceRegistry",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaintenanceRegistry>;
+    deployContract(
+      name: "IMaintenanceRegistry",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IMaintenanceRegistry>;
+    deployContract(
+      name: "MaintenanceTickets",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.CuratedListsFHE>;
+    ): Promise<Contracts.MaintenanceTickets>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
@@ -22,7 +22,13 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { CuratedListsFHE } from "./contracts/CuratedListsFHE";
-export { CuratedListsFHE__factory } from "./factories/contracts/CuratedListsFHE__factory";
+export type { FHEPowerMaintenance } from "./contracts/FHEPowerMaintenance";
+export { FHEPowerMaintenance__factory } from "./factories/contracts/FHEPowerMaintenance__factory";
+export type { MaintenanceRegistry } from "./contracts/MaintenanceRegistry";
+export { MaintenanceRegistry__factory } from "./factories/contracts/MaintenanceRegistry__factory";
+export type { IMaintenanceRegistry } from "./contracts/MaintenanceTickets.sol/IMaintenanceRegistry";
+export { IMaintenanceRegistry__factory } from "./factories/contracts/MaintenanceTickets.sol/IMaintenanceRegistry__factory";
+export type { MaintenanceTickets } from "./contracts/MaintenanceTickets.sol/MaintenanceTickets";
+export { MaintenanceTickets__factory } from "./factories/contracts/MaintenanceTickets.sol/MaintenanceTickets__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";